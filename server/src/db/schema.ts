@@ -1,12 +1,18 @@
-import { serial, text, pgTable, timestamp, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, timestamp, integer, bigint, jsonb, boolean, pgEnum, unique } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
+import { type ChecklistItem, type ChecklistResult, type ColumnProfile, type ValidationCheckResult } from '../schema';
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['viewer', 'contributor', 'curator', 'admin']);
 export const profileTypeEnum = pgEnum('profile_type', ['lecturer', 'student']);
 export const datasetAccessLevelEnum = pgEnum('dataset_access_level', ['public', 'private', 'restricted']);
-export const datasetStatusEnum = pgEnum('dataset_status', ['draft', 'review', 'approved', 'published']);
-export const curationReviewStatusEnum = pgEnum('curation_review_status', ['pending', 'approved', 'rejected']);
+export const datasetStatusEnum = pgEnum('dataset_status', ['draft', 'review', 'approved', 'published', 'withdrawn']);
+export const curationReviewStatusEnum = pgEnum('curation_review_status', ['pending', 'approved', 'changes_requested', 'rejected']);
+export const accessRequestStatusEnum = pgEnum('access_request_status', ['pending', 'approved', 'denied']);
+export const fileIntegrityStatusEnum = pgEnum('file_integrity_status', ['unverified', 'ok', 'mismatch', 'missing']);
+export const fileCompressionEnum = pgEnum('file_compression', ['gzip', 'bzip2']);
+export const fileValidationStatusEnum = pgEnum('file_validation_status', ['pending', 'pass', 'warn', 'fail']);
+export const reviewFieldEnum = pgEnum('review_field', ['title', 'description', 'domain', 'task', 'license', 'doi', 'access_level', 'publication_year']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -45,10 +51,30 @@ export const datasetsTable = pgTable('datasets', {
   status: datasetStatusEnum('status').notNull().default('draft'),
   contributor_id: integer('contributor_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
   publication_year: integer('publication_year').notNull(),
+  version: integer('version').notNull().default(1), // Version the current metadata and files belong to
+  published_version: integer('published_version'), // Latest frozen version; null until first published
+  live_version: integer('live_version'), // Published version readers keep seeing while the next one is revised
+  review_round: integer('review_round').notNull().default(0), // Counts submissions for review
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Immutable snapshots of dataset metadata, frozen when a version is published
+export const datasetVersionsTable = pgTable('dataset_versions', {
+  id: serial('id').primaryKey(),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(),
+  title: text('title').notNull(),
+  description: text('description').notNull(),
+  domain: text('domain').notNull(),
+  task: text('task').notNull(),
+  license: text('license').notNull(),
+  doi: text('doi'),
+  contributor_id: integer('contributor_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  publication_year: integer('publication_year').notNull(),
+  published_at: timestamp('published_at').defaultNow().notNull(),
+}, table => [unique().on(table.dataset_id, table.version)]);
+
 // Dataset files table
 export const datasetFilesTable = pgTable('dataset_files', {
   id: serial('id').primaryKey(),
@@ -57,6 +83,53 @@ export const datasetFilesTable = pgTable('dataset_files', {
   path: text('path').notNull(),
   size: integer('size').notNull(),
   type: text('type').notNull(),
+  sha256: text('sha256'), // Hex digests computed at upload; null for files registered without one
+  md5: text('md5'),
+  integrity_status: fileIntegrityStatusEnum('integrity_status').notNull().default('unverified'),
+  integrity_checked_at: timestamp('integrity_checked_at'), // Nullable until first verified
+  compression: fileCompressionEnum('compression'), // Null for uncompressed files
+  validation_status: fileValidationStatusEnum('validation_status').notNull().default('pending'),
+  validation_report: jsonb('validation_report').$type<ValidationCheckResult[]>(), // Null until validated
+  validated_at: timestamp('validated_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Members of zip and tar dataset files, listed when the archive is uploaded
+export const datasetFileMembersTable = pgTable('dataset_file_members', {
+  id: serial('id').primaryKey(),
+  file_id: integer('file_id').notNull().references(() => datasetFilesTable.id, { onDelete: 'cascade' }),
+  path: text('path').notNull(),
+  size: bigint('size', { mode: 'number' }).notNull(), // Uncompressed size, which may exceed the archive limit
+  format: text('format'), // Tabular format claimed by the member name; null for other members
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Files that make up a published dataset version
+export const datasetVersionFilesTable = pgTable('dataset_version_files', {
+  id: serial('id').primaryKey(),
+  version_id: integer('version_id').notNull().references(() => datasetVersionsTable.id, { onDelete: 'cascade' }),
+  file_id: integer('file_id').notNull().references(() => datasetFilesTable.id, { onDelete: 'cascade' }),
+});
+
+// Column types and statistics of dataset files, computed by the profiling job
+export const fileProfilesTable = pgTable('file_profiles', {
+  id: serial('id').primaryKey(),
+  file_id: integer('file_id').notNull().unique().references(() => datasetFilesTable.id, { onDelete: 'cascade' }),
+  row_count: integer('row_count'), // Null when the file could not be profiled
+  columns: jsonb('columns').$type<ColumnProfile[]>().notNull(),
+  error: text('error'), // Why the file could not be profiled
+  profiled_at: timestamp('profiled_at').defaultNow().notNull(),
+});
+
+// Every status change of a dataset, with who made it and why
+export const datasetStatusHistoryTable = pgTable('dataset_status_history', {
+  id: serial('id').primaryKey(),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  version: integer('version').notNull(), // Dataset version the change applied to
+  from_status: datasetStatusEnum('from_status').notNull(),
+  to_status: datasetStatusEnum('to_status').notNull(),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }), // Null for system changes
+  reason: text('reason'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
@@ -65,12 +138,135 @@ export const curationReviewsTable = pgTable('curation_reviews', {
   id: serial('id').primaryKey(),
   dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
   reviewer_id: integer('reviewer_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  round: integer('round').notNull().default(0), // Review round of the dataset the review belongs to
   status: curationReviewStatusEnum('status').notNull(),
   notes: text('notes'), // Nullable by default
+  checklist: jsonb('checklist').$type<ChecklistResult[]>(), // Null for reviews given without a checklist
   reviewed_at: timestamp('reviewed_at').defaultNow().notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Conversation between curators and the contributor during a review round
+export const reviewMessagesTable = pgTable('review_messages', {
+  id: serial('id').primaryKey(),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  round: integer('round').notNull(),
+  author_id: integer('author_id').references(() => usersTable.id, { onDelete: 'set null' }), // Null once the author is deleted
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Comments of a review on specific metadata fields or files, so contributors know what to fix
+export const reviewCommentsTable = pgTable('review_comments', {
+  id: serial('id').primaryKey(),
+  review_id: integer('review_id').notNull().references(() => curationReviewsTable.id, { onDelete: 'cascade' }),
+  field: reviewFieldEnum('field'), // Metadata field the comment refers to; null for file comments
+  file_id: integer('file_id').references(() => datasetFilesTable.id, { onDelete: 'cascade' }),
+  body: text('body').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Checklist reviewers answer for datasets of a domain
+export const checklistTemplatesTable = pgTable('checklist_templates', {
+  id: serial('id').primaryKey(),
+  domain: text('domain').unique(), // Null for the default template of domains without their own
+  name: text('name').notNull(),
+  items: jsonb('items').$type<ChecklistItem[]>().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// How many and which curation reviews decide the outcome for datasets of a domain
+export const curationPoliciesTable = pgTable('curation_policies', {
+  id: serial('id').primaryKey(),
+  domain: text('domain').unique(), // Null for the default policy of domains without their own
+  required_approvals: integer('required_approvals').notNull().default(1),
+  rejection_blocks: boolean('rejection_blocks').notNull().default(true), // Any rejection rejects the dataset
+  admin_override: boolean('admin_override').notNull().default(true), // An admin's decision alone decides
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Curators assigned to review a dataset; datasets with assignments only accept reviews from them and admins
+export const reviewAssignmentsTable = pgTable('review_assignments', {
+  id: serial('id').primaryKey(),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  reviewer_id: integer('reviewer_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  assigned_by: integer('assigned_by').references(() => usersTable.id, { onDelete: 'set null' }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, table => [unique().on(table.dataset_id, table.reviewer_id)]);
+
+// Domains a curator has expertise in, used to pick reviewers when assigning them automatically
+export const curatorDomainsTable = pgTable('curator_domains', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  domain: text('domain').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, table => [unique().on(table.user_id, table.domain)]);
+
+// Sessions table
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'), // Nullable by default
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Access requests table
+export const accessRequestsTable = pgTable('access_requests', {
+  id: serial('id').primaryKey(),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  requester_id: integer('requester_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  purpose: text('purpose').notNull(),
+  status: accessRequestStatusEnum('status').notNull().default('pending'),
+  reviewer_id: integer('reviewer_id').references(() => usersTable.id, { onDelete: 'set null' }), // Nullable until decided
+  decision_notes: text('decision_notes'), // Nullable by default
+  expires_at: timestamp('expires_at'), // Set when approved
+  decided_at: timestamp('decided_at'), // Nullable until decided
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Resumable upload sessions table
+export const uploadSessionsTable = pgTable('upload_sessions', {
+  id: serial('id').primaryKey(),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  filename: text('filename').notNull(),
+  type: text('type').notNull(),
+  size: integer('size').notNull(), // Declared total size in bytes
+  received: integer('received').notNull().default(0),
+  sha256: text('sha256'), // Optional digest of the whole file, checked on finalize
+  file_id: integer('file_id').references(() => datasetFilesTable.id, { onDelete: 'set null' }), // Set once finalized
+  expires_at: timestamp('expires_at').notNull(),
+  completed_at: timestamp('completed_at'), // Nullable until finalized
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Chunks received for an upload session, stored as separate objects until finalize
+export const uploadChunksTable = pgTable('upload_chunks', {
+  id: serial('id').primaryKey(),
+  upload_id: integer('upload_id').notNull().references(() => uploadSessionsTable.id, { onDelete: 'cascade' }),
+  offset: integer('offset').notNull(),
+  size: integer('size').notNull(),
+  sha256: text('sha256').notNull(),
+  storage_key: text('storage_key').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// File downloads table, one row per download request
+export const fileDownloadsTable = pgTable('file_downloads', {
+  id: serial('id').primaryKey(),
+  file_id: integer('file_id').notNull().references(() => datasetFilesTable.id, { onDelete: 'cascade' }),
+  dataset_id: integer('dataset_id').notNull().references(() => datasetsTable.id, { onDelete: 'cascade' }),
+  user_id: integer('user_id').references(() => usersTable.id, { onDelete: 'set null' }), // Null for anonymous downloads
+  range_start: integer('range_start'), // Null when the whole file was requested
+  range_end: integer('range_end'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
 // Relations
 export const usersRelations = relations(usersTable, ({ one, many }) => ({
   profile: one(profilesTable, {
@@ -79,6 +275,13 @@ export const usersRelations = relations(usersTable, ({ one, many }) => ({
   }),
   contributedDatasets: many(datasetsTable),
   curationReviews: many(curationReviewsTable),
+  reviewAssignments: many(reviewAssignmentsTable, { relationName: 'reviewer' }),
+  reviewMessages: many(reviewMessagesTable),
+  statusChanges: many(datasetStatusHistoryTable),
+  sessions: many(sessionsTable),
+  accessRequests: many(accessRequestsTable),
+  uploadSessions: many(uploadSessionsTable),
+  downloads: many(fileDownloadsTable),
 }));
 
 export const profilesRelations = relations(profilesTable, ({ one }) => ({
@@ -94,17 +297,80 @@ export const datasetsRelations = relations(datasetsTable, ({ one, many }) => ({
     references: [usersTable.id],
   }),
   files: many(datasetFilesTable),
+  versions: many(datasetVersionsTable),
+  statusHistory: many(datasetStatusHistoryTable),
   curationReviews: many(curationReviewsTable),
+  reviewMessages: many(reviewMessagesTable),
+  reviewAssignments: many(reviewAssignmentsTable),
+  accessRequests: many(accessRequestsTable),
+  uploadSessions: many(uploadSessionsTable),
+  downloads: many(fileDownloadsTable),
 }));
 
-export const datasetFilesRelations = relations(datasetFilesTable, ({ one }) => ({
+export const datasetVersionsRelations = relations(datasetVersionsTable, ({ one, many }) => ({
+  dataset: one(datasetsTable, {
+    fields: [datasetVersionsTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  contributor: one(usersTable, {
+    fields: [datasetVersionsTable.contributor_id],
+    references: [usersTable.id],
+  }),
+  files: many(datasetVersionFilesTable),
+}));
+
+export const datasetVersionFilesRelations = relations(datasetVersionFilesTable, ({ one }) => ({
+  version: one(datasetVersionsTable, {
+    fields: [datasetVersionFilesTable.version_id],
+    references: [datasetVersionsTable.id],
+  }),
+  file: one(datasetFilesTable, {
+    fields: [datasetVersionFilesTable.file_id],
+    references: [datasetFilesTable.id],
+  }),
+}));
+
+export const datasetFilesRelations = relations(datasetFilesTable, ({ one, many }) => ({
   dataset: one(datasetsTable, {
     fields: [datasetFilesTable.dataset_id],
     references: [datasetsTable.id],
   }),
+  downloads: many(fileDownloadsTable),
+  members: many(datasetFileMembersTable),
+  versions: many(datasetVersionFilesTable),
+  reviewComments: many(reviewCommentsTable),
+  profile: one(fileProfilesTable, {
+    fields: [datasetFilesTable.id],
+    references: [fileProfilesTable.file_id],
+  }),
+}));
+
+export const datasetFileMembersRelations = relations(datasetFileMembersTable, ({ one }) => ({
+  file: one(datasetFilesTable, {
+    fields: [datasetFileMembersTable.file_id],
+    references: [datasetFilesTable.id],
+  }),
+}));
+
+export const fileProfilesRelations = relations(fileProfilesTable, ({ one }) => ({
+  file: one(datasetFilesTable, {
+    fields: [fileProfilesTable.file_id],
+    references: [datasetFilesTable.id],
+  }),
 }));
 
-export const curationReviewsRelations = relations(curationReviewsTable, ({ one }) => ({
+export const datasetStatusHistoryRelations = relations(datasetStatusHistoryTable, ({ one }) => ({
+  dataset: one(datasetsTable, {
+    fields: [datasetStatusHistoryTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  actor: one(usersTable, {
+    fields: [datasetStatusHistoryTable.actor_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const curationReviewsRelations = relations(curationReviewsTable, ({ one, many }) => ({
   dataset: one(datasetsTable, {
     fields: [curationReviewsTable.dataset_id],
     references: [datasetsTable.id],
@@ -113,6 +379,108 @@ export const curationReviewsRelations = relations(curationReviewsTable, ({ one }
     fields: [curationReviewsTable.reviewer_id],
     references: [usersTable.id],
   }),
+  comments: many(reviewCommentsTable),
+}));
+
+export const reviewMessagesRelations = relations(reviewMessagesTable, ({ one }) => ({
+  dataset: one(datasetsTable, {
+    fields: [reviewMessagesTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  author: one(usersTable, {
+    fields: [reviewMessagesTable.author_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const reviewCommentsRelations = relations(reviewCommentsTable, ({ one }) => ({
+  review: one(curationReviewsTable, {
+    fields: [reviewCommentsTable.review_id],
+    references: [curationReviewsTable.id],
+  }),
+  file: one(datasetFilesTable, {
+    fields: [reviewCommentsTable.file_id],
+    references: [datasetFilesTable.id],
+  }),
+}));
+
+export const reviewAssignmentsRelations = relations(reviewAssignmentsTable, ({ one }) => ({
+  dataset: one(datasetsTable, {
+    fields: [reviewAssignmentsTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  reviewer: one(usersTable, {
+    fields: [reviewAssignmentsTable.reviewer_id],
+    references: [usersTable.id],
+    relationName: 'reviewer',
+  }),
+  assigner: one(usersTable, {
+    fields: [reviewAssignmentsTable.assigned_by],
+    references: [usersTable.id],
+  }),
+}));
+
+export const curatorDomainsRelations = relations(curatorDomainsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [curatorDomainsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const accessRequestsRelations = relations(accessRequestsTable, ({ one }) => ({
+  dataset: one(datasetsTable, {
+    fields: [accessRequestsTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  requester: one(usersTable, {
+    fields: [accessRequestsTable.requester_id],
+    references: [usersTable.id],
+  }),
+}));
+
+export const uploadSessionsRelations = relations(uploadSessionsTable, ({ one, many }) => ({
+  dataset: one(datasetsTable, {
+    fields: [uploadSessionsTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [uploadSessionsTable.user_id],
+    references: [usersTable.id],
+  }),
+  file: one(datasetFilesTable, {
+    fields: [uploadSessionsTable.file_id],
+    references: [datasetFilesTable.id],
+  }),
+  chunks: many(uploadChunksTable),
+}));
+
+export const uploadChunksRelations = relations(uploadChunksTable, ({ one }) => ({
+  upload: one(uploadSessionsTable, {
+    fields: [uploadChunksTable.upload_id],
+    references: [uploadSessionsTable.id],
+  }),
+}));
+
+export const fileDownloadsRelations = relations(fileDownloadsTable, ({ one }) => ({
+  file: one(datasetFilesTable, {
+    fields: [fileDownloadsTable.file_id],
+    references: [datasetFilesTable.id],
+  }),
+  dataset: one(datasetsTable, {
+    fields: [fileDownloadsTable.dataset_id],
+    references: [datasetsTable.id],
+  }),
+  user: one(usersTable, {
+    fields: [fileDownloadsTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 // TypeScript types for the table schemas
@@ -125,25 +493,103 @@ export type NewProfile = typeof profilesTable.$inferInsert;
 export type Dataset = typeof datasetsTable.$inferSelect;
 export type NewDataset = typeof datasetsTable.$inferInsert;
 
+export type DatasetVersion = typeof datasetVersionsTable.$inferSelect;
+export type NewDatasetVersion = typeof datasetVersionsTable.$inferInsert;
+
+export type DatasetVersionFile = typeof datasetVersionFilesTable.$inferSelect;
+export type NewDatasetVersionFile = typeof datasetVersionFilesTable.$inferInsert;
+
 export type DatasetFile = typeof datasetFilesTable.$inferSelect;
 export type NewDatasetFile = typeof datasetFilesTable.$inferInsert;
 
+export type DatasetFileMember = typeof datasetFileMembersTable.$inferSelect;
+export type NewDatasetFileMember = typeof datasetFileMembersTable.$inferInsert;
+
+export type FileProfile = typeof fileProfilesTable.$inferSelect;
+export type NewFileProfile = typeof fileProfilesTable.$inferInsert;
+
+export type DatasetStatusChange = typeof datasetStatusHistoryTable.$inferSelect;
+export type NewDatasetStatusChange = typeof datasetStatusHistoryTable.$inferInsert;
+
 export type CurationReview = typeof curationReviewsTable.$inferSelect;
 export type NewCurationReview = typeof curationReviewsTable.$inferInsert;
 
+export type ReviewMessage = typeof reviewMessagesTable.$inferSelect;
+export type NewReviewMessage = typeof reviewMessagesTable.$inferInsert;
+
+export type ReviewComment = typeof reviewCommentsTable.$inferSelect;
+export type NewReviewComment = typeof reviewCommentsTable.$inferInsert;
+
+export type ChecklistTemplate = typeof checklistTemplatesTable.$inferSelect;
+export type NewChecklistTemplate = typeof checklistTemplatesTable.$inferInsert;
+
+export type CurationPolicy = typeof curationPoliciesTable.$inferSelect;
+export type NewCurationPolicy = typeof curationPoliciesTable.$inferInsert;
+
+export type ReviewAssignment = typeof reviewAssignmentsTable.$inferSelect;
+export type NewReviewAssignment = typeof reviewAssignmentsTable.$inferInsert;
+
+export type CuratorDomain = typeof curatorDomainsTable.$inferSelect;
+export type NewCuratorDomain = typeof curatorDomainsTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type AccessRequest = typeof accessRequestsTable.$inferSelect;
+export type NewAccessRequest = typeof accessRequestsTable.$inferInsert;
+
+export type UploadSession = typeof uploadSessionsTable.$inferSelect;
+export type NewUploadSession = typeof uploadSessionsTable.$inferInsert;
+
+export type UploadChunk = typeof uploadChunksTable.$inferSelect;
+export type NewUploadChunk = typeof uploadChunksTable.$inferInsert;
+
+export type FileDownload = typeof fileDownloadsTable.$inferSelect;
+export type NewFileDownload = typeof fileDownloadsTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   users: usersTable,
   profiles: profilesTable,
   datasets: datasetsTable,
+  datasetVersions: datasetVersionsTable,
+  datasetVersionFiles: datasetVersionFilesTable,
   datasetFiles: datasetFilesTable,
+  datasetFileMembers: datasetFileMembersTable,
+  fileProfiles: fileProfilesTable,
+  datasetStatusHistory: datasetStatusHistoryTable,
   curationReviews: curationReviewsTable,
+  reviewMessages: reviewMessagesTable,
+  reviewComments: reviewCommentsTable,
+  checklistTemplates: checklistTemplatesTable,
+  curationPolicies: curationPoliciesTable,
+  reviewAssignments: reviewAssignmentsTable,
+  curatorDomains: curatorDomainsTable,
+  sessions: sessionsTable,
+  accessRequests: accessRequestsTable,
+  uploadSessions: uploadSessionsTable,
+  uploadChunks: uploadChunksTable,
+  fileDownloads: fileDownloadsTable,
 };
 
 export const tableRelations = {
   usersRelations,
   profilesRelations,
   datasetsRelations,
+  datasetVersionsRelations,
+  datasetVersionFilesRelations,
   datasetFilesRelations,
+  datasetFileMembersRelations,
+  fileProfilesRelations,
+  datasetStatusHistoryRelations,
   curationReviewsRelations,
+  reviewMessagesRelations,
+  reviewCommentsRelations,
+  reviewAssignmentsRelations,
+  curatorDomainsRelations,
+  sessionsRelations,
+  accessRequestsRelations,
+  uploadSessionsRelations,
+  uploadChunksRelations,
+  fileDownloadsRelations,
 };
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { db } from '../db';
+import { uploadChunksTable, uploadSessionsTable } from '../db/schema';
+import { type AuthUser, type UploadSession } from '../schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { randomUUID } from 'crypto';
+import { pipeline, type Readable } from 'stream';
+import { getStorage } from '../lib/storage';
+import { ByteCounter, HashingStream } from '../lib/streams';
+import { loadUploadSession, uploadSessionExpiry } from '../lib/uploads';
+
+export interface AppendUploadChunkInput {
+  upload_id: number;
+  offset: number;
+  sha256?: string;
+  body: Readable;
+}
+
+/**
+ * Stores the next chunk of a resumable upload.
+ * The offset must equal the bytes received so far and, when given, the chunk must match its SHA-256 digest;
+ * a rejected or interrupted chunk leaves the session unchanged so the client can resend it.
+ */
+export async function appendUploadChunk(input: AppendUploadChunkInput, actor: AuthUser): Promise<UploadSession> {
+  try {
+    const session = await loadUploadSession(input.upload_id, actor);
+
+    if (session.completed_at) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Upload has already been finalized' });
+    }
+    if (input.offset !== session.received) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: `Upload offset mismatch: expected ${session.received}, got ${input.offset}`
+      });
+    }
+
+    const storage = getStorage();
+    const key = `uploads/${session.id}/${input.offset}-${randomUUID()}`;
+    const counter = new ByteCounter(
+      session.size - input.offset,
+      `Chunk exceeds the declared upload size of ${session.size} bytes`
+    );
+    const hasher = new HashingStream('sha256');
+
+    try {
+      // Errors of any stage surface through the last stream, which storage.put consumes
+      await storage.put(key, pipeline(input.body, counter, hasher, () => undefined));
+
+      if (counter.bytes === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Chunk is empty' });
+      }
+
+      const digest = hasher.digest('sha256');
+      if (input.sha256 !== undefined && input.sha256 !== digest) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Chunk checksum mismatch' });
+      }
+
+      return await db.transaction(async tx => {
+        // Only the first of two concurrent requests for the same offset may advance the session
+        const updated = await tx.update(uploadSessionsTable)
+          .set({
+            received: input.offset + counter.bytes,
+            expires_at: uploadSessionExpiry(),
+            updated_at: new Date()
+          })
+          .where(and(
+            eq(uploadSessionsTable.id, session.id),
+            eq(uploadSessionsTable.received, input.offset),
+            isNull(uploadSessionsTable.completed_at)
+          ))
+          .returning()
+          .execute();
+
+        if (updated.length === 0) {
+          throw new TRPCError({ code: 'CONFLICT', message: 'Upload offset changed while the chunk was received' });
+        }
+
+        await tx.insert(uploadChunksTable)
+          .values({
+            upload_id: session.id,
+            offset: input.offset,
+            size: counter.bytes,
+            sha256: digest,
+            storage_key: key
+          })
+          .execute();
+
+        return updated[0];
+      });
+    } catch (error) {
+      await storage.delete(key).catch(() => undefined);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Upload chunk append failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { datasetsTable, reviewAssignmentsTable, usersTable } from '../db/schema';
+import { type ReviewAssignmentInput, type ReviewAssignment, type AuthUser } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+
+/**
+ * Assigns a curator to review a dataset. Once a dataset has assigned reviewers, only they and admins
+ * can review it. The dataset's contributor is never assigned to it.
+ */
+export async function assignReviewer(input: ReviewAssignmentInput, actor?: AuthUser): Promise<ReviewAssignment> {
+  try {
+    const datasets = await db.select({ id: datasetsTable.id, contributor_id: datasetsTable.contributor_id })
+      .from(datasetsTable)
+      .where(eq(datasetsTable.id, input.dataset_id))
+      .execute();
+
+    if (datasets.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with id ${input.dataset_id} not found` });
+    }
+
+    const reviewers = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.reviewer_id))
+      .execute();
+
+    if (reviewers.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `User with id ${input.reviewer_id} not found` });
+    }
+
+    if (!hasRole(reviewers[0], 'curator')) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only curators and admins can be assigned as reviewers' });
+    }
+
+    if (datasets[0].contributor_id === input.reviewer_id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Contributors cannot review their own datasets' });
+    }
+
+    const existing = await db.select({ id: reviewAssignmentsTable.id })
+      .from(reviewAssignmentsTable)
+      .where(and(
+        eq(reviewAssignmentsTable.dataset_id, input.dataset_id),
+        eq(reviewAssignmentsTable.reviewer_id, input.reviewer_id)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Reviewer is already assigned to this dataset' });
+    }
+
+    const result = await db.insert(reviewAssignmentsTable)
+      .values({
+        dataset_id: input.dataset_id,
+        reviewer_id: input.reviewer_id,
+        assigned_by: actor?.id ?? null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Reviewer assignment failed:', error);
+    throw error;
+  }
+}
@@ -2,10 +2,11 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type LoginInput, type User } from '../schema';
 import { eq } from 'drizzle-orm';
+import { hashPassword, verifyPassword } from '../lib/password';
 
 /**
  * Authenticates a user with email and password.
- * Should verify the password against the hashed password in the database.
+ * Verifies the password against the stored hash and upgrades legacy hashes on success.
  * Returns user information without sensitive data on successful authentication.
  */
 export async function authenticateUser(input: LoginInput): Promise<User | null> {
@@ -23,14 +24,20 @@ export async function authenticateUser(input: LoginInput): Promise<User | null>
 
     const user = users[0];
 
-    // In a real application, you would use bcrypt or similar to verify the password
-    // For this implementation, we'll do a direct comparison
-    // Note: In production, passwords should be hashed with bcrypt.compare()
-    if (user.password !== input.password) {
+    const { valid, needsRehash } = await verifyPassword(input.password, user.password);
+    if (!valid) {
       // Password doesn't match
       return null;
     }
 
+    // Replace legacy salt:sha256 hashes now that we know the plaintext
+    if (needsRehash) {
+      await db.update(usersTable)
+        .set({ password: await hashPassword(input.password) })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+    }
+
     // Return user without password for security
     const { password, ...userWithoutPassword } = user;
     return userWithoutPassword as User;
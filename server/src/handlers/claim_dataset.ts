@@ -0,0 +1,59 @@
+import { db } from '../db';
+import { datasetsTable, reviewAssignmentsTable } from '../db/schema';
+import { type ReviewAssignment, type AuthUser } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { findCurationPolicy } from '../lib/curation';
+
+/**
+ * Takes a dataset in review off the queue by assigning the calling curator to it. A dataset can be claimed
+ * by as many curators as its curation policy requires approvals.
+ */
+export async function claimDataset(datasetId: number, actor: AuthUser): Promise<ReviewAssignment> {
+  try {
+    return await db.transaction(async tx => {
+      // Locking the dataset serializes concurrent claims, so the reviewer count below cannot go stale
+      const datasets = await tx.select()
+        .from(datasetsTable)
+        .where(eq(datasetsTable.id, datasetId))
+        .for('update')
+        .execute();
+
+      if (datasets.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with id ${datasetId} not found` });
+      }
+
+      if (datasets[0].status !== 'review') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only datasets in review can be claimed' });
+      }
+
+      if (datasets[0].contributor_id === actor.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You cannot claim your own dataset' });
+      }
+
+      const assignments = await tx.select()
+        .from(reviewAssignmentsTable)
+        .where(eq(reviewAssignmentsTable.dataset_id, datasetId))
+        .execute();
+
+      if (assignments.some(assignment => assignment.reviewer_id === actor.id)) {
+        throw new TRPCError({ code: 'CONFLICT', message: 'You have already claimed this dataset' });
+      }
+
+      const { required_approvals } = await findCurationPolicy(datasets[0].domain);
+      if (assignments.length >= required_approvals) {
+        throw new TRPCError({ code: 'CONFLICT', message: `Dataset already has the ${required_approvals} reviewers its curation policy requires` });
+      }
+
+      const result = await tx.insert(reviewAssignmentsTable)
+        .values({ dataset_id: datasetId, reviewer_id: actor.id, assigned_by: actor.id })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Dataset claim failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { accessRequestsTable, datasetsTable, usersTable } from '../db/schema';
+import { type AccessRequest, type CreateAccessRequestInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasActiveAccessGrant } from '../lib/dataset_access';
+
+/**
+ * Submits a request for access to the files of a restricted dataset.
+ * Rejects duplicate pending requests and requests from users who already have access.
+ */
+export async function createAccessRequest(input: CreateAccessRequestInput): Promise<AccessRequest> {
+  try {
+    // Validate that the requester exists
+    const requester = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.requester_id))
+      .execute();
+
+    if (requester.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Requester not found' });
+    }
+
+    // Validate that the dataset exists and actually gates its files
+    const dataset = await db.select()
+      .from(datasetsTable)
+      .where(eq(datasetsTable.id, input.dataset_id))
+      .execute();
+
+    if (dataset.length === 0 || dataset[0].access_level === 'private') {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Dataset not found' });
+    }
+
+    if (dataset[0].access_level !== 'restricted') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Access requests are only needed for restricted datasets' });
+    }
+
+    if (dataset[0].contributor_id === input.requester_id) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Contributors already have access to their own datasets' });
+    }
+
+    if (await hasActiveAccessGrant(input.requester_id, input.dataset_id)) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Requester already has access to this dataset' });
+    }
+
+    // Only one open request per user and dataset
+    const pendingRequests = await db.select()
+      .from(accessRequestsTable)
+      .where(and(
+        eq(accessRequestsTable.dataset_id, input.dataset_id),
+        eq(accessRequestsTable.requester_id, input.requester_id),
+        eq(accessRequestsTable.status, 'pending')
+      ))
+      .execute();
+
+    if (pendingRequests.length > 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'An access request for this dataset is already pending' });
+    }
+
+    const result = await db.insert(accessRequestsTable)
+      .values({
+        dataset_id: input.dataset_id,
+        requester_id: input.requester_id,
+        purpose: input.purpose
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Access request creation failed:', error);
+    throw error;
+  }
+}
@@ -1,12 +1,20 @@
 import { db } from '../db';
-import { curationReviewsTable, usersTable, datasetsTable } from '../db/schema';
+import { curationReviewsTable, usersTable, datasetsTable, datasetFilesTable, reviewAssignmentsTable, reviewCommentsTable } from '../db/schema';
 import { type CreateCurationReviewInput, type CurationReview } from '../schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { transitionDataset } from '../lib/lifecycle';
+import { getDatasetCurationOutcome } from '../lib/curation';
+import { answerChecklist, findChecklistItems } from '../lib/checklists';
 
 /**
  * Creates a new curation review for a dataset.
- * Validates that the reviewer has curator permissions.
- * Updates dataset status based on review outcome.
+ * Validates that the reviewer has curator permissions, is not the dataset's contributor and, where reviewers are
+ * assigned, is one of them.
+ * Checklist answers are checked against the template of the dataset's domain, and comments on files against
+ * the files of the dataset.
+ * Only datasets in review take reviews. Moves the dataset through the lifecycle once the reviews of the round
+ * reach a decision under the curation policy of its domain; the review is discarded when that move fails.
  */
 export async function createCurationReview(input: CreateCurationReviewInput): Promise<CurationReview> {
   try {
@@ -17,75 +25,114 @@ export async function createCurationReview(input: CreateCurationReviewInput): Pr
       .execute();
 
     if (reviewer.length === 0) {
-      throw new Error('Reviewer not found');
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Reviewer not found' });
     }
 
     if (reviewer[0].role !== 'curator' && reviewer[0].role !== 'admin') {
-      throw new Error('User does not have curator permissions');
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'User does not have curator permissions' });
     }
 
-    // Validate that dataset exists
-    const dataset = await db.select()
-      .from(datasetsTable)
-      .where(eq(datasetsTable.id, input.dataset_id))
-      .execute();
+    // The review only stands together with the status change it causes
+    return await db.transaction(async tx => {
+      // Locking the dataset serializes reviews of the same round
+      const dataset = await tx.select()
+        .from(datasetsTable)
+        .where(eq(datasetsTable.id, input.dataset_id))
+        .for('update')
+        .execute();
 
-    if (dataset.length === 0) {
-      throw new Error('Dataset not found');
-    }
+      if (dataset.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Dataset not found' });
+      }
 
-    // Check if review already exists for this dataset and reviewer
-    const existingReview = await db.select()
-      .from(curationReviewsTable)
-      .where(and(
-        eq(curationReviewsTable.dataset_id, input.dataset_id),
-        eq(curationReviewsTable.reviewer_id, input.reviewer_id)
-      ))
-      .execute();
+      if (dataset[0].status !== 'review') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only datasets in review can be reviewed' });
+      }
 
-    if (existingReview.length > 0) {
-      throw new Error('Review already exists for this dataset and reviewer');
-    }
+      if (dataset[0].contributor_id === input.reviewer_id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Contributors cannot review their own datasets' });
+      }
 
-    // Create the curation review
-    const result = await db.insert(curationReviewsTable)
-      .values({
-        dataset_id: input.dataset_id,
-        reviewer_id: input.reviewer_id,
-        status: input.status,
-        notes: input.notes,
-        reviewed_at: input.reviewed_at || new Date()
-      })
-      .returning()
-      .execute();
+      // Datasets with assigned reviewers only take reviews from them, or from admins
+      const assignments = await tx.select({ reviewer_id: reviewAssignmentsTable.reviewer_id })
+        .from(reviewAssignmentsTable)
+        .where(eq(reviewAssignmentsTable.dataset_id, input.dataset_id))
+        .execute();
+
+      if (assignments.length > 0 && reviewer[0].role !== 'admin' && !assignments.some(a => a.reviewer_id === input.reviewer_id)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only reviewers assigned to this dataset can review it' });
+      }
 
-    const curationReview = result[0];
+      // Each reviewer reviews a dataset once per review round
+      const round = dataset[0].review_round;
+      const existingReview = await tx.select()
+        .from(curationReviewsTable)
+        .where(and(
+          eq(curationReviewsTable.dataset_id, input.dataset_id),
+          eq(curationReviewsTable.reviewer_id, input.reviewer_id),
+          eq(curationReviewsTable.round, round)
+        ))
+        .execute();
 
-    // Update dataset status based on review outcome
-    let newDatasetStatus = dataset[0].status;
-    
-    if (input.status === 'approved') {
-      // If approved and currently in review, move to approved
-      if (dataset[0].status === 'review') {
-        newDatasetStatus = 'approved';
+      if (existingReview.length > 0) {
+        throw new TRPCError({ code: 'CONFLICT', message: `Review already exists for this dataset and reviewer in round ${round}` });
+      }
+
+      const checklist = input.checklist === undefined
+        ? null
+        : answerChecklist(await findChecklistItems(dataset[0].domain), input.checklist, input.status);
+
+      // File comments have to refer to files of the reviewed dataset
+      const comments = input.comments ?? [];
+      const fileIds = [...new Set(comments.flatMap(comment => comment.file_id === undefined ? [] : [comment.file_id]))];
+      if (fileIds.length > 0) {
+        const files = await tx.select({ id: datasetFilesTable.id })
+          .from(datasetFilesTable)
+          .where(and(eq(datasetFilesTable.dataset_id, input.dataset_id), inArray(datasetFilesTable.id, fileIds)))
+          .execute();
+        const foreign = fileIds.filter(id => !files.some(file => file.id === id));
+        if (foreign.length > 0) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `Files not in this dataset: ${foreign.join(', ')}` });
+        }
       }
-    } else if (input.status === 'rejected') {
-      // If rejected, move back to draft for revisions
-      newDatasetStatus = 'draft';
-    }
 
-    // Update dataset status if it changed
-    if (newDatasetStatus !== dataset[0].status) {
-      await db.update(datasetsTable)
-        .set({ 
-          status: newDatasetStatus,
-          updated_at: new Date()
+      // Create the curation review together with its comments
+      const result = await tx.insert(curationReviewsTable)
+        .values({
+          dataset_id: input.dataset_id,
+          reviewer_id: input.reviewer_id,
+          round,
+          status: input.status,
+          notes: input.notes,
+          checklist,
+          reviewed_at: input.reviewed_at || new Date()
         })
-        .where(eq(datasetsTable.id, input.dataset_id))
+        .returning()
         .execute();
-    }
 
-    return curationReview;
+      if (comments.length > 0) {
+        await tx.insert(reviewCommentsTable)
+          .values(comments.map(comment => ({
+            review_id: result[0].id,
+            field: comment.field ?? null,
+            file_id: comment.file_id ?? null,
+            body: comment.body
+          })))
+          .execute();
+      }
+
+      // Move the dataset on once the reviews of the round decide it under the curation policy;
+      // requests for changes and rejections send it back to the contributor, who resubmits it for a new round
+      const { password, ...actor } = reviewer[0];
+      const outcome = await getDatasetCurationOutcome(dataset[0], tx);
+      if (outcome.decision === 'approved') {
+        await transitionDataset(input.dataset_id, 'approved', actor, input.notes, tx);
+      } else if (outcome.decision === 'changes_requested' || outcome.decision === 'rejected') {
+        await transitionDataset(input.dataset_id, 'draft', actor, input.notes, tx);
+      }
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Curation review creation failed:', error);
     throw error;
@@ -6,7 +6,8 @@ import { eq } from 'drizzle-orm';
 /**
  * Creates a new dataset with metadata provided by contributors.
  * Should validate that the contributor exists and has appropriate permissions.
- * Sets initial status to 'draft' and handles publication year validation.
+ * Sets initial status to 'draft' and handles publication year validation; later status changes go through
+ * transitionDataset.
  */
 export async function createDataset(input: CreateDatasetInput): Promise<Dataset> {
   try {
@@ -36,7 +37,7 @@ export async function createDataset(input: CreateDatasetInput): Promise<Dataset>
         license: input.license,
         doi: input.doi,
         access_level: input.access_level,
-        status: input.status, // Zod default 'draft' is already applied
+        status: 'draft',
         contributor_id: input.contributor_id,
         publication_year: input.publication_year
       })
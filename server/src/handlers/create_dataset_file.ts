@@ -1,56 +1,106 @@
 import { db } from '../db';
-import { datasetFilesTable, datasetsTable } from '../db/schema';
+import { datasetFileMembersTable, datasetFilesTable, datasetsTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { type CreateDatasetFileInput, type DatasetFile } from '../schema';
-
-const ALLOWED_FILE_TYPES = ['csv', 'json', 'arff'];
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB in bytes
+import { type CreateDatasetFileInput, type DatasetFile, type AuthUser } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+import { ALLOWED_FILE_TYPES } from '../lib/formats';
+import { MAX_FILE_SIZE } from '../lib/uploads';
+import { isVersionFrozen, type Executor } from '../lib/dataset_versions';
+import { recordStatusChange } from '../lib/lifecycle';
 
 /**
  * Creates a new dataset file record after file upload.
- * Should validate file types (CSV, JSON, ARFF) and size limits.
- * Links uploaded files to datasets and stores metadata for access.
+ * Should validate file types (CSV, TSV, JSON, JSON Lines, ARFF, Parquet, zip and tar archives) and size limits.
+ * Links uploaded files to datasets and stores metadata for access, along with the member listing of archives.
+ * Adding a file to a published version starts the next version of the dataset as a draft.
+ * Runs inside the caller's transaction when an executor is given.
  */
-export async function createDatasetFile(input: CreateDatasetFileInput): Promise<DatasetFile> {
+export async function createDatasetFile(input: CreateDatasetFileInput, actor?: AuthUser, executor: Executor = db): Promise<DatasetFile> {
   try {
     // Validate file type
     const fileExtension = input.type.toLowerCase();
     if (!ALLOWED_FILE_TYPES.includes(fileExtension)) {
-      throw new Error(`Invalid file type: ${input.type}. Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`);
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: `Invalid file type: ${input.type}. Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`
+      });
     }
 
     // Validate file size
     if (input.size > MAX_FILE_SIZE) {
-      throw new Error(`File size ${input.size} exceeds maximum allowed size of ${MAX_FILE_SIZE} bytes`);
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `File size ${input.size} exceeds maximum allowed size of ${MAX_FILE_SIZE} bytes`
+      });
     }
 
     if (input.size < 0) {
-      throw new Error('File size cannot be negative');
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'File size cannot be negative' });
     }
 
     // Verify that the dataset exists
-    const existingDataset = await db.select()
+    const existingDataset = await executor.select()
       .from(datasetsTable)
       .where(eq(datasetsTable.id, input.dataset_id))
       .execute();
 
     if (existingDataset.length === 0) {
-      throw new Error(`Dataset with ID ${input.dataset_id} does not exist`);
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with ID ${input.dataset_id} does not exist` });
     }
 
-    // Insert the dataset file record
-    const result = await db.insert(datasetFilesTable)
-      .values({
-        dataset_id: input.dataset_id,
-        filename: input.filename,
-        path: input.path,
-        size: input.size,
-        type: input.type
-      })
-      .returning()
-      .execute();
+    if (actor && existingDataset[0].contributor_id !== actor.id && !hasRole(actor, 'curator')) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only add files to your own datasets' });
+    }
+
+    // Insert the dataset file record together with its archive members
+    return await executor.transaction(async tx => {
+      const result = await tx.insert(datasetFilesTable)
+        .values({
+          dataset_id: input.dataset_id,
+          filename: input.filename,
+          path: input.path,
+          size: input.size,
+          type: input.type,
+          sha256: input.sha256 ?? null,
+          md5: input.md5 ?? null,
+          compression: input.compression ?? null
+        })
+        .returning()
+        .execute();
+
+      const dataset = existingDataset[0];
+      if (isVersionFrozen(dataset)) {
+        const [next] = await tx.update(datasetsTable)
+          .set({
+            version: dataset.version + 1,
+            status: 'draft',
+            ...(dataset.status === 'published' ? { live_version: dataset.published_version } : {}),
+            updated_at: new Date()
+          })
+          .where(eq(datasetsTable.id, input.dataset_id))
+          .returning()
+          .execute();
+
+        if (dataset.status !== 'draft') {
+          await recordStatusChange(tx, next, {
+            from: dataset.status,
+            to: 'draft',
+            actorId: actor?.id ?? null,
+            reason: `Started version ${next.version}`
+          });
+        }
+      }
+
+      const members = input.members ?? [];
+      if (members.length > 0) {
+        await tx.insert(datasetFileMembersTable)
+          .values(members.map(member => ({ file_id: result[0].id, ...member })))
+          .execute();
+      }
 
-    return result[0];
+      return result[0];
+    });
   } catch (error) {
     console.error('Dataset file creation failed:', error);
     throw error;
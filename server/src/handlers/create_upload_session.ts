@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { uploadSessionsTable } from '../db/schema';
+import { type AuthUser, type CreateUploadSessionInput, type UploadSession } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { MAX_FILE_SIZE, assertCanUploadTo, parseUploadFilename, uploadSessionExpiry } from '../lib/uploads';
+
+/**
+ * Starts a resumable upload of a dataset file.
+ * The declared size and type are checked up front so a large upload is not rejected at the end;
+ * chunks are then sent to PUT /uploads/:id and the upload is completed with finalizeUploadSession.
+ */
+export async function createUploadSession(input: CreateUploadSessionInput, actor: AuthUser): Promise<UploadSession> {
+  try {
+    await assertCanUploadTo(input.dataset_id, actor);
+    const { filename, type } = parseUploadFilename(input.filename);
+
+    if (input.size > MAX_FILE_SIZE) {
+      throw new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `File size ${input.size} exceeds maximum allowed size of ${MAX_FILE_SIZE} bytes`
+      });
+    }
+
+    const result = await db.insert(uploadSessionsTable)
+      .values({
+        dataset_id: input.dataset_id,
+        user_id: actor.id,
+        filename,
+        type,
+        size: input.size,
+        sha256: input.sha256 ?? null,
+        expires_at: uploadSessionExpiry()
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Upload session creation failed:', error);
+    throw error;
+  }
+}
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type User } from '../schema';
 import { eq } from 'drizzle-orm';
+import { assertPasswordPolicy, hashPassword } from '../lib/password';
 
 /**
  * Creates a new user with email, password, role, and optional name/ORCID.
@@ -20,11 +21,9 @@ export async function createUser(input: CreateUserInput): Promise<User> {
       throw new Error('Email already exists');
     }
 
-    // Hash the password using Bun's built-in password hashing
-    const hashedPassword = await Bun.password.hash(input.password, {
-      algorithm: 'bcrypt',
-      cost: 10
-    });
+    assertPasswordPolicy(input.password);
+
+    const hashedPassword = await hashPassword(input.password);
 
     // Insert the new user
     const result = await db.insert(usersTable)
@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { accessRequestsTable, datasetsTable, usersTable } from '../db/schema';
+import { type AccessRequest, type DecideAccessRequestInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+
+/**
+ * Approves or denies a pending access request.
+ * Only the dataset contributor, curators and admins may decide; approvals need a future expiry date.
+ */
+export async function decideAccessRequest(input: DecideAccessRequestInput): Promise<AccessRequest> {
+  try {
+    const reviewer = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.reviewer_id))
+      .execute();
+
+    if (reviewer.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Reviewer not found' });
+    }
+
+    const request = await db.select()
+      .from(accessRequestsTable)
+      .innerJoin(datasetsTable, eq(accessRequestsTable.dataset_id, datasetsTable.id))
+      .where(eq(accessRequestsTable.id, input.id))
+      .execute();
+
+    if (request.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Access request with id ${input.id} not found` });
+    }
+
+    const { access_requests: accessRequest, datasets: dataset } = request[0];
+
+    if (dataset.contributor_id !== input.reviewer_id && !hasRole(reviewer[0], 'curator')) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the dataset contributor or a curator can decide access requests' });
+    }
+
+    if (accessRequest.status !== 'pending') {
+      throw new TRPCError({ code: 'CONFLICT', message: `Access request has already been ${accessRequest.status}` });
+    }
+
+    if (input.status === 'approved' && (!input.expires_at || input.expires_at <= new Date())) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Approved access must have an expiry date in the future' });
+    }
+
+    const result = await db.update(accessRequestsTable)
+      .set({
+        status: input.status,
+        reviewer_id: input.reviewer_id,
+        decision_notes: input.decision_notes,
+        expires_at: input.status === 'approved' ? input.expires_at : null,
+        decided_at: new Date()
+      })
+      .where(and(
+        eq(accessRequestsTable.id, input.id),
+        eq(accessRequestsTable.status, 'pending')
+      ))
+      .returning()
+      .execute();
+
+    // Another decision landed between the check above and this update
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Access request has already been decided' });
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Access request decision failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+import { db } from '../db';
+import { datasetFilesTable, fileDownloadsTable, usersTable } from '../db/schema';
+import { type Dataset, type DatasetFile } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import archiver from 'archiver';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import { assertDatasetFileAccess, type Viewer } from '../lib/dataset_access';
+import { describeLicense } from '../lib/licenses';
+import { getStorage } from '../lib/storage';
+import { lazyReadable } from '../lib/streams';
+import { generateCitation } from './generate_citation';
+
+const ARCHIVE_README_NAME = 'README.md';
+
+export interface DatasetArchiveDownload {
+  dataset: Dataset;
+  filename: string; // Suggested name of the archive
+  body: Readable;
+}
+
+interface ArchiveEntry {
+  file: DatasetFile;
+  name: string;
+  size: number;
+}
+
+/**
+ * Gives every file a distinct name inside the archive, e.g. `data.csv` and `data (2).csv`.
+ */
+function entryNames(files: DatasetFile[]): string[] {
+  const taken = new Set([ARCHIVE_README_NAME.toLowerCase()]);
+  return files.map(file => {
+    const base = path.posix.basename(file.filename.replace(/\\/g, '/')) || `file-${file.id}`;
+    const extension = path.posix.extname(base);
+    const stem = base.slice(0, base.length - extension.length);
+
+    let name = base;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) {
+      name = `${stem} (${n})${extension}`;
+    }
+    taken.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+async function buildReadme(dataset: Dataset, entries: ArchiveEntry[]): Promise<string> {
+  const contributors = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, dataset.contributor_id))
+    .execute();
+  const holder = contributors[0]?.name || contributors[0]?.email || 'Unknown Author';
+
+  const citation = await generateCitation(dataset);
+  const license = describeLicense(dataset.license, holder, dataset.publication_year);
+
+  const lines = [
+    `# ${dataset.title}`,
+    '',
+    dataset.description,
+    '',
+    '## Metadata',
+    '',
+    `- Contributor: ${holder}`,
+    `- Domain: ${dataset.domain}`,
+    `- Task: ${dataset.task}`,
+    `- Publication year: ${dataset.publication_year}`,
+    `- DOI: ${dataset.doi ?? 'none'}`,
+    `- License: ${license.name}${license.url ? ` (${license.url})` : ''}`,
+    `- Access level: ${dataset.access_level}`,
+    `- Status: ${dataset.status}`,
+    `- Version: ${dataset.version}`,
+    `- Last updated: ${dataset.updated_at.toISOString().slice(0, 10)}`,
+    '',
+    '## Files',
+    '',
+    ...(entries.length > 0
+      ? entries.map(entry => `- ${entry.name} (${entry.file.type.toUpperCase()}, ${formatBytes(entry.size)})`)
+      : ['This dataset has no files yet.']),
+    '',
+    '## How to cite',
+    '',
+    citation.apa,
+    '',
+    '## License',
+    '',
+    license.text,
+    ''
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Streams a ZIP of all files of a dataset together with a generated README.
+ * Entries are read from storage one at a time as the archive is consumed, so the archive is never buffered.
+ * Every included file is recorded as a download.
+ */
+export async function downloadDatasetArchive(datasetId: number, viewer: Viewer): Promise<DatasetArchiveDownload> {
+  try {
+    const dataset = await assertDatasetFileAccess(datasetId, viewer);
+
+    const files = await db.select()
+      .from(datasetFilesTable)
+      .where(eq(datasetFilesTable.dataset_id, datasetId))
+      .orderBy(asc(datasetFilesTable.id))
+      .execute();
+
+    // Check every object up front; once the archive is streaming, a missing file can only abort it
+    const storage = getStorage();
+    const names = entryNames(files);
+    const entries: ArchiveEntry[] = [];
+    for (const [index, file] of files.entries()) {
+      const stored = await storage.stat(file.path);
+      if (!stored) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: `Content of file ${file.id} is missing from storage` });
+      }
+      entries.push({ file, name: names[index], size: stored.size });
+    }
+
+    const readme = await buildReadme(dataset, entries);
+
+    if (files.length > 0) {
+      await db.insert(fileDownloadsTable)
+        .values(files.map(file => ({
+          file_id: file.id,
+          dataset_id: file.dataset_id,
+          user_id: viewer?.id ?? null
+        })))
+        .execute();
+    }
+
+    const archive = archiver('zip', { zlib: { level: 6 } });
+    archive.append(readme, { name: ARCHIVE_README_NAME, date: dataset.updated_at });
+    for (const entry of entries) {
+      archive.append(lazyReadable(() => storage.createReadStream(entry.file.path)), {
+        name: entry.name,
+        date: entry.file.created_at
+      });
+    }
+    // Errors surface as 'error' events on the archive stream
+    archive.finalize().catch(() => undefined);
+
+    const slug = dataset.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'dataset';
+    return { dataset, filename: `${slug}-${dataset.id}.zip`, body: archive };
+  } catch (error) {
+    console.error('Dataset archive download failed:', error);
+    throw error;
+  }
+}
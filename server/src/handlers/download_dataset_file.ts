@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { fileDownloadsTable } from '../db/schema';
+import { type DatasetFile } from '../schema';
+import { TRPCError } from '@trpc/server';
+import type { Readable } from 'stream';
+import { loadAccessibleDatasetFile, type Viewer } from '../lib/dataset_access';
+import { getStorage, type ByteRange } from '../lib/storage';
+import { parseRangeHeader } from '../lib/byte_range';
+
+export interface DownloadDatasetFileInput {
+  file_id: number;
+  range?: string; // Raw Range header
+  if_range?: string; // Raw If-Range header; the range only applies while it matches the file's ETag
+}
+
+/**
+ * Strong ETag derived from the file's SHA-256, or null for files without a checksum.
+ */
+export function fileETag(file: DatasetFile): string | null {
+  return file.sha256 ? `"${file.sha256}"` : null;
+}
+
+export interface DatasetFileDownload {
+  file: DatasetFile;
+  size: number; // Size of the stored object
+  range: ByteRange | null; // Null when the whole file is sent
+  body: Readable;
+}
+
+/**
+ * Opens a dataset file for download after checking the viewer's access to its dataset.
+ * Honours a single byte range so interrupted downloads can resume, and records the download.
+ * Throws RangeNotSatisfiableError when the range lies outside the file.
+ */
+export async function downloadDatasetFile(input: DownloadDatasetFileInput, viewer: Viewer): Promise<DatasetFileDownload> {
+  try {
+    const file = await loadAccessibleDatasetFile(input.file_id, viewer);
+
+    const storage = getStorage();
+    const stored = await storage.stat(file.path);
+    if (!stored) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Content of file ${input.file_id} is missing from storage` });
+    }
+
+    // A client resuming against a changed file must receive the whole file again
+    const rangeApplies = input.if_range === undefined || (file.sha256 !== null && input.if_range === fileETag(file));
+    const range = rangeApplies ? parseRangeHeader(input.range, stored.size) : null;
+    const body = await storage.createReadStream(file.path, range ?? undefined);
+
+    try {
+      await db.insert(fileDownloadsTable)
+        .values({
+          file_id: file.id,
+          dataset_id: file.dataset_id,
+          user_id: viewer?.id ?? null,
+          range_start: range?.start ?? null,
+          range_end: range?.end ?? null
+        })
+        .execute();
+    } catch (error) {
+      body.destroy();
+      throw error;
+    }
+
+    return { file, size: stored.size, range, body };
+  } catch (error) {
+    console.error('Dataset file download failed:', error);
+    throw error;
+  }
+}
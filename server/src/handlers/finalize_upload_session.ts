@@ -0,0 +1,136 @@
+import { db } from '../db';
+import { datasetFilesTable, uploadChunksTable, uploadSessionsTable, type UploadChunk } from '../db/schema';
+import { type AuthUser, type DatasetFile } from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { Readable, pipeline } from 'stream';
+import { getStorage, type StorageBackend } from '../lib/storage';
+import { ByteCounter, HashingStream } from '../lib/streams';
+import { datasetFileKey, inspectUpload, isFinalizeClaimed, loadUploadSession, unclaimedUploadSession, validateUpload } from '../lib/uploads';
+import { createDatasetFile } from './create_dataset_file';
+
+const concatChunks = (storage: StorageBackend, chunks: UploadChunk[]): Readable =>
+  Readable.from((async function* () {
+    for (const chunk of chunks) {
+      yield* await storage.createReadStream(chunk.storage_key);
+    }
+  })());
+
+/**
+ * Assembles the received chunks into a dataset file and records and validates it like a direct upload.
+ * Finalizing an already finalized session returns the same file, so clients can safely retry. A claim that never
+ * produced a file, e.g. because the server stopped while assembling, can be taken over once its lease has passed.
+ */
+export async function finalizeUploadSession(uploadId: number, actor: AuthUser): Promise<DatasetFile> {
+  try {
+    const session = await loadUploadSession(uploadId, actor);
+
+    if (session.file_id === null && isFinalizeClaimed(session)) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Upload is already being finalized' });
+    }
+
+    if (session.file_id !== null) {
+      const files = await db.select()
+        .from(datasetFilesTable)
+        .where(eq(datasetFilesTable.id, session.file_id))
+        .execute();
+      if (files.length === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'The file of this upload has been deleted' });
+      }
+      return files[0];
+    }
+
+    if (session.received !== session.size) {
+      throw new TRPCError({
+        code: 'CONFLICT',
+        message: `Upload is incomplete: received ${session.received} of ${session.size} bytes`
+      });
+    }
+
+    // Claim the session so concurrent finalize calls cannot create the file twice
+    const claimed = await db.update(uploadSessionsTable)
+      .set({ completed_at: new Date(), updated_at: new Date() })
+      .where(and(eq(uploadSessionsTable.id, session.id), unclaimedUploadSession()))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: 'Upload is already being finalized' });
+    }
+
+    const chunks = await db.select()
+      .from(uploadChunksTable)
+      .where(eq(uploadChunksTable.upload_id, session.id))
+      .orderBy(asc(uploadChunksTable.offset))
+      .execute();
+
+    // The claim time identifies this claim, so a claim taken over after its lease has passed is left alone
+    const lease = and(eq(uploadSessionsTable.id, session.id), eq(uploadSessionsTable.completed_at, claimed[0].completed_at!));
+    const storage = getStorage();
+    const key = datasetFileKey(session.dataset_id, session.filename);
+    let file: DatasetFile;
+
+    try {
+      const counter = new ByteCounter(session.size);
+      const hasher = new HashingStream('sha256', 'md5');
+
+      try {
+        await storage.put(key, pipeline(concatChunks(storage, chunks), counter, hasher, () => undefined));
+
+        if (counter.bytes !== session.size) {
+          throw new Error(`Assembled upload has ${counter.bytes} bytes, expected ${session.size}`);
+        }
+        const sha256 = hasher.digest('sha256');
+        if (session.sha256 !== null && session.sha256 !== sha256) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'File checksum mismatch' });
+        }
+
+        const detected = await inspectUpload(storage, key, counter.bytes, session);
+
+        // The file only stands together with the session pointing at it
+        file = await db.transaction(async tx => {
+          const created = await createDatasetFile({
+            dataset_id: session.dataset_id,
+            filename: session.filename,
+            path: key,
+            size: counter.bytes,
+            ...detected,
+            sha256,
+            md5: hasher.digest('md5')
+          }, actor, tx);
+
+          const finalized = await tx.update(uploadSessionsTable)
+            .set({ file_id: created.id, updated_at: new Date() })
+            .where(lease)
+            .returning()
+            .execute();
+          if (finalized.length === 0) {
+            throw new TRPCError({ code: 'CONFLICT', message: 'Upload finalization was taken over after its lease expired' });
+          }
+          return created;
+        });
+      } catch (error) {
+        await storage.delete(key).catch(() => undefined);
+        throw error;
+      }
+    } catch (error) {
+      // Release the claim so the upload can be finalized again
+      await db.update(uploadSessionsTable)
+        .set({ completed_at: null, updated_at: new Date() })
+        .where(lease)
+        .execute();
+      throw error;
+    }
+
+    // The chunks are no longer needed once the file has been assembled
+    await Promise.all(chunks.map(chunk => storage.delete(chunk.storage_key).catch(() => undefined)));
+    await db.delete(uploadChunksTable)
+      .where(eq(uploadChunksTable.upload_id, session.id))
+      .execute();
+
+    return await validateUpload(file);
+  } catch (error) {
+    console.error('Upload finalization failed:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,10 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
 import { type Dataset } from '../schema';
+import { type Viewer } from '../lib/dataset_access';
+import { getDatasetById } from './get_dataset_by_id';
 
 export interface Citation {
   apa: string;
@@ -10,7 +13,7 @@ export interface Citation {
 
 /**
  * Generates APA and IEEE style citations for a dataset.
- * Should include contributor name, dataset title, publication year, and DOI if available.
+ * Should include contributor name, dataset title, version, publication year, and DOI if available.
  * Follows academic citation standards for datasets.
  */
 export async function generateCitation(dataset: Dataset): Promise<Citation> {
@@ -30,12 +33,12 @@ export async function generateCitation(dataset: Dataset): Promise<Citation> {
     const doiUrl = dataset.doi ? `https://doi.org/${dataset.doi}` : null;
     
     // Generate APA style citation
-    // Format: Author, A. A. (Year). Title [Dataset]. Publisher/Repository. DOI or URL
-    const apa = `${authorName}. (${dataset.publication_year}). ${dataset.title} [Dataset]. ${doiUrl || 'Unimus Repository'}.`;
+    // Format: Author, A. A. (Year). Title (Version) [Dataset]. Publisher/Repository. DOI or URL
+    const apa = `${authorName}. (${dataset.publication_year}). ${dataset.title} (Version ${dataset.version}) [Dataset]. ${doiUrl || 'Unimus Repository'}.`;
     
     // Generate IEEE style citation
-    // Format: A. A. Author, "Title," Dataset, Year. [Online]. Available: DOI or URL
-    const ieee = `${authorName}, "${dataset.title}," Dataset, ${dataset.publication_year}.${doiUrl ? ` [Online]. Available: ${doiUrl}` : ' [Database]'}`;
+    // Format: A. A. Author, "Title," Dataset, Version, Year. [Online]. Available: DOI or URL
+    const ieee = `${authorName}, "${dataset.title}," Dataset, version ${dataset.version}, ${dataset.publication_year}.${doiUrl ? ` [Online]. Available: ${doiUrl}` : ' [Database]'}`;
 
     return {
       apa,
@@ -45,4 +48,26 @@ export async function generateCitation(dataset: Dataset): Promise<Citation> {
     console.error('Citation generation failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+/**
+ * Cites a dataset at the given version, by default its latest published version.
+ * Datasets that were never published are cited at their current version.
+ */
+export async function citeDataset(datasetId: number, version?: number, viewer?: Viewer): Promise<Citation> {
+  try {
+    const current = await getDatasetById(datasetId, viewer);
+    const citedVersion = version ?? current?.published_version ?? null;
+    const cited = current && citedVersion !== null
+      ? await getDatasetById(datasetId, viewer, citedVersion)
+      : current;
+
+    if (!cited) {
+      const label = version !== undefined ? `Version ${version} of dataset ${datasetId}` : `Dataset with id ${datasetId}`;
+      throw new TRPCError({ code: 'NOT_FOUND', message: `${label} not found` });
+    }
+    return await generateCitation(cited);
+  } catch (error) {
+    console.error('Dataset citation failed:', error);
+    throw error;
+  }
+}
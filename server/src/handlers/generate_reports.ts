@@ -3,6 +3,7 @@ import { datasetsTable, usersTable, profilesTable } from '../db/schema';
 import { type ReportFilter } from '../schema';
 import { eq, and, gte, lte, isNull, count, sql } from 'drizzle-orm';
 import type { SQL } from 'drizzle-orm';
+import { visibleDatasetsCondition, type Viewer } from '../lib/dataset_access';
 
 export interface DatasetReport {
   totalDatasets: number;
@@ -16,11 +17,17 @@ export interface DatasetReport {
  * Generates comprehensive reports for accreditation and administrative purposes.
  * Should aggregate dataset statistics by year, contributor, department, and student involvement.
  * Supports filtering by date ranges and contributor types.
+ * When a viewer is given, only datasets visible to them are counted.
  */
-export async function generateReports(filters?: ReportFilter): Promise<DatasetReport> {
+export async function generateReports(filters?: ReportFilter, viewer?: Viewer): Promise<DatasetReport> {
   try {
     // Build base conditions for datasets
     const conditions: SQL<unknown>[] = [];
+
+    const visibility = viewer !== undefined ? visibleDatasetsCondition(viewer) : undefined;
+    if (visibility) {
+      conditions.push(visibility);
+    }
     
     if (filters?.start_year !== undefined) {
       conditions.push(gte(datasetsTable.publication_year, filters.start_year));
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { accessRequestsTable, datasetsTable, usersTable } from '../db/schema';
+import { type AccessRequest, type AuthUser } from '../schema';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+
+export interface GetAccessRequestsFilters {
+  datasetId?: number;
+  requesterId?: number;
+  status?: 'pending' | 'approved' | 'denied';
+}
+
+export interface AccessRequestWithDetails extends AccessRequest {
+  requester_name: string | null;
+  requester_email: string;
+  dataset_title: string;
+}
+
+/**
+ * Retrieves access requests, typically the pending requests of one dataset.
+ * When an actor is given, dataset listings are limited to the contributor and curators,
+ * and other listings to the actor's own requests.
+ */
+export async function getAccessRequests(
+  filters: GetAccessRequestsFilters,
+  actor?: AuthUser
+): Promise<AccessRequestWithDetails[]> {
+  try {
+    if (actor && !hasRole(actor, 'curator')) {
+      if (filters.datasetId !== undefined) {
+        const dataset = await db.select()
+          .from(datasetsTable)
+          .where(eq(datasetsTable.id, filters.datasetId))
+          .execute();
+
+        if (dataset.length === 0 || dataset[0].contributor_id !== actor.id) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only list access requests for your own datasets' });
+        }
+      } else if (filters.requesterId !== actor.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only list your own access requests' });
+      }
+    }
+
+    const conditions: SQL<unknown>[] = [];
+
+    if (filters.datasetId !== undefined) {
+      conditions.push(eq(accessRequestsTable.dataset_id, filters.datasetId));
+    }
+
+    if (filters.requesterId !== undefined) {
+      conditions.push(eq(accessRequestsTable.requester_id, filters.requesterId));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(accessRequestsTable.status, filters.status));
+    }
+
+    const results = await db.select({
+      request: accessRequestsTable,
+      requester_name: usersTable.name,
+      requester_email: usersTable.email,
+      dataset_title: datasetsTable.title
+    })
+      .from(accessRequestsTable)
+      .innerJoin(usersTable, eq(accessRequestsTable.requester_id, usersTable.id))
+      .innerJoin(datasetsTable, eq(accessRequestsTable.dataset_id, datasetsTable.id))
+      .where(and(...conditions))
+      .orderBy(desc(accessRequestsTable.created_at))
+      .execute();
+
+    return results.map(result => ({
+      ...result.request,
+      requester_name: result.requester_name,
+      requester_email: result.requester_email,
+      dataset_title: result.dataset_title
+    }));
+  } catch (error) {
+    console.error('Access requests retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { checklistTemplatesTable } from '../db/schema';
+import { type ChecklistTemplate } from '../schema';
+import { asc, sql } from 'drizzle-orm';
+
+/**
+ * Lists the configured checklist templates, the default template first and then by domain.
+ */
+export async function getChecklistTemplates(): Promise<ChecklistTemplate[]> {
+  try {
+    return await db.select()
+      .from(checklistTemplatesTable)
+      .orderBy(sql`${checklistTemplatesTable.domain} asc nulls first`, asc(checklistTemplatesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Checklist templates retrieval failed:', error);
+    throw error;
+  }
+}
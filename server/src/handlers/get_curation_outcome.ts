@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { datasetsTable } from '../db/schema';
+import { type CurationOutcome } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { getDatasetCurationOutcome } from '../lib/curation';
+
+/**
+ * Reports how the reviews of the dataset's current round stand against its curation policy.
+ */
+export async function getCurationOutcome(datasetId: number): Promise<CurationOutcome> {
+  try {
+    const datasets = await db.select()
+      .from(datasetsTable)
+      .where(eq(datasetsTable.id, datasetId))
+      .execute();
+
+    if (datasets.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with id ${datasetId} not found` });
+    }
+
+    return await getDatasetCurationOutcome(datasets[0]);
+  } catch (error) {
+    console.error('Curation outcome retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,19 @@
+import { db } from '../db';
+import { curationPoliciesTable } from '../db/schema';
+import { type CurationPolicy } from '../schema';
+import { asc, sql } from 'drizzle-orm';
+
+/**
+ * Lists the configured curation policies, the default policy first and then by domain.
+ */
+export async function getCurationPolicies(): Promise<CurationPolicy[]> {
+  try {
+    return await db.select()
+      .from(curationPoliciesTable)
+      .orderBy(sql`${curationPoliciesTable.domain} asc nulls first`, asc(curationPoliciesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Curation policies retrieval failed:', error);
+    throw error;
+  }
+}
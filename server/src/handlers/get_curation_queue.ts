@@ -0,0 +1,28 @@
+import { type CurationQueueInput, type CurationQueueItem, type AuthUser } from '../schema';
+import { loadCurationQueue } from '../lib/curator_queue';
+
+/**
+ * Lists the datasets waiting for a curation decision, longest waiting first, with their age since
+ * submission, SLA due date and assigned reviewers.
+ */
+export async function getCurationQueue(input: CurationQueueInput, actor?: AuthUser): Promise<CurationQueueItem[]> {
+  try {
+    const queue = await loadCurationQueue();
+
+    return queue.filter(item => {
+      if (input.overdue_only && !item.sla_breached) {
+        return false;
+      }
+      if (input.scope === 'mine') {
+        return actor !== undefined && item.reviewer_ids.includes(actor.id);
+      }
+      if (input.scope === 'unclaimed') {
+        return item.reviewer_ids.length === 0;
+      }
+      return true;
+    });
+  } catch (error) {
+    console.error('Curation queue retrieval failed:', error);
+    throw error;
+  }
+}
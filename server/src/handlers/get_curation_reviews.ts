@@ -6,7 +6,8 @@ import { eq, and, desc, gte, lte, SQL } from 'drizzle-orm';
 export interface GetCurationReviewsFilters {
   datasetId?: number;
   reviewerId?: number;
-  status?: 'pending' | 'approved' | 'rejected';
+  status?: CurationReview['status'];
+  round?: number;
   startDate?: Date;
   endDate?: Date;
 }
@@ -20,7 +21,7 @@ export interface CurationReviewWithDetails extends CurationReview {
 /**
  * Retrieves curation reviews with optional filtering by dataset or reviewer.
  * Includes reviewer and dataset information for admin dashboards.
- * Supports filtering by review status and date ranges.
+ * Supports filtering by review status, review round and date ranges.
  */
 export async function getCurationReviews(
   filtersOrDatasetId?: GetCurationReviewsFilters | number
@@ -43,6 +44,10 @@ export async function getCurationReviews(
       conditions.push(eq(curationReviewsTable.reviewer_id, filters.reviewerId));
     }
 
+    if (filters?.round !== undefined) {
+      conditions.push(eq(curationReviewsTable.round, filters.round));
+    }
+
     if (filters?.status) {
       conditions.push(eq(curationReviewsTable.status, filters.status));
     }
@@ -60,8 +65,10 @@ export async function getCurationReviews(
       id: curationReviewsTable.id,
       dataset_id: curationReviewsTable.dataset_id,
       reviewer_id: curationReviewsTable.reviewer_id,
+      round: curationReviewsTable.round,
       status: curationReviewsTable.status,
       notes: curationReviewsTable.notes,
+      checklist: curationReviewsTable.checklist,
       reviewed_at: curationReviewsTable.reviewed_at,
       created_at: curationReviewsTable.created_at,
       reviewer_name: usersTable.name,
@@ -82,8 +89,10 @@ export async function getCurationReviews(
       id: result.id,
       dataset_id: result.dataset_id,
       reviewer_id: result.reviewer_id,
+      round: result.round,
       status: result.status,
       notes: result.notes,
+      checklist: result.checklist,
       reviewed_at: result.reviewed_at,
       created_at: result.created_at,
       reviewer_name: result.reviewer_name,
@@ -1,6 +1,9 @@
 import { db } from '../db';
-import { usersTable, datasetsTable, curationReviewsTable } from '../db/schema';
-import { count, eq, gte, and } from 'drizzle-orm';
+import { usersTable, datasetsTable, curationReviewsTable, fileDownloadsTable } from '../db/schema';
+import { count, eq, gte, and, or, isNull } from 'drizzle-orm';
+import { visibleDatasetsCondition, type Viewer } from '../lib/dataset_access';
+import { loadCurationQueue } from '../lib/curator_queue';
+import { publishedDatasetsCondition } from '../lib/dataset_versions';
 
 export interface DashboardStats {
   totalDatasets: number;
@@ -10,15 +13,23 @@ export interface DashboardStats {
   totalCurators: number;
   recentSubmissions: number; // Last 30 days
   pendingReviews: number;
+  queuedDatasets: number; // In review without a curation decision
+  unclaimedDatasets: number; // Queued without assigned reviewers
+  overdueDatasets: number; // Queued past the review SLA
+  totalDownloads: number;
+  recentDownloads: number; // Last 30 days
 }
 
 /**
  * Retrieves key statistics for admin and curator dashboards.
  * Should provide overview metrics for system monitoring and management.
- * Includes counts of datasets by status, user roles, and recent activity.
+ * Includes counts of datasets by status, user roles, downloads, recent activity and the curator queue.
+ * When a viewer is given, dataset counts only include datasets visible to them.
  */
-export async function getDashboardStats(): Promise<DashboardStats> {
+export async function getDashboardStats(viewer?: Viewer): Promise<DashboardStats> {
   try {
+    const visibility = viewer !== undefined ? visibleDatasetsCondition(viewer) : undefined;
+
     // Calculate date 30 days ago for recent submissions
     const thirtyDaysAgo = new Date();
     thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
@@ -27,20 +38,21 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     const totalDatasetsResult = await db
       .select({ count: count() })
       .from(datasetsTable)
+      .where(visibility)
       .execute();
 
-    // Get published datasets count
+    // Get published datasets count, counting those under revision
     const publishedDatasetsResult = await db
       .select({ count: count() })
       .from(datasetsTable)
-      .where(eq(datasetsTable.status, 'published'))
+      .where(and(visibility, publishedDatasetsCondition()))
       .execute();
 
     // Get datasets in review count
     const datasetsInReviewResult = await db
       .select({ count: count() })
       .from(datasetsTable)
-      .where(eq(datasetsTable.status, 'review'))
+      .where(and(visibility, eq(datasetsTable.status, 'review')))
       .execute();
 
     // Get total contributors count
@@ -61,7 +73,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     const recentSubmissionsResult = await db
       .select({ count: count() })
       .from(datasetsTable)
-      .where(gte(datasetsTable.created_at, thirtyDaysAgo))
+      .where(and(visibility, gte(datasetsTable.created_at, thirtyDaysAgo)))
       .execute();
 
     // Get pending reviews count
@@ -71,6 +83,26 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       .where(eq(curationReviewsTable.status, 'pending'))
       .execute();
 
+    // Curator queue, which covers every dataset awaiting a decision regardless of the viewer
+    const queue = await loadCurationQueue();
+
+    // Requests resuming from an offset continue an earlier download and are not counted again
+    const downloadStarted = or(isNull(fileDownloadsTable.range_start), eq(fileDownloadsTable.range_start, 0));
+
+    // Get total downloads count
+    const totalDownloadsResult = await db
+      .select({ count: count() })
+      .from(fileDownloadsTable)
+      .where(downloadStarted)
+      .execute();
+
+    // Get recent downloads (last 30 days)
+    const recentDownloadsResult = await db
+      .select({ count: count() })
+      .from(fileDownloadsTable)
+      .where(and(downloadStarted, gte(fileDownloadsTable.created_at, thirtyDaysAgo)))
+      .execute();
+
     return {
       totalDatasets: totalDatasetsResult[0].count,
       publishedDatasets: publishedDatasetsResult[0].count,
@@ -78,7 +110,12 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       totalContributors: totalContributorsResult[0].count,
       totalCurators: totalCuratorsResult[0].count,
       recentSubmissions: recentSubmissionsResult[0].count,
-      pendingReviews: pendingReviewsResult[0].count
+      pendingReviews: pendingReviewsResult[0].count,
+      queuedDatasets: queue.length,
+      unclaimedDatasets: queue.filter(item => item.reviewer_ids.length === 0).length,
+      overdueDatasets: queue.filter(item => item.sla_breached).length,
+      totalDownloads: totalDownloadsResult[0].count,
+      recentDownloads: recentDownloadsResult[0].count
     };
   } catch (error) {
     console.error('Dashboard stats retrieval failed:', error);
@@ -2,13 +2,17 @@ import { db } from '../db';
 import { datasetsTable } from '../db/schema';
 import { type Dataset } from '../schema';
 import { eq } from 'drizzle-orm';
+import { canViewDataset, type Viewer } from '../lib/dataset_access';
+import { datasetAtVersion, findDatasetVersion, servedDatasets } from '../lib/dataset_versions';
 
 /**
  * Retrieves a specific dataset by ID with all related information.
  * Should include contributor details, files, and curation reviews for detail pages.
- * Handles access level permissions based on user role and dataset visibility.
+ * When a viewer is given, datasets they may not see are reported as not found.
+ * A version number returns the metadata frozen when that version was published instead of the current one.
+ * Viewers other than the contributor and curators keep seeing the published version while the next one is revised.
  */
-export async function getDatasetById(id: number): Promise<Dataset | null> {
+export async function getDatasetById(id: number, viewer?: Viewer, version?: number): Promise<Dataset | null> {
   try {
     // Query the dataset by ID
     const results = await db.select()
@@ -21,7 +25,18 @@ export async function getDatasetById(id: number): Promise<Dataset | null> {
       return null;
     }
 
-    const dataset = results[0];
+    const current = results[0];
+
+    if (viewer !== undefined && !canViewDataset(viewer, current)) {
+      return null;
+    }
+
+    if (version !== undefined) {
+      const frozen = await findDatasetVersion(id, version);
+      return frozen ? datasetAtVersion(current, frozen) : null;
+    }
+
+    const [dataset] = await servedDatasets([current], viewer);
 
     // Return dataset with proper type conversion
     return {
@@ -38,6 +53,9 @@ export async function getDatasetById(id: number): Promise<Dataset | null> {
       status: dataset.status,
       contributor_id: dataset.contributor_id,
       publication_year: dataset.publication_year,
+      version: dataset.version,
+      published_version: dataset.published_version,
+      live_version: dataset.live_version,
       created_at: dataset.created_at,
       updated_at: dataset.updated_at
     };
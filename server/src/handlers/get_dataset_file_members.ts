@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { datasetFileMembersTable, datasetFilesTable, datasetsTable } from '../db/schema';
+import { type DatasetFileMember } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { canViewDataset, type Viewer } from '../lib/dataset_access';
+
+/**
+ * Retrieves the member listing of a zip or tar dataset file in archive order; other files have no members.
+ * Like the file list, the listing stays visible on restricted datasets; previewing members is gated.
+ */
+export async function getDatasetFileMembers(fileId: number, viewer?: Viewer): Promise<DatasetFileMember[]> {
+  try {
+    const files = await db.select({ file: datasetFilesTable, dataset: datasetsTable })
+      .from(datasetFilesTable)
+      .innerJoin(datasetsTable, eq(datasetFilesTable.dataset_id, datasetsTable.id))
+      .where(eq(datasetFilesTable.id, fileId))
+      .execute();
+
+    // Files of hidden datasets are indistinguishable from missing ones
+    if (files.length === 0 || (viewer !== undefined && !canViewDataset(viewer, files[0].dataset))) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `File with id ${fileId} not found` });
+    }
+
+    return await db.select()
+      .from(datasetFileMembersTable)
+      .where(eq(datasetFileMembersTable.file_id, fileId))
+      .orderBy(asc(datasetFileMembersTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get dataset file members:', error);
+    throw error;
+  }
+}
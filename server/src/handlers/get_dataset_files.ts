@@ -1,23 +1,37 @@
 import { db } from '../db';
-import { datasetFilesTable, datasetsTable } from '../db/schema';
+import { datasetFilesTable, datasetVersionFilesTable } from '../db/schema';
 import { type DatasetFile } from '../schema';
-import { eq } from 'drizzle-orm';
+import { asc, eq } from 'drizzle-orm';
+import { loadVisibleDataset, type Viewer } from '../lib/dataset_access';
+import { findDatasetVersion, servesLiveVersion } from '../lib/dataset_versions';
 
 /**
  * Retrieves all files associated with a specific dataset.
- * Should validate user permissions to access the dataset files.
+ * File metadata of restricted datasets stays listed; only file contents are gated.
  * Returns file metadata for dataset detail pages and file management.
+ * A version number lists the files frozen with that published version instead of the current ones;
+ * viewers kept on the published version of a dataset under revision get its files by default.
  */
-export async function getDatasetFiles(datasetId: number): Promise<DatasetFile[]> {
+export async function getDatasetFiles(datasetId: number, viewer?: Viewer, requestedVersion?: number): Promise<DatasetFile[]> {
   try {
     // First verify the dataset exists
-    const dataset = await db.select()
-      .from(datasetsTable)
-      .where(eq(datasetsTable.id, datasetId))
-      .execute();
+    const dataset = await loadVisibleDataset(datasetId, viewer);
+    const version = requestedVersion ?? (servesLiveVersion(dataset, viewer) ? dataset.live_version! : undefined);
+
+    if (version !== undefined) {
+      const frozen = await findDatasetVersion(datasetId, version);
+      if (!frozen) {
+        throw new Error(`Version ${version} of dataset ${datasetId} not found`);
+      }
+
+      const versionFiles = await db.select({ file: datasetFilesTable })
+        .from(datasetVersionFilesTable)
+        .innerJoin(datasetFilesTable, eq(datasetVersionFilesTable.file_id, datasetFilesTable.id))
+        .where(eq(datasetVersionFilesTable.version_id, frozen.id))
+        .orderBy(asc(datasetFilesTable.id))
+        .execute();
 
-    if (dataset.length === 0) {
-      throw new Error(`Dataset with id ${datasetId} not found`);
+      return versionFiles.map(({ file }) => file);
     }
 
     // Fetch all files for the dataset
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { datasetStatusHistoryTable } from '../db/schema';
+import { type DatasetStatusChange } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { loadVisibleDataset, type Viewer } from '../lib/dataset_access';
+
+/**
+ * Lists the status changes of a dataset in the order they happened.
+ */
+export async function getDatasetStatusHistory(datasetId: number, viewer?: Viewer): Promise<DatasetStatusChange[]> {
+  try {
+    await loadVisibleDataset(datasetId, viewer);
+
+    return await db.select()
+      .from(datasetStatusHistoryTable)
+      .where(eq(datasetStatusHistoryTable.dataset_id, datasetId))
+      .orderBy(asc(datasetStatusHistoryTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get dataset status history:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { datasetVersionsTable } from '../db/schema';
+import { type DatasetVersion } from '../schema';
+import { desc, eq } from 'drizzle-orm';
+import { loadVisibleDataset, type Viewer } from '../lib/dataset_access';
+
+/**
+ * Lists the published versions of a dataset, newest first.
+ */
+export async function getDatasetVersions(datasetId: number, viewer?: Viewer): Promise<DatasetVersion[]> {
+  try {
+    await loadVisibleDataset(datasetId, viewer);
+
+    return await db.select()
+      .from(datasetVersionsTable)
+      .where(eq(datasetVersionsTable.dataset_id, datasetId))
+      .orderBy(desc(datasetVersionsTable.version))
+      .execute();
+  } catch (error) {
+    console.error('Failed to get dataset versions:', error);
+    throw error;
+  }
+}
@@ -1,22 +1,32 @@
 import { db } from '../db';
 import { datasetsTable } from '../db/schema';
 import { type Dataset } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, type SQL } from 'drizzle-orm';
+import { visibleDatasetsCondition, type Viewer } from '../lib/dataset_access';
+import { servedDatasets } from '../lib/dataset_versions';
 
 /**
  * Retrieves all datasets contributed by a specific user.
  * Used for user profile pages and contributor management.
  * Should include dataset status and file counts for overview display.
+ * When a viewer is given, private datasets they may not see are left out.
  */
-export async function getDatasetsByContributor(contributorId: number): Promise<Dataset[]> {
+export async function getDatasetsByContributor(contributorId: number, viewer?: Viewer): Promise<Dataset[]> {
   try {
+    const conditions: SQL<unknown>[] = [eq(datasetsTable.contributor_id, contributorId)];
+
+    const visibility = viewer !== undefined ? visibleDatasetsCondition(viewer) : undefined;
+    if (visibility) {
+      conditions.push(visibility);
+    }
+
     const results = await db.select()
       .from(datasetsTable)
-      .where(eq(datasetsTable.contributor_id, contributorId))
+      .where(and(...conditions))
       .execute();
 
     // No numeric fields to convert in datasets table - all are integers or text
-    return results;
+    return await servedDatasets(results, viewer);
   } catch (error) {
     console.error('Failed to get datasets by contributor:', error);
     throw error;
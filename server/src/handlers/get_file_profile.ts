@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { fileProfilesTable } from '../db/schema';
+import { type FileProfile } from '../schema';
+import { eq } from 'drizzle-orm';
+import { loadAccessibleDatasetFile, type Viewer } from '../lib/dataset_access';
+
+/**
+ * Retrieves the column types and statistics computed for a dataset file by the profiling job.
+ * Returns null until the file has been profiled. Top values reveal file contents, so access is gated like previews.
+ */
+export async function getFileProfile(fileId: number, viewer: Viewer): Promise<FileProfile | null> {
+  try {
+    await loadAccessibleDatasetFile(fileId, viewer);
+
+    const profiles = await db.select()
+      .from(fileProfilesTable)
+      .where(eq(fileProfilesTable.file_id, fileId))
+      .execute();
+
+    return profiles[0] ?? null;
+  } catch (error) {
+    console.error('Failed to get file profile:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,20 @@
+import { db } from '../db';
+import { reviewAssignmentsTable } from '../db/schema';
+import { type ReviewAssignment } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+/**
+ * Lists the reviewers assigned to a dataset in the order they were assigned.
+ */
+export async function getReviewAssignments(datasetId: number): Promise<ReviewAssignment[]> {
+  try {
+    return await db.select()
+      .from(reviewAssignmentsTable)
+      .where(eq(reviewAssignmentsTable.dataset_id, datasetId))
+      .orderBy(asc(reviewAssignmentsTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Review assignments retrieval failed:', error);
+    throw error;
+  }
+}
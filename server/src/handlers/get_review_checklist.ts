@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { datasetsTable } from '../db/schema';
+import { type ChecklistItem } from '../schema';
+import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { findChecklistItems } from '../lib/checklists';
+
+/**
+ * The checklist reviewers of a dataset answer, taken from the template of its domain.
+ */
+export async function getReviewChecklist(datasetId: number): Promise<ChecklistItem[]> {
+  try {
+    const datasets = await db.select({ domain: datasetsTable.domain })
+      .from(datasetsTable)
+      .where(eq(datasetsTable.id, datasetId))
+      .execute();
+
+    if (datasets.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with id ${datasetId} not found` });
+    }
+
+    return await findChecklistItems(datasets[0].domain);
+  } catch (error) {
+    console.error('Review checklist retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { curationReviewsTable, reviewCommentsTable } from '../db/schema';
+import { type CurationReview, type ReviewComment } from '../schema';
+import { asc, desc, eq, inArray } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { loadVisibleDataset, isOwnerOrCurator, type Viewer } from '../lib/dataset_access';
+
+export interface ReviewFeedback extends CurationReview {
+  comments: ReviewComment[];
+}
+
+/**
+ * Lists the reviews of a dataset, newest first, with their checklists and the comments on specific fields
+ * and files. Visible to the dataset's contributor and to curators.
+ */
+export async function getReviewFeedback(datasetId: number, viewer?: Viewer): Promise<ReviewFeedback[]> {
+  try {
+    const dataset = await loadVisibleDataset(datasetId, viewer);
+
+    if (viewer !== undefined && !isOwnerOrCurator(viewer, dataset)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the contributor and curators can see review feedback' });
+    }
+
+    const reviews = await db.select()
+      .from(curationReviewsTable)
+      .where(eq(curationReviewsTable.dataset_id, datasetId))
+      .orderBy(desc(curationReviewsTable.reviewed_at), desc(curationReviewsTable.id))
+      .execute();
+
+    if (reviews.length === 0) {
+      return [];
+    }
+
+    const comments = await db.select()
+      .from(reviewCommentsTable)
+      .where(inArray(reviewCommentsTable.review_id, reviews.map(review => review.id)))
+      .orderBy(asc(reviewCommentsTable.id))
+      .execute();
+
+    return reviews.map(review => ({
+      ...review,
+      comments: comments.filter(comment => comment.review_id === review.id)
+    }));
+  } catch (error) {
+    console.error('Review feedback retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { reviewMessagesTable } from '../db/schema';
+import { type ReviewMessage } from '../schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { loadVisibleDataset, isOwnerOrCurator, type Viewer } from '../lib/dataset_access';
+
+/**
+ * Lists the conversation of a review round in the order it was written, the current round by default.
+ */
+export async function getReviewThread(datasetId: number, round?: number, viewer?: Viewer): Promise<ReviewMessage[]> {
+  try {
+    const dataset = await loadVisibleDataset(datasetId, viewer);
+
+    if (viewer !== undefined && !isOwnerOrCurator(viewer, dataset)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the contributor and curators can see the review conversation' });
+    }
+
+    const selected = round ?? dataset.review_round;
+    if (selected < 1 || selected > dataset.review_round) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `Review round ${selected} of dataset ${datasetId} not found` });
+    }
+
+    return await db.select()
+      .from(reviewMessagesTable)
+      .where(and(eq(reviewMessagesTable.dataset_id, datasetId), eq(reviewMessagesTable.round, selected)))
+      .orderBy(asc(reviewMessagesTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Review thread retrieval failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,15 @@
+import { type AuthUser, type UploadSession } from '../schema';
+import { loadUploadSession } from '../lib/uploads';
+
+/**
+ * Returns an upload session of the actor, including how many bytes have been received.
+ * Clients resume an interrupted upload by sending the next chunk at `received`.
+ */
+export async function getUploadSession(uploadId: number, actor: AuthUser): Promise<UploadSession> {
+  try {
+    return await loadUploadSession(uploadId, actor);
+  } catch (error) {
+    console.error('Upload session fetch failed:', error);
+    throw error;
+  }
+}
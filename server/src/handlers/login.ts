@@ -0,0 +1,27 @@
+import { type LoginInput, type LoginResult } from '../schema';
+import { authenticateUser } from './authenticate_user';
+import { issueSession } from '../lib/session';
+
+/**
+ * Verifies the user's credentials and starts a new session.
+ * Returns the signed session token along with the user, or null on bad credentials.
+ */
+export async function login(input: LoginInput): Promise<LoginResult | null> {
+  try {
+    const user = await authenticateUser(input);
+    if (!user) {
+      return null;
+    }
+
+    const { token, session } = await issueSession(user.id);
+
+    return {
+      user,
+      token,
+      expires_at: session.expires_at
+    };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,15 @@
+import { revokeSession } from '../lib/session';
+
+/**
+ * Ends the session identified by the given token.
+ * Revoked sessions stay in the database so they can no longer be resolved.
+ */
+export async function logout(token: string): Promise<{ success: boolean }> {
+  try {
+    const success = await revokeSession(token);
+    return { success };
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+}
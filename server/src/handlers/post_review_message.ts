@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { reviewMessagesTable } from '../db/schema';
+import { type PostReviewMessageInput, type ReviewMessage, type AuthUser } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { loadVisibleDataset, isOwnerOrCurator } from '../lib/dataset_access';
+
+/**
+ * Adds a message to the conversation of the dataset's current review round.
+ * Only the dataset's contributor and curators take part in the conversation.
+ */
+export async function postReviewMessage(input: PostReviewMessageInput, actor?: AuthUser): Promise<ReviewMessage> {
+  try {
+    const dataset = await loadVisibleDataset(input.dataset_id, actor);
+
+    if (actor !== undefined && !isOwnerOrCurator(actor, dataset)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only the contributor and curators can take part in the review conversation' });
+    }
+
+    if (dataset.review_round === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Dataset has not been submitted for review' });
+    }
+
+    const result = await db.insert(reviewMessagesTable)
+      .values({
+        dataset_id: input.dataset_id,
+        round: dataset.review_round,
+        author_id: actor?.id ?? null,
+        body: input.body
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Review message creation failed:', error);
+    throw error;
+  }
+}
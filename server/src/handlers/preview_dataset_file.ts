@@ -1,249 +1,187 @@
 import { type DatasetFile } from '../schema';
-import * as fs from 'fs/promises';
 import * as path from 'path';
+import { pipeline, Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { getStorage } from '../lib/storage';
+import { detectStoredFormat, formatFromFilename, type DatasetFormat, type TextFormat } from '../lib/formats';
+import { decompress } from '../lib/compression';
+import { archiveMemberFormat, openArchiveMember } from '../lib/archives';
+import { ByteCounter } from '../lib/streams';
+import { type ContentSize, type PreviewSource, type PreviewWindow, type TablePreview } from '../lib/preview';
+import { previewCSV } from '../lib/preview/csv';
+import { previewJSON } from '../lib/preview/json';
+import { previewJSONL } from '../lib/preview/jsonl';
+import { previewARFF } from '../lib/preview/arff';
+import { previewParquet } from '../lib/preview/parquet';
 
-export interface DatasetPreview {
-  headers: string[];
-  rows: (string | number | null)[][];
-  totalRows: number;
+export interface DatasetPreview extends TablePreview {
+  offset: number;
+  limit: number;
   fileType: string;
+  // Format detected from the content, or from the name of an archive member
+  format: DatasetFormat;
+  // Path of the previewed member of an archive
+  member?: string;
 }
 
-/**
- * Generates a preview of the first 20 rows of a dataset file.
- * Should support CSV, JSON, and ARFF formats for tabular data preview.
- * Handles file parsing and returns structured data for display.
- */
-export async function previewDatasetFile(file: DatasetFile): Promise<DatasetPreview | null> {
-  try {
-    // Check if file exists
-    const fileExists = await fs.access(file.path).then(() => true).catch(() => false);
-    if (!fileExists) {
-      console.error(`File not found: ${file.path}`);
-      return null;
-    }
+export type PreviewFailureReason = 'missing_file' | 'unsupported_format' | 'member_required' | 'not_archive' | 'parse_error';
 
-    // Read file content
-    const content = await fs.readFile(file.path, 'utf-8');
-    
-    // Determine file type from extension or type field
-    const fileExtension = path.extname(file.filename).toLowerCase();
-    const fileType = fileExtension || `.${file.type.toLowerCase()}`;
+export type DatasetPreviewResult =
+  | { ok: true; preview: DatasetPreview }
+  | { ok: false; reason: PreviewFailureReason; message: string };
 
-    switch (fileType) {
-      case '.csv':
-        return parseCSV(content, file.type);
-      case '.json':
-        return parseJSON(content, file.type);
-      case '.arff':
-        return parseARFF(content, file.type);
-      default:
-        console.error(`Unsupported file type: ${fileType}`);
-        return null;
-    }
-  } catch (error) {
-    console.error('File preview failed:', error);
-    return null;
-  }
-}
+type TextReader = (stream: Readable, window: PreviewWindow, size: ContentSize) => Promise<TablePreview>;
 
-/**
- * Parse CSV content and return preview
- */
-function parseCSV(content: string, fileType: string): DatasetPreview {
-  const lines = content.split('\n').filter(line => line.trim());
-  
-  if (lines.length === 0) {
-    return {
-      headers: [],
-      rows: [],
-      totalRows: 0,
-      fileType
-    };
-  }
+// Text formats are read front to back from a single stream
+const textReaders: Record<TextFormat, TextReader> = {
+  csv: previewCSV,
+  tsv: (stream, window, size) => previewCSV(stream, window, size, '\t'),
+  json: previewJSON,
+  jsonl: previewJSONL,
+  arff: previewARFF
+};
 
-  // Parse CSV by splitting on commas and handling quoted fields
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    
-    result.push(current.trim());
-    return result;
-  };
+// Parquet needs random access, so Parquet archive members are buffered in memory up to this size
+const MAX_BUFFERED_PARQUET_BYTES = 64 * 1024 * 1024;
 
-  // Extract headers (first line)
-  const headers = parseCSVLine(lines[0]);
-
-  // Parse data rows (up to 20 rows after header)
-  const dataLines = lines.slice(1, 21);
-  const rows: (string | number | null)[][] = dataLines.map(line => {
-    return parseCSVLine(line).map(cell => {
-      const trimmed = cell.replace(/^"|"$/g, ''); // Remove surrounding quotes
-      
-      // Try to convert to number
-      if (trimmed === '' || trimmed.toLowerCase() === 'null') {
-        return null;
-      }
-      
-      const num = parseFloat(trimmed);
-      if (!isNaN(num) && isFinite(num)) {
-        return num;
-      }
-      
-      return trimmed;
-    });
-  });
+const DEFAULT_WINDOW: PreviewWindow = { offset: 0, limit: 20 };
+
+const previewFailure = (reason: PreviewFailureReason, message: string): DatasetPreviewResult =>
+  ({ ok: false, reason, message });
+
+/**
+ * Content to preview: the stored file, its decompressed content or an archive member.
+ */
+interface PreviewContent {
+  format: DatasetFormat;
+  size: ContentSize;
+  // Random access is only possible to stored files that are not compressed
+  source: PreviewSource | null;
+  open(): Promise<Readable>;
+}
 
+/**
+ * Reads content into memory so it can be previewed at arbitrary ranges.
+ */
+async function bufferedSource(content: PreviewContent): Promise<PreviewSource> {
+  const limit = new ByteCounter(
+    MAX_BUFFERED_PARQUET_BYTES,
+    `Parquet content over ${MAX_BUFFERED_PARQUET_BYTES} bytes can only be previewed outside of archives`
+  );
+  const bytes = await buffer(pipeline(await content.open(), limit, () => undefined));
   return {
-    headers,
-    rows,
-    totalRows: lines.length - 1, // Exclude header
-    fileType
+    size: bytes.length,
+    open: async range => Readable.from([range ? bytes.subarray(range.start, range.end + 1) : bytes])
   };
 }
 
 /**
- * Parse JSON content and return preview
+ * Generates a preview of a window of rows of a dataset file, the first 20 by default.
+ * Supports CSV, TSV, JSON, JSON Lines, ARFF and Parquet, gzip or bzip2 compressed text files, and the members
+ * of zip and tar archives, which are picked by their path. The format is detected from the content, with the
+ * file name or type only deciding whether a preview is offered; reading stops once the total is known or estimated.
+ * Reports why a preview is unavailable instead of failing, so the client can tell the cases apart.
  */
-function parseJSON(content: string, fileType: string): DatasetPreview {
+export async function previewDatasetFile(
+  file: DatasetFile,
+  window: PreviewWindow = DEFAULT_WINDOW,
+  member?: string
+): Promise<DatasetPreviewResult> {
   try {
-    const data = JSON.parse(content);
-    
-    // Handle array of objects (most common case)
-    if (Array.isArray(data) && data.length > 0 && typeof data[0] === 'object') {
-      const headers = Object.keys(data[0]);
-      const rows: (string | number | null)[][] = data.slice(0, 20).map(item => 
-        headers.map(header => {
-          const value = item[header];
-          if (value === null || value === undefined) return null;
-          if (typeof value === 'number') return value;
-          return String(value);
-        })
-      );
-      
-      return {
-        headers,
-        rows,
-        totalRows: data.length,
-        fileType
-      };
+    // Determine file type from extension or type field
+    const fileExtension = path.extname(file.filename).toLowerCase();
+    const fileType = fileExtension || `.${file.type.toLowerCase()}`;
+
+    const declared = formatFromFilename(fileExtension ? file.filename : `${file.filename}${fileType}`).format;
+    if (!declared) {
+      return previewFailure('unsupported_format', `Preview is not available for ${fileType} files`);
     }
-    
-    // Handle single object
-    if (typeof data === 'object' && data !== null) {
-      const headers = Object.keys(data);
-      const rows: (string | number | null)[][] = [
-        headers.map(header => {
-          const value = data[header];
-          if (value === null || value === undefined) return null;
-          if (typeof value === 'number') return value;
-          return String(value);
-        })
-      ];
-      
-      return {
-        headers,
-        rows,
-        totalRows: 1,
-        fileType
-      };
+
+    // Check if file exists
+    const storage = getStorage();
+    const stat = await storage.stat(file.path);
+    if (!stat) {
+      return previewFailure('missing_file', `Content of file ${file.id} is missing from storage`);
     }
-    
-    // Fallback for other formats
-    return {
-      headers: ['value'],
-      rows: [[String(data)]],
-      totalRows: 1,
-      fileType
-    };
-  } catch (error) {
-    console.error('JSON parsing failed:', error);
-    return {
-      headers: [],
-      rows: [],
-      totalRows: 0,
-      fileType
-    };
-  }
-}
 
-/**
- * Parse ARFF content and return preview
- */
-function parseARFF(content: string, fileType: string): DatasetPreview {
-  const lines = content.split('\n').map(line => line.trim()).filter(line => line);
-  
-  const headers: string[] = [];
-  const dataStartIndex = lines.findIndex(line => line.toLowerCase() === '@data');
-  
-  if (dataStartIndex === -1) {
-    return {
-      headers: [],
-      rows: [],
-      totalRows: 0,
-      fileType
+    const stored = await detectStoredFormat(storage, file.path, stat.size, declared);
+    if (!stored) {
+      return previewFailure('unsupported_format', `Content of file ${file.id} is not in a supported format`);
+    }
+
+    const isArchive = stored.format === 'zip' || stored.format === 'tar';
+    if (isArchive && !member) {
+      return previewFailure('member_required', `File ${file.id} is a ${stored.format} archive; choose a member to preview`);
+    }
+    if (!isArchive && member) {
+      return previewFailure('not_archive', `File ${file.id} is not an archive`);
+    }
+
+    const opened: Readable[] = [];
+    const track = (stream: Readable): Readable => {
+      opened.push(stream);
+      return stream;
     };
-  }
-  
-  // Extract attribute names from @attribute lines
-  for (let i = 0; i < dataStartIndex; i++) {
-    const line = lines[i].toLowerCase();
-    if (line.startsWith('@attribute')) {
-      // Extract attribute name (second token)
-      const parts = lines[i].split(/\s+/);
-      if (parts.length >= 2) {
-        headers.push(parts[1]);
+
+    try {
+      let content: PreviewContent;
+      if (stored.format === 'zip' || stored.format === 'tar') {
+        const archive = { storage, key: file.path, size: stat.size, format: stored.format, compression: stored.compression };
+        const entry = await openArchiveMember(archive, member!);
+        if (!entry) {
+          return previewFailure('missing_file', `Archive member ${member} not found in file ${file.id}`);
+        }
+        track(entry.stream);
+
+        const format = archiveMemberFormat(member!);
+        if (!format) {
+          return previewFailure('unsupported_format', `Preview is not available for archive member ${member}`);
+        }
+        content = { format, size: entry.size, source: null, open: async () => entry.stream };
+      } else if (stored.compression) {
+        // The decompressed size is extrapolated from the compression ratio of the bytes read so far
+        const compressedBytes = new ByteCounter();
+        const contentBytes = new ByteCounter();
+        const compression = stored.compression;
+        content = {
+          format: stored.format,
+          size: () => compressedBytes.bytes > 0 ? Math.round(stat.size * contentBytes.bytes / compressedBytes.bytes) : stat.size,
+          source: null,
+          open: async () => {
+            const compressed = pipeline(track(await storage.createReadStream(file.path)), compressedBytes, () => undefined);
+            return track(pipeline(decompress(compressed, compression), contentBytes, () => undefined));
+          }
+        };
+      } else {
+        const source: PreviewSource = {
+          size: stat.size,
+          open: async range => track(await storage.createReadStream(file.path, range))
+        };
+        content = { format: stored.format, size: stat.size, source, open: () => source.open() };
       }
+
+      const table = content.format === 'parquet'
+        ? await previewParquet(content.source ?? await bufferedSource(content), window)
+        : await textReaders[content.format](await content.open(), window, content.size);
+      return {
+        ok: true,
+        preview: {
+          ...table,
+          offset: window.offset,
+          limit: window.limit,
+          fileType: file.type,
+          format: content.format,
+          ...(member ? { member } : {})
+        }
+      };
+    } catch (error) {
+      return previewFailure('parse_error', `Could not parse file: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      // Readers stop early, so the rest of the file is never read
+      opened.forEach(stream => stream.destroy());
     }
+  } catch (error) {
+    console.error('File preview failed:', error);
+    throw error;
   }
-  
-  // Parse data rows (up to 20 rows after @data)
-  const dataLines = lines.slice(dataStartIndex + 1, dataStartIndex + 21);
-  const rows: (string | number | null)[][] = dataLines
-    .filter(line => !line.startsWith('%')) // Skip comments
-    .map(line => {
-      // Split by comma, handling quoted values
-      const values = line.split(',').map(val => val.trim());
-      
-      return values.map(val => {
-        const cleaned = val.replace(/^'|'$/g, ''); // Remove single quotes
-        
-        if (cleaned === '?' || cleaned === '' || cleaned.toLowerCase() === 'null') {
-          return null;
-        }
-        
-        const num = parseFloat(cleaned);
-        if (!isNaN(num) && isFinite(num)) {
-          return num;
-        }
-        
-        return cleaned;
-      });
-    });
-  
-  // Count total data rows
-  const totalDataLines = lines.slice(dataStartIndex + 1).filter(line => 
-    line && !line.startsWith('%')
-  );
-  
-  return {
-    headers,
-    rows,
-    totalRows: totalDataLines.length,
-    fileType
-  };
-}
\ No newline at end of file
+}
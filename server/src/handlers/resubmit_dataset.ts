@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { reviewMessagesTable } from '../db/schema';
+import { type ResubmitDatasetInput, type Dataset, type AuthUser } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { loadVisibleDataset } from '../lib/dataset_access';
+import { transitionDataset } from '../lib/lifecycle';
+
+/**
+ * Sends a revised dataset back for review, opening a new review round in which every reviewer can review it
+ * again. The message, if any, summarises the changes and opens the conversation of the new round.
+ */
+export async function resubmitDataset(input: ResubmitDatasetInput, actor?: AuthUser): Promise<Dataset> {
+  try {
+    const current = await loadVisibleDataset(input.id, actor);
+
+    if (current.review_round === 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Dataset has not been reviewed yet; submit it for review instead' });
+    }
+
+    const message = input.message ?? null;
+    const dataset = await transitionDataset(input.id, 'review', actor, message);
+
+    if (message !== null) {
+      await db.insert(reviewMessagesTable)
+        .values({ dataset_id: dataset.id, round: dataset.review_round, author_id: actor?.id ?? null, body: message })
+        .execute();
+    }
+
+    return dataset;
+  } catch (error) {
+    console.error('Dataset resubmission failed:', error);
+    throw error;
+  }
+}
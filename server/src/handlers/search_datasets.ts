@@ -1,18 +1,30 @@
 import { db } from '../db';
 import { datasetsTable } from '../db/schema';
 import { type Dataset, type DatasetSearchInput } from '../schema';
-import { eq, and, or, ilike, desc, type SQL } from 'drizzle-orm';
+import { eq, and, or, ilike, desc, isNull, type SQL } from 'drizzle-orm';
+import { visibleDatasetsCondition, type Viewer } from '../lib/dataset_access';
+import { publishedDatasetsCondition, servedDatasets } from '../lib/dataset_versions';
+import { hasRole } from '../lib/roles';
 
 /**
  * Performs advanced search on datasets with full-text search capabilities.
  * Should search across title, description, domain, and task fields.
  * Applies filters for domain, task, publication year, and access level.
+ * When a viewer is given, only datasets visible to them are returned.
+ * Published datasets under revision count as published, and viewers other than their contributor and curators
+ * get the published version.
  */
-export async function searchDatasets(input: DatasetSearchInput): Promise<Dataset[]> {
+export async function searchDatasets(input: DatasetSearchInput, viewer?: Viewer): Promise<Dataset[]> {
   try {
     // Build conditions array
     const conditions: SQL<unknown>[] = [];
 
+    // Access policy filter
+    const visibility = viewer !== undefined ? visibleDatasetsCondition(viewer) : undefined;
+    if (visibility) {
+      conditions.push(visibility);
+    }
+
     // Full-text search across title, description, domain, and task (case-insensitive)
     if (input.query && input.query.trim()) {
       const searchPattern = `%${input.query.trim()}%`;
@@ -47,8 +59,16 @@ export async function searchDatasets(input: DatasetSearchInput): Promise<Dataset
     }
 
     // Status filter
-    if (input.status) {
+    if (input.status === 'published') {
+      conditions.push(publishedDatasetsCondition());
+    } else if (input.status) {
       conditions.push(eq(datasetsTable.status, input.status));
+      // Other viewers see revisions of published datasets as published
+      if (viewer !== undefined && !hasRole(viewer, 'curator')) {
+        conditions.push(viewer === null
+          ? isNull(datasetsTable.live_version)
+          : or(isNull(datasetsTable.live_version), eq(datasetsTable.contributor_id, viewer.id))!);
+      }
     }
 
     // Build and execute the query in one go
@@ -64,7 +84,7 @@ export async function searchDatasets(input: DatasetSearchInput): Promise<Dataset
       ? await queryBuilder.where(conditions.length === 1 ? conditions[0] : and(...conditions)).execute()
       : await queryBuilder.execute();
 
-    return results;
+    return await servedDatasets(results, viewer);
   } catch (error) {
     console.error('Dataset search failed:', error);
     throw error;
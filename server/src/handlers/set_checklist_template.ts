@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { checklistTemplatesTable } from '../db/schema';
+import { type SetChecklistTemplateInput, type ChecklistTemplate } from '../schema';
+import { eq, isNull } from 'drizzle-orm';
+
+/**
+ * Creates or replaces the checklist template of a domain, or the default template when the domain is null.
+ * Reviews already given keep the items as they were answered.
+ */
+export async function setChecklistTemplate(input: SetChecklistTemplateInput): Promise<ChecklistTemplate> {
+  try {
+    const matchesDomain = input.domain === null
+      ? isNull(checklistTemplatesTable.domain)
+      : eq(checklistTemplatesTable.domain, input.domain);
+
+    const updated = await db.update(checklistTemplatesTable)
+      .set({ name: input.name, items: input.items, updated_at: new Date() })
+      .where(matchesDomain)
+      .returning()
+      .execute();
+
+    if (updated.length > 0) {
+      return updated[0];
+    }
+
+    const created = await db.insert(checklistTemplatesTable)
+      .values({ domain: input.domain, name: input.name, items: input.items })
+      .returning()
+      .execute();
+
+    return created[0];
+  } catch (error) {
+    console.error('Checklist template update failed:', error);
+    throw error;
+  }
+}
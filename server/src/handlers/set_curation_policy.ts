@@ -0,0 +1,42 @@
+import { db } from '../db';
+import { curationPoliciesTable } from '../db/schema';
+import { type SetCurationPolicyInput, type CurationPolicy } from '../schema';
+import { eq, isNull } from 'drizzle-orm';
+
+/**
+ * Creates or replaces the curation policy of a domain, or the default policy when the domain is null.
+ * Datasets under review are evaluated against the new policy as further reviews come in.
+ */
+export async function setCurationPolicy(input: SetCurationPolicyInput): Promise<CurationPolicy> {
+  try {
+    const matchesDomain = input.domain === null
+      ? isNull(curationPoliciesTable.domain)
+      : eq(curationPoliciesTable.domain, input.domain);
+
+    const rules = {
+      required_approvals: input.required_approvals,
+      rejection_blocks: input.rejection_blocks,
+      admin_override: input.admin_override
+    };
+
+    const updated = await db.update(curationPoliciesTable)
+      .set({ ...rules, updated_at: new Date() })
+      .where(matchesDomain)
+      .returning()
+      .execute();
+
+    if (updated.length > 0) {
+      return updated[0];
+    }
+
+    const created = await db.insert(curationPoliciesTable)
+      .values({ domain: input.domain, ...rules })
+      .returning()
+      .execute();
+
+    return created[0];
+  } catch (error) {
+    console.error('Curation policy update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { db } from '../db';
+import { curatorDomainsTable, usersTable } from '../db/schema';
+import { type SetCuratorDomainsInput, type AuthUser } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+
+/**
+ * Replaces the domains a curator has expertise in. Curators set their own; admins can set anyone's.
+ */
+export async function setCuratorDomains(input: SetCuratorDomainsInput, actor?: AuthUser): Promise<string[]> {
+  try {
+    if (actor && actor.id !== input.user_id && !hasRole(actor, 'admin')) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can set the expertise of other curators' });
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, input.user_id))
+      .execute();
+
+    if (users.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `User with id ${input.user_id} not found` });
+    }
+
+    if (!hasRole(users[0], 'curator')) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only curators and admins have curation expertise' });
+    }
+
+    const domains = [...new Set(input.domains)];
+    await db.transaction(async tx => {
+      await tx.delete(curatorDomainsTable)
+        .where(eq(curatorDomainsTable.user_id, input.user_id))
+        .execute();
+
+      if (domains.length > 0) {
+        await tx.insert(curatorDomainsTable)
+          .values(domains.map(domain => ({ user_id: input.user_id, domain })))
+          .execute();
+      }
+    });
+
+    const saved = await db.select({ domain: curatorDomainsTable.domain })
+      .from(curatorDomainsTable)
+      .where(eq(curatorDomainsTable.user_id, input.user_id))
+      .orderBy(asc(curatorDomainsTable.domain))
+      .execute();
+
+    return saved.map(entry => entry.domain);
+  } catch (error) {
+    console.error('Curator expertise update failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,16 @@
+import { type TransitionDatasetInput, type Dataset, type AuthUser } from '../schema';
+import { transitionDataset as applyTransition } from '../lib/lifecycle';
+
+/**
+ * Moves a dataset through its lifecycle: draft → review → approved → published, back to draft for revisions,
+ * and withdrawal of published datasets. Each move is checked against the roles and preconditions of the
+ * transition and recorded in the dataset's status history.
+ */
+export async function transitionDataset(input: TransitionDatasetInput, actor?: AuthUser): Promise<Dataset> {
+  try {
+    return await applyTransition(input.id, input.status, actor, input.reason ?? null);
+  } catch (error) {
+    console.error('Dataset transition failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { reviewAssignmentsTable } from '../db/schema';
+import { type ReviewAssignmentInput, type ReviewAssignment, type AuthUser } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+
+/**
+ * Removes a reviewer assignment. Reviews the reviewer already gave keep counting towards the decision.
+ * Curators can only remove themselves; admins can remove anyone.
+ */
+export async function unassignReviewer(input: ReviewAssignmentInput, actor?: AuthUser): Promise<ReviewAssignment> {
+  try {
+    if (actor && actor.id !== input.reviewer_id && !hasRole(actor, 'admin')) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can remove other reviewers' });
+    }
+
+    const result = await db.delete(reviewAssignmentsTable)
+      .where(and(
+        eq(reviewAssignmentsTable.dataset_id, input.dataset_id),
+        eq(reviewAssignmentsTable.reviewer_id, input.reviewer_id)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Reviewer is not assigned to this dataset' });
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Reviewer unassignment failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { reviewAssignmentsTable } from '../db/schema';
+import { type ReviewAssignment, type AuthUser } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+/**
+ * Returns a claimed dataset to the queue by removing the calling curator's assignment.
+ */
+export async function unclaimDataset(datasetId: number, actor: AuthUser): Promise<ReviewAssignment> {
+  try {
+    const result = await db.delete(reviewAssignmentsTable)
+      .where(and(eq(reviewAssignmentsTable.dataset_id, datasetId), eq(reviewAssignmentsTable.reviewer_id, actor.id)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'You have not claimed this dataset' });
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Dataset unclaim failed:', error);
+    throw error;
+  }
+}
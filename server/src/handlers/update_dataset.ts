@@ -1,14 +1,20 @@
 import { db } from '../db';
 import { datasetsTable } from '../db/schema';
-import { type UpdateDatasetInput, type Dataset } from '../schema';
+import { type UpdateDatasetInput, type Dataset, type AuthUser } from '../schema';
 import { eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from '../lib/roles';
+import { VERSIONED_FIELDS, isVersionFrozen } from '../lib/dataset_versions';
+import { recordStatusChange } from '../lib/lifecycle';
 
 /**
- * Updates an existing dataset's metadata and status.
- * Should validate user permissions (contributors can edit own datasets, curators can change status).
- * Handles workflow state transitions and validation rules.
+ * Updates an existing dataset's metadata and access level.
+ * Should validate user permissions (contributors can edit own datasets, curators can edit any).
+ * Status changes go through transitionDataset; the one exception is editing the metadata of a published version,
+ * which starts the next version as a draft that has to go through curation again. A published dataset stays
+ * live at its published version for readers until the next one is published.
  */
-export async function updateDataset(input: UpdateDatasetInput): Promise<Dataset> {
+export async function updateDataset(input: UpdateDatasetInput, actor?: AuthUser): Promise<Dataset> {
   try {
     // First, check if the dataset exists
     const existingDataset = await db.select()
@@ -20,6 +26,20 @@ export async function updateDataset(input: UpdateDatasetInput): Promise<Dataset>
       throw new Error(`Dataset with id ${input.id} not found`);
     }
 
+    // Contributors may only edit their own datasets; reassigning ownership is admin-only
+    if (actor) {
+      if (existingDataset[0].contributor_id !== actor.id && !hasRole(actor, 'curator')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only edit your own datasets' });
+      }
+      if (input.contributor_id !== undefined && input.contributor_id !== existingDataset[0].contributor_id && !hasRole(actor, 'admin')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can change the dataset contributor' });
+      }
+    }
+
+    const current = existingDataset[0];
+    const edited = VERSIONED_FIELDS.some(field => input[field] !== undefined && input[field] !== current[field]);
+    const startsVersion = edited && isVersionFrozen(current);
+
     // Build update object with only provided fields
     const updateData: any = {
       updated_at: new Date()
@@ -32,18 +52,35 @@ export async function updateDataset(input: UpdateDatasetInput): Promise<Dataset>
     if (input.license !== undefined) updateData.license = input.license;
     if (input.doi !== undefined) updateData.doi = input.doi;
     if (input.access_level !== undefined) updateData.access_level = input.access_level;
-    if (input.status !== undefined) updateData.status = input.status;
     if (input.contributor_id !== undefined) updateData.contributor_id = input.contributor_id;
     if (input.publication_year !== undefined) updateData.publication_year = input.publication_year;
 
-    // Perform the update
-    const result = await db.update(datasetsTable)
-      .set(updateData)
-      .where(eq(datasetsTable.id, input.id))
-      .returning()
-      .execute();
+    if (startsVersion) {
+      updateData.version = current.version + 1;
+      updateData.status = 'draft';
+      if (current.status === 'published') {
+        updateData.live_version = current.published_version;
+      }
+    }
+
+    // Perform the update, recording the return to draft of a published dataset along with it
+    return await db.transaction(async tx => {
+      const result = await tx.update(datasetsTable)
+        .set(updateData)
+        .where(eq(datasetsTable.id, input.id))
+        .returning()
+        .execute();
 
-    return result[0];
+      if (startsVersion && current.status !== 'draft') {
+        await recordStatusChange(tx, result[0], {
+          from: current.status,
+          to: 'draft',
+          actorId: actor?.id ?? null,
+          reason: `Started version ${result[0].version}`
+        });
+      }
+      return result[0];
+    });
   } catch (error) {
     console.error('Dataset update failed:', error);
     throw error;
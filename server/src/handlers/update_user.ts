@@ -2,7 +2,7 @@ import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type UpdateUserInput, type User } from '../schema';
 import { eq, and, ne } from 'drizzle-orm';
-import { createHash, randomBytes } from 'crypto';
+import { assertPasswordPolicy, hashPassword } from '../lib/password';
 
 /**
  * Updates an existing user's information.
@@ -59,10 +59,8 @@ export async function updateUser(input: UpdateUserInput): Promise<User> {
 
     // Hash password if it's being updated
     if (input.password !== undefined) {
-      // Create a simple hash with salt using Node.js crypto
-      const salt = randomBytes(16).toString('hex');
-      const hash = createHash('sha256').update(input.password + salt).digest('hex');
-      updateValues.password = `${salt}:${hash}`;
+      assertPasswordPolicy(input.password);
+      updateValues.password = await hashPassword(input.password);
     }
 
     // Perform the update
@@ -0,0 +1,56 @@
+import { type AuthUser, type DatasetFile } from '../schema';
+import { pipeline, type Readable } from 'stream';
+import { getStorage } from '../lib/storage';
+import { ByteCounter, HashingStream } from '../lib/streams';
+import { MAX_FILE_SIZE, assertCanUploadTo, datasetFileKey, inspectUpload, parseUploadFilename, validateUpload } from '../lib/uploads';
+import { createDatasetFile } from './create_dataset_file';
+
+export interface UploadDatasetFileInput {
+  dataset_id: number;
+  filename: string;
+  body: Readable;
+}
+
+/**
+ * Streams an uploaded file into storage and records it on the dataset.
+ * Size, checksums and the type and compression, detected from the content, are determined server-side, as is the
+ * member listing of archives; the dataset_files row is only created once the bytes have been written successfully.
+ * The stored file is then validated and returned with its validation report.
+ */
+export async function uploadDatasetFile(input: UploadDatasetFileInput, actor: AuthUser): Promise<DatasetFile> {
+  try {
+    await assertCanUploadTo(input.dataset_id, actor);
+    const upload = parseUploadFilename(input.filename);
+    const { filename } = upload;
+
+    const storage = getStorage();
+    const key = datasetFileKey(input.dataset_id, filename);
+    const counter = new ByteCounter(MAX_FILE_SIZE);
+    const hasher = new HashingStream('sha256', 'md5');
+    let file: DatasetFile;
+
+    try {
+      // Errors of any stage surface through the last stream, which storage.put consumes
+      await storage.put(key, pipeline(input.body, counter, hasher, () => undefined));
+      const detected = await inspectUpload(storage, key, counter.bytes, upload);
+
+      file = await createDatasetFile({
+        dataset_id: input.dataset_id,
+        filename,
+        path: key,
+        size: counter.bytes,
+        ...detected,
+        sha256: hasher.digest('sha256'),
+        md5: hasher.digest('md5')
+      }, actor);
+    } catch (error) {
+      await storage.delete(key).catch(() => undefined);
+      throw error;
+    }
+
+    return await validateUpload(file);
+  } catch (error) {
+    console.error('Dataset file upload failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { pipeline } from 'stream/promises';
+import { downloadDatasetArchive } from '../handlers/download_dataset_archive';
+import { contentDisposition, getRequestUser, sendError } from './utils';
+
+/**
+ * GET /datasets/:id/archive
+ * Streams all files of the dataset as a ZIP; the length is unknown up front, so the response is chunked.
+ */
+export async function handleArchiveDownload(req: IncomingMessage, res: ServerResponse, datasetId: number): Promise<void> {
+  try {
+    const user = await getRequestUser(req);
+    const archive = await downloadDatasetArchive(datasetId, user);
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', contentDisposition(archive.filename));
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    await pipeline(archive.body, res);
+  } catch (error) {
+    sendError(res, error);
+  }
+}
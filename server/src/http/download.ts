@@ -0,0 +1,87 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { pipeline } from 'stream/promises';
+import { type DatasetFile, type FileCompression } from '../schema';
+import { downloadDatasetFile, fileETag } from '../handlers/download_dataset_file';
+import { RangeNotSatisfiableError } from '../lib/byte_range';
+import { contentDisposition, getRequestUser, headerValue, sendError, sendJson } from './utils';
+
+const CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  json: 'application/json',
+  jsonl: 'application/jsonl',
+  ndjson: 'application/x-ndjson',
+  arff: 'text/plain; charset=utf-8',
+  parquet: 'application/vnd.apache.parquet',
+  zip: 'application/zip',
+  tar: 'application/x-tar'
+};
+
+// Compressed files are served as stored, so the compression decides the type
+const COMPRESSED_CONTENT_TYPES: Record<FileCompression, string> = {
+  gzip: 'application/gzip',
+  bzip2: 'application/x-bzip2'
+};
+
+/**
+ * RFC 9530 digest of the whole file, sent with full and partial responses alike.
+ */
+function reprDigest(file: DatasetFile): string | null {
+  const digests = [];
+  if (file.sha256) {
+    digests.push(`sha-256=:${Buffer.from(file.sha256, 'hex').toString('base64')}:`);
+  }
+  if (file.md5) {
+    digests.push(`md5=:${Buffer.from(file.md5, 'hex').toString('base64')}:`);
+  }
+  return digests.length > 0 ? digests.join(', ') : null;
+}
+
+/**
+ * GET /files/:id/download
+ * Streams a dataset file, answering Range requests with 206 Partial Content.
+ */
+export async function handleDownload(req: IncomingMessage, res: ServerResponse, fileId: number): Promise<void> {
+  try {
+    const user = await getRequestUser(req);
+    const download = await downloadDatasetFile({
+      file_id: fileId,
+      range: headerValue(req, 'range'),
+      if_range: headerValue(req, 'if-range')
+    }, user);
+    const { file, size } = download;
+
+    const contentType = file.compression ? COMPRESSED_CONTENT_TYPES[file.compression] : CONTENT_TYPES[file.type];
+    res.setHeader('Content-Type', contentType ?? 'application/octet-stream');
+    res.setHeader('Content-Disposition', contentDisposition(file.filename));
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    const etag = fileETag(file);
+    if (etag) {
+      res.setHeader('ETag', etag);
+    }
+    const digest = reprDigest(file);
+    if (digest) {
+      res.setHeader('Repr-Digest', digest);
+    }
+
+    if (download.range) {
+      res.statusCode = 206;
+      res.setHeader('Content-Range', `bytes ${download.range.start}-${download.range.end}/${size}`);
+      res.setHeader('Content-Length', String(download.range.end - download.range.start + 1));
+    } else {
+      res.statusCode = 200;
+      res.setHeader('Content-Length', String(size));
+    }
+
+    await pipeline(download.body, res);
+  } catch (error) {
+    if (error instanceof RangeNotSatisfiableError) {
+      res.setHeader('Content-Range', `bytes */${error.size}`);
+      sendJson(res, 416, { error: { code: 'RANGE_NOT_SATISFIABLE', message: error.message } });
+      return;
+    }
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,58 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { handleUpload } from './upload';
+import { handleUploadChunk, handleUploadStatus } from './resumable_upload';
+import { handleDownload } from './download';
+import { handleArchiveDownload } from './archive';
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (req: IncomingMessage, res: ServerResponse, params: string[]) => Promise<void>;
+}
+
+// File transfers bypass tRPC, which only speaks JSON
+const routes: Route[] = [
+  {
+    method: 'POST',
+    pattern: /^\/datasets\/(\d+)\/files$/,
+    handle: (req, res, [datasetId]) => handleUpload(req, res, Number(datasetId))
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/uploads\/(\d+)$/,
+    handle: (req, res, [uploadId]) => handleUploadChunk(req, res, Number(uploadId))
+  },
+  {
+    method: 'HEAD',
+    pattern: /^\/uploads\/(\d+)$/,
+    handle: (req, res, [uploadId]) => handleUploadStatus(req, res, Number(uploadId))
+  },
+  {
+    method: 'GET',
+    pattern: /^\/files\/(\d+)\/download$/,
+    handle: (req, res, [fileId]) => handleDownload(req, res, Number(fileId))
+  },
+  {
+    method: 'GET',
+    pattern: /^\/datasets\/(\d+)\/archive$/,
+    handle: (req, res, [datasetId]) => handleArchiveDownload(req, res, Number(datasetId))
+  }
+];
+
+/**
+ * Handles the request if it matches one of the plain HTTP routes.
+ * Returns false so the caller can fall through to tRPC otherwise.
+ */
+export async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<boolean> {
+  const pathname = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+  for (const route of routes) {
+    const match = route.pattern.exec(pathname);
+    if (match && req.method === route.method) {
+      await route.handle(req, res, match.slice(1));
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,81 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { TRPCError } from '@trpc/server';
+import { type UploadSession } from '../schema';
+import { appendUploadChunk } from '../handlers/append_upload_chunk';
+import { getUploadSession } from '../handlers/get_upload_session';
+import { headerValue, requireRequestUser, sendError, sendJson } from './utils';
+
+function parseOffset(req: IncomingMessage): number {
+  const value = headerValue(req, 'upload-offset');
+  if (value === undefined || !/^\d+$/.test(value)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Missing or invalid Upload-Offset header' });
+  }
+  return Number(value);
+}
+
+/**
+ * Reads an optional `Upload-Checksum: sha256 <base64 digest>` header as a hex digest.
+ */
+function parseChecksum(req: IncomingMessage): string | undefined {
+  const value = headerValue(req, 'upload-checksum');
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const [algorithm, digest] = value.trim().split(/\s+/);
+  if (algorithm !== 'sha256' || !digest) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Upload-Checksum must be of the form "sha256 <base64 digest>"' });
+  }
+  const bytes = Buffer.from(digest, 'base64');
+  if (bytes.length !== 32) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Upload-Checksum digest is not a SHA-256 digest' });
+  }
+  return bytes.toString('hex');
+}
+
+const setProgressHeaders = (res: ServerResponse, session: UploadSession): void => {
+  res.setHeader('Upload-Offset', String(session.received));
+  res.setHeader('Upload-Length', String(session.size));
+  res.setHeader('Upload-Expires', session.expires_at.toUTCString());
+  res.setHeader('Cache-Control', 'no-store');
+};
+
+/**
+ * PUT /uploads/:id
+ * Appends the raw request body at the position given by the Upload-Offset header.
+ */
+export async function handleUploadChunk(req: IncomingMessage, res: ServerResponse, uploadId: number): Promise<void> {
+  try {
+    const user = await requireRequestUser(req);
+    const session = await appendUploadChunk({
+      upload_id: uploadId,
+      offset: parseOffset(req),
+      sha256: parseChecksum(req),
+      body: req
+    }, user);
+
+    setProgressHeaders(res, session);
+    sendJson(res, 200, session);
+  } catch (error) {
+    // Stop reading the rest of a rejected chunk
+    res.setHeader('Connection', 'close');
+    sendError(res, error);
+  }
+}
+
+/**
+ * HEAD /uploads/:id
+ * Reports the offset to resume from in the Upload-Offset header.
+ */
+export async function handleUploadStatus(req: IncomingMessage, res: ServerResponse, uploadId: number): Promise<void> {
+  try {
+    const user = await requireRequestUser(req);
+    const session = await getUploadSession(uploadId, user);
+
+    setProgressHeaders(res, session);
+    res.statusCode = 200;
+    res.end();
+  } catch (error) {
+    sendError(res, error);
+  }
+}
@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import busboy from 'busboy';
+import { TRPCError } from '@trpc/server';
+import { type DatasetFile } from '../schema';
+import { uploadDatasetFile } from '../handlers/upload_dataset_file';
+import { requireRequestUser, sendError, sendJson } from './utils';
+
+/**
+ * POST /datasets/:id/files
+ * Accepts a multipart/form-data body with a single `file` field.
+ */
+export async function handleUpload(req: IncomingMessage, res: ServerResponse, datasetId: number): Promise<void> {
+  try {
+    const user = await requireRequestUser(req);
+
+    if (!req.headers['content-type']?.startsWith('multipart/form-data')) {
+      throw new TRPCError({ code: 'UNSUPPORTED_MEDIA_TYPE', message: 'Expected a multipart/form-data upload' });
+    }
+
+    const file = await new Promise<DatasetFile>((resolve, reject) => {
+      // Browsers send UTF-8 filenames; busboy defaults to latin1
+      const parser = busboy({ headers: req.headers, limits: { files: 1 }, defParamCharset: 'utf8' });
+      let received = false;
+
+      parser.on('file', (field, stream, info) => {
+        if (field !== 'file' || received) {
+          stream.resume();
+          return;
+        }
+        received = true;
+        uploadDatasetFile({ dataset_id: datasetId, filename: info.filename, body: stream }, user)
+          .then(resolve, reject);
+      });
+      parser.on('error', reject);
+      parser.on('close', () => {
+        if (!received) {
+          reject(new TRPCError({ code: 'BAD_REQUEST', message: 'Missing `file` field' }));
+        }
+      });
+
+      req.pipe(parser);
+    });
+
+    sendJson(res, 201, file);
+  } catch (error) {
+    // Stop reading the rest of a rejected upload
+    res.setHeader('Connection', 'close');
+    sendError(res, error);
+  }
+}
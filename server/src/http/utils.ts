@@ -0,0 +1,61 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { TRPCError } from '@trpc/server';
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import { type AuthUser } from '../schema';
+import { getSessionToken, resolveSession } from '../lib/session';
+
+/**
+ * Resolves the signed-in user for plain HTTP routes, mirroring the tRPC context.
+ */
+export async function getRequestUser(req: IncomingMessage): Promise<AuthUser | null> {
+  const token = getSessionToken(req);
+  const resolved = token ? await resolveSession(token) : null;
+  return resolved?.user ?? null;
+}
+
+export async function requireRequestUser(req: IncomingMessage): Promise<AuthUser> {
+  const user = await getRequestUser(req);
+  if (!user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be signed in' });
+  }
+  return user;
+}
+
+export function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Attachment disposition with an ASCII fallback and the exact name per RFC 6266.
+ */
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Writes an error response, using the HTTP status of TRPCErrors. Handlers report bad input, missing records and
+ * refused actions as TRPCErrors, so anything else is an unexpected failure and is hidden behind a 500.
+ */
+export function sendError(res: ServerResponse, error: unknown): void {
+  if (res.headersSent) {
+    res.destroy(error instanceof Error ? error : undefined);
+    return;
+  }
+
+  if (error instanceof TRPCError) {
+    sendJson(res, getHTTPStatusCodeFromError(error), { error: { code: error.code, message: error.message } });
+    return;
+  }
+
+  console.error('HTTP route failed:', error);
+  sendJson(res, 500, { error: { code: 'INTERNAL_SERVER_ERROR', message: 'Internal server error' } });
+}
@@ -1,9 +1,22 @@
-import { initTRPC } from '@trpc/server';
+import { TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import {
+  router,
+  publicProcedure,
+  viewerProcedure,
+  contributorProcedure,
+  curatorProcedure,
+  adminProcedure,
+  createContext
+} from './trpc';
+import { serializeSessionCookie, clearSessionCookie } from './lib/session';
+import { hasRole } from './lib/roles';
+import { loadAccessibleDatasetFile } from './lib/dataset_access';
+import { handleHttpRequest } from './http';
+import { startJobs } from './jobs';
 
 // Import schemas
 import {
@@ -14,19 +27,33 @@ import {
   updateProfileInputSchema,
   createDatasetInputSchema,
   updateDatasetInputSchema,
+  transitionDatasetInputSchema,
   createDatasetFileInputSchema,
   updateDatasetFileInputSchema,
   createCurationReviewInputSchema,
   updateCurationReviewInputSchema,
+  setCurationPolicyInputSchema,
+  setChecklistTemplateInputSchema,
+  postReviewMessageInputSchema,
+  resubmitDatasetInputSchema,
+  curationQueueInputSchema,
+  setCuratorDomainsInputSchema,
+  reviewAssignmentInputSchema,
   datasetSearchInputSchema,
-  reportFilterSchema
+  reportFilterSchema,
+  accessRequestStatusEnum,
+  createAccessRequestInputSchema,
+  decideAccessRequestInputSchema,
+  createUploadSessionInputSchema,
+  previewDatasetFileInputSchema
 } from './schema';
 
 // Import handlers
 import { createUser } from './handlers/create_user';
 import { getUsers } from './handlers/get_users';
 import { updateUser } from './handlers/update_user';
-import { authenticateUser } from './handlers/authenticate_user';
+import { login } from './handlers/login';
+import { logout } from './handlers/logout';
 
 import { createProfile } from './handlers/create_profile';
 import { getProfiles } from './handlers/get_profiles';
@@ -36,158 +63,306 @@ import { createDataset } from './handlers/create_dataset';
 import { getDatasets } from './handlers/get_datasets';
 import { getDatasetById } from './handlers/get_dataset_by_id';
 import { updateDataset } from './handlers/update_dataset';
+import { transitionDataset } from './handlers/transition_dataset';
+import { getDatasetStatusHistory } from './handlers/get_dataset_status_history';
 import { searchDatasets } from './handlers/search_datasets';
 import { getDatasetsByContributor } from './handlers/get_datasets_by_contributor';
 
 import { createDatasetFile } from './handlers/create_dataset_file';
 import { getDatasetFiles } from './handlers/get_dataset_files';
+import { getDatasetFileMembers } from './handlers/get_dataset_file_members';
+import { getDatasetVersions } from './handlers/get_dataset_versions';
 import { previewDatasetFile } from './handlers/preview_dataset_file';
+import { getFileProfile } from './handlers/get_file_profile';
+import { createUploadSession } from './handlers/create_upload_session';
+import { getUploadSession } from './handlers/get_upload_session';
+import { finalizeUploadSession } from './handlers/finalize_upload_session';
+
+import { createAccessRequest } from './handlers/create_access_request';
+import { decideAccessRequest } from './handlers/decide_access_request';
+import { getAccessRequests } from './handlers/get_access_requests';
 
 import { createCurationReview } from './handlers/create_curation_review';
 import { getCurationReviews } from './handlers/get_curation_reviews';
-
-import { generateCitation } from './handlers/generate_citation';
+import { getCurationOutcome } from './handlers/get_curation_outcome';
+import { setCurationPolicy } from './handlers/set_curation_policy';
+import { getCurationPolicies } from './handlers/get_curation_policies';
+import { assignReviewer } from './handlers/assign_reviewer';
+import { unassignReviewer } from './handlers/unassign_reviewer';
+import { getReviewAssignments } from './handlers/get_review_assignments';
+import { setChecklistTemplate } from './handlers/set_checklist_template';
+import { getChecklistTemplates } from './handlers/get_checklist_templates';
+import { getReviewChecklist } from './handlers/get_review_checklist';
+import { getReviewFeedback } from './handlers/get_review_feedback';
+import { resubmitDataset } from './handlers/resubmit_dataset';
+import { postReviewMessage } from './handlers/post_review_message';
+import { getReviewThread } from './handlers/get_review_thread';
+import { getCurationQueue } from './handlers/get_curation_queue';
+import { claimDataset } from './handlers/claim_dataset';
+import { unclaimDataset } from './handlers/unclaim_dataset';
+import { setCuratorDomains } from './handlers/set_curator_domains';
+
+import { citeDataset } from './handlers/generate_citation';
 import { generateReports } from './handlers/generate_reports';
 import { exportReport } from './handlers/export_report';
 import { getDashboardStats } from './handlers/get_dashboard_stats';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
   // User management routes
+  // Self-registration is limited to viewer and contributor accounts
   createUser: publicProcedure
     .input(createUserInputSchema)
-    .mutation(({ input }) => createUser(input)),
+    .mutation(({ input, ctx }) => {
+      if (hasRole({ role: input.role }, 'curator') && !hasRole(ctx.user, 'admin')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can create curator or admin accounts' });
+      }
+      return createUser(input);
+    }),
 
-  getUsers: publicProcedure
+  getUsers: adminProcedure
     .query(() => getUsers()),
 
-  updateUser: publicProcedure
+  updateUser: viewerProcedure
     .input(updateUserInputSchema)
-    .mutation(({ input }) => updateUser(input)),
+    .mutation(({ input, ctx }) => {
+      if (input.id !== ctx.user.id && !hasRole(ctx.user, 'admin')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only update your own account' });
+      }
+      if (input.role !== undefined && !hasRole(ctx.user, 'admin')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Only admins can change user roles' });
+      }
+      return updateUser(input);
+    }),
 
-  authenticateUser: publicProcedure
+  // Session routes
+  login: publicProcedure
     .input(loginInputSchema)
-    .mutation(({ input }) => authenticateUser(input)),
+    .mutation(async ({ input, ctx }) => {
+      const result = await login(input);
+      if (!result) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Invalid email or password' });
+      }
+      ctx.res?.setHeader('Set-Cookie', serializeSessionCookie(result.token, result.expires_at));
+      return result;
+    }),
+
+  logout: viewerProcedure
+    .mutation(async ({ ctx }) => {
+      ctx.res?.setHeader('Set-Cookie', clearSessionCookie());
+      return ctx.sessionToken ? logout(ctx.sessionToken) : { success: false };
+    }),
+
+  me: publicProcedure
+    .query(({ ctx }) => ctx.user),
 
   // Profile management routes
-  createProfile: publicProcedure
+  createProfile: viewerProcedure
     .input(createProfileInputSchema)
-    .mutation(({ input }) => createProfile(input)),
+    .mutation(({ input, ctx }) => {
+      if (input.user_id !== ctx.user.id && !hasRole(ctx.user, 'admin')) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only create your own profile' });
+      }
+      return createProfile(input);
+    }),
 
-  getProfiles: publicProcedure
+  getProfiles: viewerProcedure
     .query(() => getProfiles()),
 
-  getProfileByUser: publicProcedure
+  getProfileByUser: viewerProcedure
     .input(z.object({ userId: z.number() }))
     .query(({ input }) => getProfileByUser(input.userId)),
 
   // Dataset management routes
-  createDataset: publicProcedure
-    .input(createDatasetInputSchema)
-    .mutation(({ input }) => createDataset(input)),
+  createDataset: contributorProcedure
+    .input(createDatasetInputSchema.omit({ contributor_id: true }))
+    .mutation(({ input, ctx }) => createDataset({ ...input, contributor_id: ctx.user.id })),
 
   getDatasets: publicProcedure
     .input(datasetSearchInputSchema.optional())
     .query(({ input }) => getDatasets(input)),
 
   getDatasetById: publicProcedure
-    .input(z.object({ id: z.number() }))
-    .query(({ input }) => getDatasetById(input.id)),
+    .input(z.object({ id: z.number(), version: z.number().int().positive().optional() }))
+    .query(({ input, ctx }) => getDatasetById(input.id, ctx.user, input.version)),
+
+  getDatasetVersions: publicProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .query(({ input, ctx }) => getDatasetVersions(input.datasetId, ctx.user)),
 
-  updateDataset: publicProcedure
+  updateDataset: contributorProcedure
     .input(updateDatasetInputSchema)
-    .mutation(({ input }) => updateDataset(input)),
+    .mutation(({ input, ctx }) => updateDataset(input, ctx.user)),
+
+  transitionDataset: contributorProcedure
+    .input(transitionDatasetInputSchema)
+    .mutation(({ input, ctx }) => transitionDataset(input, ctx.user)),
+
+  getDatasetStatusHistory: publicProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .query(({ input, ctx }) => getDatasetStatusHistory(input.datasetId, ctx.user)),
 
   searchDatasets: publicProcedure
     .input(datasetSearchInputSchema)
-    .query(({ input }) => searchDatasets(input)),
+    .query(({ input, ctx }) => searchDatasets(input, ctx.user)),
 
   getDatasetsByContributor: publicProcedure
     .input(z.object({ contributorId: z.number() }))
-    .query(({ input }) => getDatasetsByContributor(input.contributorId)),
+    .query(({ input, ctx }) => getDatasetsByContributor(input.contributorId, ctx.user)),
 
   // Dataset file management routes
-  createDatasetFile: publicProcedure
+  // Registers an already stored file; contributors upload through POST /datasets/:id/files
+  createDatasetFile: adminProcedure
     .input(createDatasetFileInputSchema)
-    .mutation(({ input }) => createDatasetFile(input)),
+    .mutation(({ input, ctx }) => createDatasetFile(input, ctx.user)),
 
   getDatasetFiles: publicProcedure
-    .input(z.object({ datasetId: z.number() }))
-    .query(({ input }) => getDatasetFiles(input.datasetId)),
+    .input(z.object({ datasetId: z.number(), version: z.number().int().positive().optional() }))
+    .query(({ input, ctx }) => getDatasetFiles(input.datasetId, ctx.user, input.version)),
 
-  previewDatasetFile: publicProcedure
+  getDatasetFileMembers: publicProcedure
     .input(z.object({ fileId: z.number() }))
-    .query(async ({ input }) => {
-      // In real implementation, fetch file details first
-      const mockFile = {
-        id: input.fileId,
-        dataset_id: 1,
-        filename: 'sample.csv',
-        path: '/uploads/sample.csv',
-        size: 1024,
-        type: 'CSV',
-        created_at: new Date()
-      };
-      return previewDatasetFile(mockFile);
+    .query(({ input, ctx }) => getDatasetFileMembers(input.fileId, ctx.user)),
+
+  previewDatasetFile: publicProcedure
+    .input(previewDatasetFileInputSchema)
+    .query(async ({ input, ctx }) => {
+      const file = await loadAccessibleDatasetFile(input.fileId, ctx.user);
+      return previewDatasetFile(file, { offset: input.offset, limit: input.limit }, input.member);
     }),
 
+  getFileProfile: publicProcedure
+    .input(z.object({ fileId: z.number() }))
+    .query(({ input, ctx }) => getFileProfile(input.fileId, ctx.user)),
+
+  // Resumable upload routes; chunks are sent to PUT /uploads/:id
+  createUploadSession: contributorProcedure
+    .input(createUploadSessionInputSchema)
+    .mutation(({ input, ctx }) => createUploadSession(input, ctx.user)),
+
+  getUploadSession: contributorProcedure
+    .input(z.object({ uploadId: z.number() }))
+    .query(({ input, ctx }) => getUploadSession(input.uploadId, ctx.user)),
+
+  finalizeUploadSession: contributorProcedure
+    .input(z.object({ uploadId: z.number() }))
+    .mutation(({ input, ctx }) => finalizeUploadSession(input.uploadId, ctx.user)),
+
+  // Access request routes
+  requestDatasetAccess: viewerProcedure
+    .input(createAccessRequestInputSchema.omit({ requester_id: true }))
+    .mutation(({ input, ctx }) => createAccessRequest({ ...input, requester_id: ctx.user.id })),
+
+  decideAccessRequest: contributorProcedure
+    .input(decideAccessRequestInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => decideAccessRequest({ ...input, reviewer_id: ctx.user.id })),
+
+  getAccessRequests: contributorProcedure
+    .input(z.object({ datasetId: z.number(), status: accessRequestStatusEnum.optional() }))
+    .query(({ input, ctx }) => getAccessRequests(input, ctx.user)),
+
+  getMyAccessRequests: viewerProcedure
+    .query(({ ctx }) => getAccessRequests({ requesterId: ctx.user.id }, ctx.user)),
+
   // Curation review routes
-  createCurationReview: publicProcedure
-    .input(createCurationReviewInputSchema)
-    .mutation(({ input }) => createCurationReview(input)),
+  createCurationReview: curatorProcedure
+    .input(createCurationReviewInputSchema.omit({ reviewer_id: true }))
+    .mutation(({ input, ctx }) => createCurationReview({ ...input, reviewer_id: ctx.user.id })),
 
-  getCurationReviews: publicProcedure
+  getCurationReviews: curatorProcedure
     .input(z.object({ datasetId: z.number().optional() }))
     .query(({ input }) => getCurationReviews(input.datasetId)),
 
+  getCurationOutcome: curatorProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .query(({ input }) => getCurationOutcome(input.datasetId)),
+
+  setCurationPolicy: adminProcedure
+    .input(setCurationPolicyInputSchema)
+    .mutation(({ input }) => setCurationPolicy(input)),
+
+  getCurationPolicies: curatorProcedure
+    .query(() => getCurationPolicies()),
+
+  assignReviewer: curatorProcedure
+    .input(reviewAssignmentInputSchema)
+    .mutation(({ input, ctx }) => assignReviewer(input, ctx.user)),
+
+  unassignReviewer: curatorProcedure
+    .input(reviewAssignmentInputSchema)
+    .mutation(({ input, ctx }) => unassignReviewer(input, ctx.user)),
+
+  getReviewAssignments: curatorProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .query(({ input }) => getReviewAssignments(input.datasetId)),
+
+  setChecklistTemplate: curatorProcedure
+    .input(setChecklistTemplateInputSchema)
+    .mutation(({ input }) => setChecklistTemplate(input)),
+
+  getChecklistTemplates: curatorProcedure
+    .query(() => getChecklistTemplates()),
+
+  getReviewChecklist: curatorProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .query(({ input }) => getReviewChecklist(input.datasetId)),
+
+  getReviewFeedback: contributorProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .query(({ input, ctx }) => getReviewFeedback(input.datasetId, ctx.user)),
+
+  resubmitDataset: contributorProcedure
+    .input(resubmitDatasetInputSchema)
+    .mutation(({ input, ctx }) => resubmitDataset(input, ctx.user)),
+
+  postReviewMessage: contributorProcedure
+    .input(postReviewMessageInputSchema)
+    .mutation(({ input, ctx }) => postReviewMessage(input, ctx.user)),
+
+  getReviewThread: contributorProcedure
+    .input(z.object({ datasetId: z.number(), round: z.number().int().positive().optional() }))
+    .query(({ input, ctx }) => getReviewThread(input.datasetId, input.round, ctx.user)),
+
+  // Curator queue routes
+  getCurationQueue: curatorProcedure
+    .input(curationQueueInputSchema)
+    .query(({ input, ctx }) => getCurationQueue(input, ctx.user)),
+
+  claimDataset: curatorProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .mutation(({ input, ctx }) => claimDataset(input.datasetId, ctx.user)),
+
+  unclaimDataset: curatorProcedure
+    .input(z.object({ datasetId: z.number() }))
+    .mutation(({ input, ctx }) => unclaimDataset(input.datasetId, ctx.user)),
+
+  setCuratorDomains: curatorProcedure
+    .input(setCuratorDomainsInputSchema)
+    .mutation(({ input, ctx }) => setCuratorDomains(input, ctx.user)),
+
   // Citation and utility routes
   generateCitation: publicProcedure
-    .input(z.object({ datasetId: z.number() }))
-    .query(async ({ input }) => {
-      // In real implementation, fetch dataset details first
-      const mockDataset = {
-        id: input.datasetId,
-        title: 'Sample Dataset',
-        description: 'A sample dataset',
-        domain: 'Machine Learning',
-        task: 'Classification',
-        license: 'MIT',
-        doi: null,
-        access_level: 'public' as const,
-        status: 'published' as const,
-        contributor_id: 1,
-        publication_year: 2024,
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      return generateCitation(mockDataset);
-    }),
+    .input(z.object({ datasetId: z.number(), version: z.number().int().positive().optional() }))
+    .query(({ input, ctx }) => citeDataset(input.datasetId, input.version, ctx.user)),
 
   // Reporting routes
-  generateReports: publicProcedure
+  generateReports: adminProcedure
     .input(reportFilterSchema.optional())
-    .query(({ input }) => generateReports(input)),
+    .query(({ input, ctx }) => generateReports(input, ctx.user)),
 
-  exportReport: publicProcedure
+  exportReport: adminProcedure
     .input(z.object({
       format: z.enum(['csv', 'excel']),
       includeCharts: z.boolean().optional(),
       filters: reportFilterSchema.optional()
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       // In real implementation, generate report first
-      const report = await generateReports(input.filters);
+      const report = await generateReports(input.filters, ctx.user);
       const exportOptions = {
         format: input.format,
         includeCharts: input.includeCharts
@@ -196,8 +371,8 @@ const appRouter = router({
     }),
 
   // Dashboard routes
-  getDashboardStats: publicProcedure
-    .query(() => getDashboardStats())
+  getDashboardStats: curatorProcedure
+    .query(({ ctx }) => getDashboardStats(ctx.user))
 });
 
 export type AppRouter = typeof appRouter;
@@ -206,15 +381,25 @@ async function start() {
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      cors()(req, res, () => {
+        handleHttpRequest(req, res)
+          .then(handled => {
+            if (!handled) {
+              next();
+            }
+          })
+          .catch(next);
+      });
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
+  startJobs();
   console.log(`UISR TRPC server listening at port: ${port}`);
 }
 
-start();
\ No newline at end of file
+// Tests import the router without starting the server
+if (import.meta.main) {
+  start();
+}
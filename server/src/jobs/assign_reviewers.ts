@@ -0,0 +1,74 @@
+import { db } from '../db';
+import { curatorDomainsTable, reviewAssignmentsTable, usersTable } from '../db/schema';
+import { eq, max } from 'drizzle-orm';
+import { loadCurationPolicies } from '../lib/curation';
+import { loadCurationQueue } from '../lib/curator_queue';
+
+export interface AssignmentSummary {
+  assigned: number;
+}
+
+/**
+ * Assigns curators to queued datasets until each has as many reviewers as its policy requires approvals.
+ * Curators with expertise in the dataset's domain are preferred when there are any; among the candidates the
+ * one assigned least recently goes first, which spreads work round-robin.
+ */
+export async function assignReviewers(): Promise<AssignmentSummary> {
+  try {
+    const queue = await loadCurationQueue();
+    const summary: AssignmentSummary = { assigned: 0 };
+    if (queue.length === 0) {
+      return summary;
+    }
+
+    const curators = await db.select({ id: usersTable.id })
+      .from(usersTable)
+      .where(eq(usersTable.role, 'curator'))
+      .execute();
+    const expertise = await db.select().from(curatorDomainsTable).execute();
+    const policyFor = await loadCurationPolicies();
+
+    const lastAssigned = new Map<number, number>();
+    const latest = await db.select({ reviewer_id: reviewAssignmentsTable.reviewer_id, at: max(reviewAssignmentsTable.created_at) })
+      .from(reviewAssignmentsTable)
+      .groupBy(reviewAssignmentsTable.reviewer_id)
+      .execute();
+    for (const row of latest) {
+      lastAssigned.set(row.reviewer_id, row.at?.getTime() ?? 0);
+    }
+
+    for (const item of queue) {
+      const { required_approvals } = policyFor(item.domain);
+      const needed = required_approvals - item.reviewer_ids.length;
+      if (needed <= 0) {
+        continue;
+      }
+
+      const candidates = curators.filter(curator => curator.id !== item.contributor_id && !item.reviewer_ids.includes(curator.id));
+      const experts = candidates.filter(curator =>
+        expertise.some(entry => entry.user_id === curator.id && entry.domain === item.domain));
+      const pool = (experts.length > 0 ? experts : candidates)
+        .sort((a, b) => (lastAssigned.get(a.id) ?? 0) - (lastAssigned.get(b.id) ?? 0) || a.id - b.id);
+
+      for (const curator of pool.slice(0, needed)) {
+        // A curator may have claimed the dataset since the queue was loaded
+        const [assignment] = await db.insert(reviewAssignmentsTable)
+          .values({ dataset_id: item.dataset_id, reviewer_id: curator.id, assigned_by: null })
+          .onConflictDoNothing()
+          .returning()
+          .execute();
+        if (!assignment) {
+          continue;
+        }
+        // Later datasets in this run see the assignment, so one curator does not take them all
+        lastAssigned.set(curator.id, assignment.created_at.getTime());
+        summary.assigned++;
+      }
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('Reviewer assignment failed:', error);
+    throw error;
+  }
+}
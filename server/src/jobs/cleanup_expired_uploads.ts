@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { uploadChunksTable, uploadSessionsTable } from '../db/schema';
+import { and, eq, lte } from 'drizzle-orm';
+import { getStorage } from '../lib/storage';
+import { unclaimedUploadSession } from '../lib/uploads';
+
+/**
+ * Removes unfinished upload sessions past their expiry together with their stored chunks, including sessions
+ * whose finalize claim was abandoned. Sessions whose chunks cannot all be deleted are kept for the next run.
+ * Returns the number of sessions removed.
+ */
+export async function cleanupExpiredUploads(now: Date = new Date()): Promise<number> {
+  try {
+    const expired = await db.select()
+      .from(uploadSessionsTable)
+      .where(and(
+        unclaimedUploadSession(now),
+        lte(uploadSessionsTable.expires_at, now)
+      ))
+      .execute();
+
+    const storage = getStorage();
+    let removed = 0;
+    for (const session of expired) {
+      const chunks = await db.select()
+        .from(uploadChunksTable)
+        .where(eq(uploadChunksTable.upload_id, session.id))
+        .execute();
+
+      const deletions = await Promise.allSettled(chunks.map(chunk => storage.delete(chunk.storage_key)));
+      const failures = deletions.filter(deletion => deletion.status === 'rejected');
+      if (failures.length > 0) {
+        // Storage hiccups are retried on the next run
+        console.error(`Deleting ${failures.length} chunks of upload ${session.id} failed:`, failures[0].reason);
+        continue;
+      }
+
+      // Chunk rows are removed by the cascade
+      await db.delete(uploadSessionsTable)
+        .where(eq(uploadSessionsTable.id, session.id))
+        .execute();
+      removed++;
+    }
+
+    return removed;
+  } catch (error) {
+    console.error('Expired upload cleanup failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,31 @@
+import { assignReviewers } from './assign_reviewers';
+import { cleanupExpiredUploads } from './cleanup_expired_uploads';
+import { profileDatasetFiles } from './profile_dataset_files';
+import { validateDatasetFiles } from './validate_dataset_files';
+import { verifyFileIntegrity } from './verify_file_integrity';
+
+const minutes = (name: string, fallback: number): number =>
+  Number(process.env[name] || fallback) * 60 * 1000;
+
+/**
+ * Runs a task periodically; a failed run does not stop the following ones.
+ */
+function schedule(task: () => Promise<unknown>, intervalMs: number): void {
+  const timer = setInterval(() => {
+    // Tasks log their own failures
+    task().catch(() => undefined);
+  }, intervalMs);
+  // Background jobs should not keep the process alive on shutdown
+  timer.unref();
+}
+
+/**
+ * Starts the background jobs of the server process.
+ */
+export function startJobs(): void {
+  schedule(() => cleanupExpiredUploads(), minutes('UPLOAD_CLEANUP_INTERVAL_MINUTES', 60));
+  schedule(() => verifyFileIntegrity(), minutes('INTEGRITY_CHECK_INTERVAL_MINUTES', 24 * 60));
+  schedule(() => profileDatasetFiles(), minutes('PROFILE_INTERVAL_MINUTES', 10));
+  schedule(() => validateDatasetFiles(), minutes('VALIDATION_INTERVAL_MINUTES', 10));
+  schedule(() => assignReviewers(), minutes('REVIEWER_ASSIGNMENT_INTERVAL_MINUTES', 15));
+}
@@ -0,0 +1,95 @@
+import { db } from '../db';
+import { datasetFilesTable, fileProfilesTable, type NewFileProfile } from '../db/schema';
+import { type DatasetFile } from '../schema';
+import { asc, eq, isNull } from 'drizzle-orm';
+import { getStorage } from '../lib/storage';
+import { decompress, maxDecompressedSize } from '../lib/compression';
+import { detectStoredFormat, formatFromFilename } from '../lib/formats';
+import { profileTable } from '../lib/profile';
+import { openRows } from '../lib/profile/rows';
+
+type ProfileResult = Pick<NewFileProfile, 'row_count' | 'columns' | 'error'>;
+
+export interface ProfilingSummary {
+  profiled: number;
+  // Files recorded with the reason they could not be profiled
+  failed: number;
+}
+
+const unprofiled = (error: string): ProfileResult => ({ row_count: null, columns: [], error });
+
+/**
+ * Reads a stored file to the end and profiles its columns.
+ * CSV, TSV, JSON, JSON Lines and ARFF files are profiled, compressed or not; other content is recorded with the reason.
+ */
+export async function profileDatasetFile(file: DatasetFile): Promise<ProfileResult> {
+  const storage = getStorage();
+  const stat = await storage.stat(file.path);
+  if (!stat) {
+    return unprofiled('Content is missing from storage');
+  }
+
+  const stored = await detectStoredFormat(storage, file.path, stat.size, formatFromFilename(file.filename).format);
+  if (!stored) {
+    return unprofiled('Content is not in a supported format');
+  }
+  if (stored.format === 'parquet' || stored.format === 'zip' || stored.format === 'tar') {
+    return unprofiled(`Profiles are not available for ${stored.format} files`);
+  }
+
+  const stream = decompress(await storage.createReadStream(file.path), stored.compression, maxDecompressedSize());
+  try {
+    const { row_count, columns } = await profileTable(await openRows(stream, stored.format));
+    return { row_count, columns, error: null };
+  } catch (error) {
+    return unprofiled(`Could not parse file: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Profiles the dataset files that do not have a profile yet, oldest first.
+ * Files never change once stored, so each file is profiled once; runs in batches like the integrity check.
+ */
+export async function profileDatasetFiles(batchSize: number = Number(process.env['PROFILE_BATCH_SIZE'] || 20)): Promise<ProfilingSummary> {
+  try {
+    const pending = await db.select({ file: datasetFilesTable })
+      .from(datasetFilesTable)
+      .leftJoin(fileProfilesTable, eq(fileProfilesTable.file_id, datasetFilesTable.id))
+      .where(isNull(fileProfilesTable.id))
+      .orderBy(asc(datasetFilesTable.id))
+      .limit(batchSize)
+      .execute();
+
+    const summary: ProfilingSummary = { profiled: 0, failed: 0 };
+
+    for (const { file } of pending) {
+      let result: ProfileResult;
+      try {
+        result = await profileDatasetFile(file);
+      } catch (error) {
+        // Storage hiccups are retried on the next run
+        console.error(`Profiling of file ${file.id} failed:`, error);
+        continue;
+      }
+
+      const profile = { ...result, profiled_at: new Date() };
+      await db.insert(fileProfilesTable)
+        .values({ file_id: file.id, ...profile })
+        .onConflictDoUpdate({ target: fileProfilesTable.file_id, set: profile })
+        .execute();
+
+      if (result.error) {
+        summary.failed++;
+      } else {
+        summary.profiled++;
+      }
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('Dataset file profiling failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { datasetFilesTable } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { recordFileValidation } from '../lib/validation';
+
+export interface ValidationSummary {
+  pass: number;
+  warn: number;
+  fail: number;
+}
+
+/**
+ * Validates the dataset files still pending validation, oldest first.
+ * Uploads are validated right away; this covers files registered otherwise and validations that could not run.
+ */
+export async function validateDatasetFiles(batchSize: number = Number(process.env['VALIDATION_BATCH_SIZE'] || 20)): Promise<ValidationSummary> {
+  try {
+    const pending = await db.select()
+      .from(datasetFilesTable)
+      .where(eq(datasetFilesTable.validation_status, 'pending'))
+      .orderBy(asc(datasetFilesTable.id))
+      .limit(batchSize)
+      .execute();
+
+    const summary: ValidationSummary = { pass: 0, warn: 0, fail: 0 };
+
+    for (const file of pending) {
+      try {
+        const validated = await recordFileValidation(file);
+        if (validated.validation_status !== 'pending') {
+          summary[validated.validation_status]++;
+        }
+      } catch (error) {
+        // Storage hiccups are retried on the next run
+        console.error(`Validation of file ${file.id} failed:`, error);
+      }
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('Dataset file validation failed:', error);
+    throw error;
+  }
+}
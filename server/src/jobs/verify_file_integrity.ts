@@ -0,0 +1,103 @@
+import { db } from '../db';
+import { datasetFilesTable } from '../db/schema';
+import { type DatasetFile } from '../schema';
+import { asc, eq, sql } from 'drizzle-orm';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { getStorage } from '../lib/storage';
+import { HashingStream } from '../lib/streams';
+
+type CheckedStatus = Exclude<DatasetFile['integrity_status'], 'unverified'>;
+
+interface FileCheck {
+  status: CheckedStatus;
+  sha256: string | null;
+  md5: string | null;
+}
+
+export interface IntegrityCheckSummary {
+  checked: number;
+  ok: number;
+  mismatch: number;
+  missing: number;
+}
+
+/**
+ * Re-hashes one stored file and compares it with the recorded size and checksums.
+ * Files registered without checksums get them backfilled when their size still matches.
+ */
+async function verifyFile(file: DatasetFile): Promise<FileCheck> {
+  const storage = getStorage();
+  const stored = await storage.stat(file.path);
+  if (!stored) {
+    return { status: 'missing', sha256: file.sha256, md5: file.md5 };
+  }
+
+  const hasher = new HashingStream('sha256', 'md5');
+  let bytes = 0;
+  await pipeline(await storage.createReadStream(file.path), hasher, new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      bytes += chunk.length;
+      callback();
+    }
+  }));
+
+  const sha256 = hasher.digest('sha256');
+  const md5 = hasher.digest('md5');
+  const matches = bytes === file.size
+    && (file.sha256 === null || file.sha256 === sha256)
+    && (file.md5 === null || file.md5 === md5);
+
+  if (!matches) {
+    return { status: 'mismatch', sha256: file.sha256, md5: file.md5 };
+  }
+  return { status: 'ok', sha256, md5 };
+}
+
+/**
+ * Verifies the files that have gone longest without a check, flagging missing or altered content.
+ * Runs in batches so a large repository is covered over several runs.
+ */
+export async function verifyFileIntegrity(batchSize: number = Number(process.env['INTEGRITY_BATCH_SIZE'] || 100)): Promise<IntegrityCheckSummary> {
+  try {
+    const files = await db.select()
+      .from(datasetFilesTable)
+      .orderBy(sql`${datasetFilesTable.integrity_checked_at} asc nulls first`, asc(datasetFilesTable.id))
+      .limit(batchSize)
+      .execute();
+
+    const summary: IntegrityCheckSummary = { checked: 0, ok: 0, mismatch: 0, missing: 0 };
+
+    for (const file of files) {
+      let check: FileCheck;
+      try {
+        check = await verifyFile(file);
+      } catch (error) {
+        // A storage hiccup is not evidence of corruption; retry on the next run
+        console.error(`Integrity check of file ${file.id} failed:`, error);
+        continue;
+      }
+
+      await db.update(datasetFilesTable)
+        .set({
+          sha256: check.sha256,
+          md5: check.md5,
+          integrity_status: check.status,
+          integrity_checked_at: new Date()
+        })
+        .where(eq(datasetFilesTable.id, file.id))
+        .execute();
+
+      summary.checked++;
+      summary[check.status]++;
+      if (check.status !== 'ok') {
+        console.warn(`File ${file.id} of dataset ${file.dataset_id} failed its integrity check: ${check.status}`);
+      }
+    }
+
+    return summary;
+  } catch (error) {
+    console.error('File integrity verification failed:', error);
+    throw error;
+  }
+}
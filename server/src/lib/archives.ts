@@ -0,0 +1,141 @@
+import * as path from 'path';
+import { pipeline, Readable } from 'stream';
+import * as yauzl from 'yauzl';
+import { extract, type ExtractEvents } from 'tar-stream';
+import { type FileCompression } from '../schema';
+import { decompress } from './compression';
+import { FORMAT_BY_EXTENSION, type ArchiveFormat, type DatasetFormat } from './formats';
+import { lazyReadable } from './streams';
+import { type StorageBackend } from './storage';
+
+export interface ArchiveMember {
+  path: string;
+  // Uncompressed size
+  size: number;
+  // Format claimed by the member's extension, null for members that cannot be previewed
+  format: DatasetFormat | null;
+}
+
+/**
+ * A stored archive: zip archives are read with random access, tar archives front to back.
+ */
+export interface StoredArchive {
+  storage: StorageBackend;
+  key: string;
+  size: number;
+  format: ArchiveFormat;
+  compression: FileCompression | null;
+}
+
+type TarEntry = ExtractEvents['entry'][1];
+
+export interface OpenedMember {
+  stream: Readable;
+  size: number;
+}
+
+/**
+ * Serves the byte ranges yauzl asks for straight from storage, so only the central directory
+ * and the entries actually read are fetched.
+ */
+class StorageReader extends yauzl.RandomAccessReader {
+  constructor(private readonly storage: StorageBackend, private readonly key: string) {
+    super();
+  }
+
+  override _readStreamForRange(start: number, end: number): Readable {
+    return lazyReadable(() => this.storage.createReadStream(this.key, { start, end: end - 1 }));
+  }
+}
+
+/**
+ * Format claimed by the extension of an archive member.
+ */
+export const archiveMemberFormat = (memberPath: string): DatasetFormat | null =>
+  FORMAT_BY_EXTENSION[path.extname(memberPath).slice(1).toLowerCase()] ?? null;
+
+const isTarFile = (entry: TarEntry): boolean =>
+  entry.header.type === 'file' || entry.header.type === 'contiguous-file';
+
+async function openZip(archive: StoredArchive): Promise<yauzl.ZipFile> {
+  const reader = new StorageReader(archive.storage, archive.key);
+  return yauzl.fromRandomAccessReaderPromise(reader, archive.size, { lazyEntries: true });
+}
+
+function openTar(archive: StoredArchive): { content: Readable; entries: AsyncIterator<TarEntry> } {
+  const extractor = extract();
+  const content = lazyReadable(async () => decompress(await archive.storage.createReadStream(archive.key), archive.compression));
+  pipeline(content, extractor, () => undefined);
+  return { content, entries: extractor[Symbol.asyncIterator]() };
+}
+
+/**
+ * Lists the files of a zip or tar archive, skipping directories.
+ */
+export async function listArchiveMembers(archive: StoredArchive): Promise<ArchiveMember[]> {
+  const members: ArchiveMember[] = [];
+
+  if (archive.format === 'zip') {
+    const zipfile = await openZip(archive);
+    for await (const entry of zipfile.eachEntry()) {
+      if (!entry.fileName.endsWith('/')) {
+        members.push({ path: entry.fileName, size: entry.uncompressedSize, format: archiveMemberFormat(entry.fileName) });
+      }
+    }
+    return members;
+  }
+
+  const { content, entries } = openTar(archive);
+  try {
+    for (let next = await entries.next(); !next.done; next = await entries.next()) {
+      const entry = next.value;
+      if (isTarFile(entry)) {
+        members.push({ path: entry.header.name, size: entry.header.size, format: archiveMemberFormat(entry.header.name) });
+      }
+      // Skips the entry's content
+      entry.resume();
+    }
+  } finally {
+    content.destroy();
+  }
+  return members;
+}
+
+/**
+ * Opens the content of one archive member. Returns null when the archive has no file at that path.
+ * Tar archives are read up to the member; destroying the returned stream stops reading the archive.
+ */
+export async function openArchiveMember(archive: StoredArchive, memberPath: string): Promise<OpenedMember | null> {
+  if (archive.format === 'zip') {
+    const zipfile = await openZip(archive);
+    for await (const entry of zipfile.eachEntry()) {
+      if (entry.fileName === memberPath) {
+        return { stream: await zipfile.openReadStreamPromise(entry), size: entry.uncompressedSize };
+      }
+    }
+    return null;
+  }
+
+  const { content, entries } = openTar(archive);
+  try {
+    for (let next = await entries.next(); !next.done; next = await entries.next()) {
+      const entry = next.value;
+      if (isTarFile(entry) && entry.header.name === memberPath) {
+        const stream = Readable.from((async function* () {
+          try {
+            yield* entry;
+          } finally {
+            content.destroy();
+          }
+        })());
+        return { stream, size: entry.header.size };
+      }
+      entry.resume();
+    }
+  } catch (error) {
+    content.destroy();
+    throw error;
+  }
+  content.destroy();
+  return null;
+}
@@ -0,0 +1,248 @@
+import type { Readable } from 'stream';
+import { readLines } from './preview/lines';
+
+export type ArffAttributeType =
+  | { kind: 'numeric' }
+  | { kind: 'nominal'; values: string[] }
+  | { kind: 'string' }
+  // A null format means the ARFF default, ISO-8601 `yyyy-MM-dd'T'HH:mm:ss`
+  | { kind: 'date'; format: string | null };
+
+export interface ArffAttribute {
+  name: string;
+  type: ArffAttributeType;
+}
+
+export interface ArffHeader {
+  relation: string | null;
+  attributes: ArffAttribute[];
+}
+
+export type ArffValue = string | number | null;
+
+export interface ArffDataLine {
+  text: string;
+  // 1-based line number in the file
+  line: number;
+  start: number;
+  end: number;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+/**
+ * Splits text on a delimiter, ignoring delimiters inside single or double quotes and braces.
+ * Pieces are trimmed but keep their quotes.
+ */
+function splitOutsideQuotes(text: string, delimiter: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let braces = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      current += char;
+      if (char === '\\' && i + 1 < text.length) {
+        current += text[++i];
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '\'' || char === '"') {
+      quote = char;
+      current += char;
+    } else if (char === delimiter && braces === 0) {
+      pieces.push(current.trim());
+      current = '';
+    } else {
+      if (char === '{') braces++;
+      if (char === '}') braces--;
+      current += char;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated quoted value in "${text}"`);
+  }
+  pieces.push(current.trim());
+  return pieces;
+}
+
+/**
+ * Removes the quotes around a value and resolves backslash escapes inside them.
+ */
+function unquote(raw: string): { value: string; quoted: boolean } {
+  const quote = raw[0];
+  if ((quote !== '\'' && quote !== '"') || raw.length < 2 || raw[raw.length - 1] !== quote) {
+    return { value: raw, quoted: false };
+  }
+
+  const inner = raw.slice(1, -1);
+  const value = inner.replace(/\\(.)/g, (_match, char: string) => ESCAPES[char] ?? char);
+  return { value, quoted: true };
+}
+
+/**
+ * Reads a possibly quoted name from the start of the text and returns it with the remaining text.
+ */
+function readName(text: string): { name: string; rest: string } {
+  const match = /^('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|\S+)\s*(.*)$/.exec(text);
+  if (!match) {
+    throw new Error(`Missing name in "${text}"`);
+  }
+  return { name: unquote(match[1]).value, rest: match[2] };
+}
+
+function parseAttributeType(spec: string): ArffAttributeType {
+  if (spec.startsWith('{')) {
+    if (!spec.endsWith('}')) {
+      throw new Error(`Unterminated nominal values "${spec}"`);
+    }
+    const values = splitOutsideQuotes(spec.slice(1, -1), ',')
+      .filter(value => value !== '')
+      .map(value => unquote(value).value);
+    return { kind: 'nominal', values };
+  }
+
+  const [keyword, ...format] = spec.split(/\s+/);
+  switch (keyword.toLowerCase()) {
+    case 'numeric':
+    case 'integer':
+    case 'real':
+      return { kind: 'numeric' };
+    case 'string':
+      return { kind: 'string' };
+    case 'date':
+      return { kind: 'date', format: format.length > 0 ? unquote(format.join(' ')).value : null };
+    default:
+      throw new Error(`Unsupported attribute type "${spec}"`);
+  }
+}
+
+/**
+ * Applies an `@relation` or `@attribute` declaration to the header.
+ * Returns false for lines that are not header declarations.
+ */
+export function parseArffDeclaration(line: string, header: ArffHeader): boolean {
+  const match = /^@(relation|attribute)\s+(.*)$/i.exec(line);
+  if (!match) {
+    return false;
+  }
+
+  const { name, rest } = readName(match[2]);
+  if (match[1].toLowerCase() === 'relation') {
+    header.relation = name;
+  } else {
+    header.attributes.push({ name, type: parseAttributeType(rest) });
+  }
+  return true;
+}
+
+function convertValue(raw: string, attribute: ArffAttribute): ArffValue {
+  const { value, quoted } = unquote(raw);
+  if (!quoted && value === '?') {
+    return null;
+  }
+
+  switch (attribute.type.kind) {
+    case 'numeric': {
+      const num = Number(value);
+      if (value === '' || isNaN(num)) {
+        throw new Error(`Value "${value}" of attribute ${attribute.name} is not numeric`);
+      }
+      return num;
+    }
+    case 'nominal':
+      if (!attribute.type.values.includes(value)) {
+        throw new Error(`Value "${value}" is not one of the declared values of attribute ${attribute.name}`);
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+// Omitted sparse values are zero: the number 0, or the first declared nominal value
+function sparseDefault(attribute: ArffAttribute): ArffValue {
+  switch (attribute.type.kind) {
+    case 'numeric':
+      return 0;
+    case 'nominal':
+      return attribute.type.values[0] ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a dense or sparse (`{index value, ...}`) data row against the declared attributes.
+ * A trailing `{weight}` instance weight is ignored.
+ */
+export function parseArffRow(line: string, attributes: ArffAttribute[]): ArffValue[] {
+  const pieces = splitOutsideQuotes(line, ',');
+
+  if (line.startsWith('{')) {
+    const sparse = pieces[0];
+    if (!sparse.endsWith('}')) {
+      throw new Error('Unterminated sparse row');
+    }
+
+    const row = attributes.map(sparseDefault);
+    const entries = splitOutsideQuotes(sparse.slice(1, -1), ',').filter(entry => entry !== '');
+    for (const entry of entries) {
+      const match = /^(\d+)\s+(.+)$/.exec(entry);
+      const index = match ? Number(match[1]) : NaN;
+      if (!match || index >= attributes.length) {
+        throw new Error(`Invalid sparse entry "${entry}"`);
+      }
+      row[index] = convertValue(match[2], attributes[index]);
+    }
+    return row;
+  }
+
+  const weight = pieces[pieces.length - 1];
+  if (pieces.length === attributes.length + 1 && weight.startsWith('{') && weight.endsWith('}')) {
+    pieces.pop();
+  }
+  if (pieces.length !== attributes.length) {
+    throw new Error(`Expected ${attributes.length} values but found ${pieces.length}`);
+  }
+  return pieces.map((piece, i) => convertValue(piece, attributes[i]));
+}
+
+/**
+ * Reads the ARFF header of a stream and returns the data lines after `@data`, skipping blank lines and comments.
+ * Data lines are parsed separately with `parseArffRow` so callers only pay for the rows they use.
+ */
+export async function openArff(stream: Readable): Promise<{ header: ArffHeader; lines: AsyncGenerator<ArffDataLine> }> {
+  const header: ArffHeader = { relation: null, attributes: [] };
+  let lineNumber = 0;
+
+  async function* contentLines(): AsyncGenerator<ArffDataLine> {
+    for await (const line of readLines(stream)) {
+      lineNumber++;
+      const text = line.value.trim();
+      if (text && !text.startsWith('%')) {
+        yield { text, line: lineNumber, start: line.start, end: line.end };
+      }
+    }
+  }
+
+  const lines = contentLines();
+  for (let next = await lines.next(); !next.done; next = await lines.next()) {
+    const { text, line } = next.value;
+    if (text.toLowerCase() === '@data') {
+      return { header, lines };
+    }
+    try {
+      if (!parseArffDeclaration(text, header)) {
+        throw new Error(`Unexpected "${text}" before @data`);
+      }
+    } catch (error) {
+      throw new Error(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  throw new Error('Missing @data section');
+}
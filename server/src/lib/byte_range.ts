@@ -0,0 +1,47 @@
+import { type ByteRange } from './storage';
+
+/**
+ * Thrown when a Range header cannot be satisfied for a file of the given size.
+ */
+export class RangeNotSatisfiableError extends Error {
+  constructor(readonly size: number) {
+    super(`Requested range not satisfiable for ${size} bytes`);
+    this.name = 'RangeNotSatisfiableError';
+  }
+}
+
+/**
+ * Parses a single `bytes=` range against a file size.
+ * Returns null when the whole file should be sent: no header, a malformed header or multiple ranges,
+ * which RFC 9110 allows a server to ignore.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | null {
+  if (!header) {
+    return null;
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  const [, first, last] = match;
+
+  // Suffix range: the last N bytes
+  if (first === '') {
+    const length = Number(last);
+    if (length === 0 || size === 0) {
+      throw new RangeNotSatisfiableError(size);
+    }
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(first);
+  if (last !== '' && Number(last) < start) {
+    return null;
+  }
+  if (start >= size) {
+    throw new RangeNotSatisfiableError(size);
+  }
+  return { start, end: last === '' ? size - 1 : Math.min(Number(last), size - 1) };
+}
@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { checklistTemplatesTable } from '../db/schema';
+import { type ChecklistAnswer, type ChecklistItem, type ChecklistResult, type CurationReview } from '../schema';
+import { eq, isNull } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+
+// Applies when no template has been configured
+export const DEFAULT_CHECKLIST: ChecklistItem[] = [
+  { key: 'license_valid', label: 'License is valid and permits the intended use', required: true },
+  { key: 'description_adequate', label: 'Description explains what the data is and how it was collected', required: true },
+  { key: 'files_validated', label: 'Files passed validation or their warnings are explained', required: true },
+  { key: 'personal_data_removed', label: 'Personal data has been removed or anonymised', required: true }
+];
+
+/**
+ * The checklist items of the domain's template, falling back to the default template and then the built-in one.
+ */
+export async function findChecklistItems(domain: string): Promise<ChecklistItem[]> {
+  const [own] = await db.select()
+    .from(checklistTemplatesTable)
+    .where(eq(checklistTemplatesTable.domain, domain))
+    .execute();
+  if (own) {
+    return own.items;
+  }
+
+  const [fallback] = await db.select()
+    .from(checklistTemplatesTable)
+    .where(isNull(checklistTemplatesTable.domain))
+    .execute();
+  return fallback?.items ?? DEFAULT_CHECKLIST;
+}
+
+/**
+ * Matches a reviewer's answers to the checklist items. Every item has to be answered exactly once, and
+ * approving reviews have to tick all required items.
+ */
+export function answerChecklist(
+  items: ChecklistItem[],
+  answers: ChecklistAnswer[],
+  status: CurationReview['status']
+): ChecklistResult[] {
+  const keys = new Set(items.map(item => item.key));
+  const unknown = answers.filter(answer => !keys.has(answer.key)).map(answer => answer.key);
+  if (unknown.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Unknown checklist items: ${unknown.join(', ')}` });
+  }
+
+  const answered = new Map(answers.map(answer => [answer.key, answer]));
+  if (answered.size !== answers.length) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Checklist items can only be answered once' });
+  }
+
+  const missing = items.filter(item => !answered.has(item.key)).map(item => item.key);
+  if (missing.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Checklist items not answered: ${missing.join(', ')}` });
+  }
+
+  const results = items.map(item => {
+    const answer = answered.get(item.key)!;
+    return { ...item, checked: answer.checked, comment: answer.comment ?? null };
+  });
+
+  const unticked = results.filter(result => result.required && !result.checked).map(result => result.key);
+  if (status === 'approved' && unticked.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Required checklist items are not ticked: ${unticked.join(', ')}` });
+  }
+
+  return results;
+}
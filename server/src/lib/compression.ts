@@ -0,0 +1,73 @@
+import { pipeline, Transform, type Readable, type TransformCallback } from 'stream';
+import { createGunzip } from 'zlib';
+import unbzip2 from 'unbzip2-stream';
+import { type FileCompression } from '../schema';
+import { ByteCounter } from './streams';
+
+// Suffixes of single-file compressed names, e.g. `data.csv.gz`
+export const COMPRESSION_BY_EXTENSION: Record<string, FileCompression> = {
+  gz: 'gzip',
+  bz2: 'bzip2'
+};
+
+/**
+ * Most bytes a compressed file may expand to when read in full, set by MAX_DECOMPRESSED_SIZE.
+ * Keeps small archives of repetitive content from occupying the server for long.
+ */
+export const maxDecompressedSize = (): number => Number(process.env['MAX_DECOMPRESSED_SIZE'] || 1024 * 1024 * 1024);
+
+const GZIP_MAGIC = Buffer.from([0x1f, 0x8b]);
+const BZIP2_MAGIC = Buffer.from('BZh');
+
+/**
+ * Recognises gzip and bzip2 data by its leading magic bytes.
+ */
+export function detectCompression(head: Buffer): FileCompression | null {
+  if (head.subarray(0, GZIP_MAGIC.length).equals(GZIP_MAGIC)) {
+    return 'gzip';
+  }
+  // The magic is followed by the block size, a digit from 1 to 9
+  if (head.subarray(0, BZIP2_MAGIC.length).equals(BZIP2_MAGIC) && head[3] >= 0x31 && head[3] <= 0x39) {
+    return 'bzip2';
+  }
+  return null;
+}
+
+/**
+ * Adapts the classic stream of unbzip2-stream to a Transform usable with `pipeline`.
+ */
+class Bunzip2 extends Transform {
+  private readonly decoder = unbzip2();
+
+  constructor() {
+    super();
+    this.decoder.on('data', (chunk: Buffer) => this.push(chunk));
+    this.decoder.on('error', (error: Error) => this.destroy(new Error(`Invalid bzip2 data: ${error.message}`)));
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.decoder.write(chunk);
+    callback();
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.decoder.once('end', () => callback());
+    this.decoder.end();
+  }
+}
+
+/**
+ * Returns the decompressed content of a stream; uncompressed streams are returned as is.
+ * The content fails once it exceeds `maxBytes`. Destroying the result also destroys the source.
+ */
+export function decompress(stream: Readable, compression: FileCompression | null, maxBytes: number = Infinity): Readable {
+  if (!compression) {
+    return stream;
+  }
+  const decoder = compression === 'gzip' ? createGunzip() : new Bunzip2();
+  if (maxBytes === Infinity) {
+    return pipeline(stream, decoder, () => undefined);
+  }
+  const limit = new ByteCounter(maxBytes, `Decompressed content exceeds ${maxBytes} bytes`);
+  return pipeline(stream, decoder, limit, () => undefined);
+}
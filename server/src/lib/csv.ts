@@ -0,0 +1,261 @@
+import type { Readable } from 'stream';
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export type CsvDelimiter = typeof CSV_DELIMITERS[number];
+
+// windows-1252 is what browsers and TextDecoder use for "latin1" content
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface CsvDialect {
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  hasBOM: boolean;
+}
+
+export interface CsvRecord {
+  fields: string[];
+  // 1-based line the record starts on
+  line: number;
+  // Byte range of the record in the file, including its line break
+  start: number;
+  end: number;
+}
+
+// Bytes inspected to detect the encoding and delimiter
+const SNIFF_BYTES = 64 * 1024;
+const SNIFF_RECORDS = 20;
+
+const BOMS: { encoding: CsvEncoding; bytes: number[] }[] = [
+  { encoding: 'utf-8', bytes: [0xef, 0xbb, 0xbf] },
+  { encoding: 'utf-16le', bytes: [0xff, 0xfe] },
+  { encoding: 'utf-16be', bytes: [0xfe, 0xff] }
+];
+
+/**
+ * Detects the encoding from a byte order mark, falling back to windows-1252
+ * when the sample is not valid UTF-8.
+ * `complete` tells whether the sample is the whole file, so a cut multi-byte sequence at its end is not an error.
+ */
+export function detectEncoding(sample: Buffer, complete = false): { encoding: CsvEncoding; hasBOM: boolean } {
+  for (const bom of BOMS) {
+    if (bom.bytes.every((byte, i) => sample[i] === byte)) {
+      return { encoding: bom.encoding, hasBOM: true };
+    }
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: !complete });
+    return { encoding: 'utf-8', hasBOM: false };
+  } catch (error) {
+    return { encoding: 'windows-1252', hasBOM: false };
+  }
+}
+
+/**
+ * Counts the delimiter outside quoted fields in each of the first records of the sample.
+ */
+function delimiterCounts(sample: string, delimiter: string, complete: boolean): number[] {
+  const counts: number[] = [];
+  let count = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < sample.length && counts.length < SNIFF_RECORDS; i++) {
+    const char = sample[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === delimiter) {
+      count++;
+    } else if (!inQuotes && char === '\n') {
+      counts.push(count);
+      count = 0;
+    }
+  }
+
+  // A trailing record without a line break only counts when it is not cut off by the sample
+  if (counts.length < SNIFF_RECORDS && (complete || counts.length === 0) && count > 0) {
+    counts.push(count);
+  }
+  return counts;
+}
+
+/**
+ * Picks the delimiter that splits the sample into the most records with the same number of columns as the header,
+ * preferring more columns on a tie. Falls back to a comma.
+ */
+export function detectDelimiter(sample: string, complete = false): CsvDelimiter {
+  let best: { delimiter: CsvDelimiter; consistent: number; columns: number } = { delimiter: ',', consistent: 0, columns: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = delimiterCounts(sample, delimiter, complete);
+    if (counts.length === 0 || counts[0] === 0) {
+      continue;
+    }
+    const consistent = counts.filter(count => count === counts[0]).length;
+    if (consistent > best.consistent || (consistent === best.consistent && counts[0] > best.columns)) {
+      best = { delimiter, consistent, columns: counts[0] };
+    }
+  }
+
+  return best.delimiter;
+}
+
+type ParserState = 'field_start' | 'unquoted' | 'quoted' | 'quote_in_quoted';
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may contain delimiters, line breaks and `""` escaped quotes.
+ * Accepts LF, CRLF and CR line breaks and skips blank lines.
+ * Text is fed with `push` in arbitrary pieces; byte offsets are tracked for the given encoding.
+ */
+export class CsvParser {
+  private state: ParserState = 'field_start';
+  private field = '';
+  private fields: string[] = [];
+  private previousChar = '';
+  private line = 1;
+  private recordLine = 1;
+  private recordStart: number;
+  private position: number;
+  private quoteLine = 0;
+
+  constructor(
+    private readonly delimiter: CsvDelimiter = ',',
+    private readonly encoding: CsvEncoding = 'utf-8',
+    startOffset = 0
+  ) {
+    this.position = startOffset;
+    this.recordStart = startOffset;
+  }
+
+  private charBytes(code: number): number {
+    if (this.encoding === 'windows-1252') return 1;
+    if (this.encoding !== 'utf-8') return 2;
+    if (code < 0x80) return 1;
+    if (code < 0x800) return 2;
+    // Each half of a surrogate pair accounts for half of the 4-byte sequence
+    if (code >= 0xd800 && code <= 0xdfff) return 2;
+    return 3;
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.state = 'field_start';
+  }
+
+  private endRecord(records: CsvRecord[]): void {
+    this.endField();
+    const blank = this.fields.length === 1 && this.fields[0].trim() === '';
+    if (!blank) {
+      records.push({ fields: this.fields, line: this.recordLine, start: this.recordStart, end: this.position });
+    }
+    this.fields = [];
+    this.recordStart = this.position;
+    this.recordLine = this.line;
+  }
+
+  push(text: string): CsvRecord[] {
+    const records: CsvRecord[] = [];
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      const afterCR = this.previousChar === '\r';
+      this.previousChar = char;
+      this.position += this.charBytes(text.charCodeAt(i));
+
+      const lineBreak = char === '\r' || char === '\n';
+      if (char === '\r' || (char === '\n' && !afterCR)) {
+        this.line++;
+      }
+
+      if (this.state === 'quoted') {
+        if (char === '"') {
+          this.state = 'quote_in_quoted';
+        } else {
+          this.field += char;
+        }
+      } else if (this.state === 'quote_in_quoted' && char === '"') {
+        this.field += '"';
+        this.state = 'quoted';
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' && afterCR && this.state === 'field_start' && this.fields.length === 0 && this.field === '') {
+        // Second half of a CRLF that already ended the record
+        this.recordStart = this.position;
+      } else if (lineBreak) {
+        this.endRecord(records);
+      } else if (char === '"' && this.state === 'field_start') {
+        this.state = 'quoted';
+        this.quoteLine = this.line;
+      } else {
+        // Text after a closing quote is kept as is, like most spreadsheet tools do
+        this.field += char;
+        this.state = 'unquoted';
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Flushes the last record when the input does not end with a line break.
+   */
+  end(): CsvRecord[] {
+    if (this.state === 'quoted') {
+      throw new Error(`Unterminated quoted field starting on line ${this.quoteLine}`);
+    }
+    const records: CsvRecord[] = [];
+    if (this.state !== 'field_start' || this.fields.length > 0) {
+      this.endRecord(records);
+    }
+    return records;
+  }
+}
+
+/**
+ * Detects the dialect of a CSV stream from its first bytes and returns the parsed records.
+ * Explicit options override the detected delimiter and encoding.
+ */
+export async function openCsv(
+  stream: Readable,
+  options: { delimiter?: CsvDelimiter; encoding?: CsvEncoding } = {}
+): Promise<{ dialect: CsvDialect; records: AsyncGenerator<CsvRecord> }> {
+  const chunks: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]();
+
+  const head: Buffer[] = [];
+  let headLength = 0;
+  let complete = false;
+  while (headLength < SNIFF_BYTES) {
+    const next = await chunks.next();
+    if (next.done) {
+      complete = true;
+      break;
+    }
+    head.push(next.value);
+    headLength += next.value.length;
+  }
+
+  const sample = Buffer.concat(head);
+  const detected = detectEncoding(sample, complete);
+  const encoding = options.encoding ?? detected.encoding;
+  const hasBOM = detected.hasBOM && encoding === detected.encoding;
+
+  // The decoder drops the byte order mark
+  const decoder = new TextDecoder(encoding);
+  const sampleText = decoder.decode(sample, { stream: true });
+  const delimiter = options.delimiter ?? detectDelimiter(sampleText, complete);
+
+  const bomLength = hasBOM ? BOMS.find(bom => bom.encoding === encoding)!.bytes.length : 0;
+  const parser = new CsvParser(delimiter, encoding, bomLength);
+
+  async function* records(): AsyncGenerator<CsvRecord> {
+    yield* parser.push(sampleText);
+    for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+      yield* parser.push(decoder.decode(next.value, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    yield* parser.end();
+  }
+
+  return { dialect: { delimiter, encoding, hasBOM }, records: records() };
+}
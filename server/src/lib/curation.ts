@@ -0,0 +1,152 @@
+import { db } from '../db';
+import { curationPoliciesTable, curationReviewsTable, datasetsTable, usersTable } from '../db/schema';
+import { type CurationOutcome, type CurationPolicy, type CurationReview, type Dataset, type UserRole } from '../schema';
+import { and, asc, eq, inArray, isNull } from 'drizzle-orm';
+import { type Executor } from './dataset_versions';
+
+export type CurationRules = Pick<CurationPolicy, 'required_approvals' | 'rejection_blocks' | 'admin_override'>;
+
+// Applies when no policy has been configured, matching a single curator's decision
+export const DEFAULT_CURATION_POLICY: CurationRules = {
+  required_approvals: 1,
+  rejection_blocks: true,
+  admin_override: true
+};
+
+export interface RoundReview {
+  reviewer_id: number;
+  reviewer_role: UserRole;
+  status: CurationReview['status'];
+}
+
+/**
+ * The policy configured for the domain, falling back to the configured default and then the built-in one.
+ */
+export async function findCurationPolicy(domain: string, executor: Executor = db): Promise<CurationRules> {
+  const [own] = await executor.select()
+    .from(curationPoliciesTable)
+    .where(eq(curationPoliciesTable.domain, domain))
+    .execute();
+  if (own) {
+    return own;
+  }
+
+  const [fallback] = await executor.select()
+    .from(curationPoliciesTable)
+    .where(isNull(curationPoliciesTable.domain))
+    .execute();
+  return fallback ?? DEFAULT_CURATION_POLICY;
+}
+
+/**
+ * Loads all curation policies at once for callers deciding many datasets, and returns the policy lookup of
+ * `findCurationPolicy` over them.
+ */
+export async function loadCurationPolicies(): Promise<(domain: string) => CurationRules> {
+  const policies = await db.select().from(curationPoliciesTable).execute();
+  const fallback = policies.find(policy => policy.domain === null) ?? DEFAULT_CURATION_POLICY;
+  return domain => policies.find(policy => policy.domain === domain) ?? fallback;
+}
+
+/**
+ * Reviews of the current review round of each of the datasets, oldest first, keyed by dataset id.
+ */
+export async function getRoundReviewsByDataset(datasetIds: number[]): Promise<Map<number, RoundReview[]>> {
+  const byDataset = new Map<number, RoundReview[]>(datasetIds.map(id => [id, []]));
+  if (datasetIds.length === 0) {
+    return byDataset;
+  }
+
+  const reviews = await db.select({
+    dataset_id: curationReviewsTable.dataset_id,
+    reviewer_id: curationReviewsTable.reviewer_id,
+    reviewer_role: usersTable.role,
+    status: curationReviewsTable.status
+  })
+    .from(curationReviewsTable)
+    .innerJoin(usersTable, eq(curationReviewsTable.reviewer_id, usersTable.id))
+    .innerJoin(datasetsTable, and(
+      eq(curationReviewsTable.dataset_id, datasetsTable.id),
+      eq(curationReviewsTable.round, datasetsTable.review_round)
+    ))
+    .where(inArray(curationReviewsTable.dataset_id, datasetIds))
+    .orderBy(asc(curationReviewsTable.id))
+    .execute();
+
+  for (const { dataset_id, ...review } of reviews) {
+    byDataset.get(dataset_id)?.push(review);
+  }
+  return byDataset;
+}
+
+/**
+ * Reviews of the dataset's current review round, oldest first.
+ */
+export async function getRoundReviews(dataset: Pick<Dataset, 'id' | 'review_round'>, executor: Executor = db): Promise<RoundReview[]> {
+  return await executor.select({
+    reviewer_id: curationReviewsTable.reviewer_id,
+    reviewer_role: usersTable.role,
+    status: curationReviewsTable.status
+  })
+    .from(curationReviewsTable)
+    .innerJoin(usersTable, eq(curationReviewsTable.reviewer_id, usersTable.id))
+    .where(and(eq(curationReviewsTable.dataset_id, dataset.id), eq(curationReviewsTable.round, dataset.review_round)))
+    .orderBy(asc(curationReviewsTable.id))
+    .execute();
+}
+
+/**
+ * Decides a review round under a policy. Each reviewer counts once per decision. With admin override the
+ * latest admin decision settles the round; otherwise a blocking rejection rejects it, any request for changes
+ * returns it to the contributor, and approvals settle it once they reach the quorum and outnumber rejections.
+ * Without blocking, rejections settle it the same way, and rounds where neither side prevails stay pending
+ * as a conflict.
+ */
+export function evaluateCuration(policy: CurationRules, reviews: RoundReview[]): CurationOutcome {
+  const reviewers = (status: RoundReview['status']): number =>
+    new Set(reviews.filter(review => review.status === status).map(review => review.reviewer_id)).size;
+
+  const approvals = reviewers('approved');
+  const changesRequested = reviewers('changes_requested');
+  const rejections = reviewers('rejected');
+  const outcome = (decision: CurationOutcome['decision'], conflict = false): CurationOutcome => ({
+    decision,
+    approvals,
+    changes_requested: changesRequested,
+    rejections,
+    required_approvals: policy.required_approvals,
+    conflict
+  });
+
+  if (policy.admin_override) {
+    const adminDecision = reviews.filter(review => review.reviewer_role === 'admin' && review.status !== 'pending').at(-1);
+    if (adminDecision) {
+      return outcome(adminDecision.status);
+    }
+  }
+
+  if (policy.rejection_blocks && rejections > 0) {
+    return outcome('rejected');
+  }
+  if (changesRequested > 0) {
+    return outcome('changes_requested');
+  }
+  if (approvals >= policy.required_approvals && approvals > rejections) {
+    return outcome('approved');
+  }
+  if (!policy.rejection_blocks && rejections >= policy.required_approvals && rejections > approvals) {
+    return outcome('rejected');
+  }
+  return outcome('pending', approvals > 0 && rejections > 0);
+}
+
+/**
+ * The decision the current review round of the dataset amounts to under its domain's policy.
+ */
+export async function getDatasetCurationOutcome(
+  dataset: Pick<Dataset, 'id' | 'domain' | 'review_round'>,
+  executor: Executor = db
+): Promise<CurationOutcome> {
+  const [policy, reviews] = await Promise.all([findCurationPolicy(dataset.domain, executor), getRoundReviews(dataset, executor)]);
+  return evaluateCuration(policy, reviews);
+}
@@ -0,0 +1,72 @@
+import { db } from '../db';
+import { datasetStatusHistoryTable, datasetsTable, reviewAssignmentsTable } from '../db/schema';
+import { type CurationQueueItem } from '../schema';
+import { and, asc, eq, inArray, max } from 'drizzle-orm';
+import { evaluateCuration, getRoundReviewsByDataset, loadCurationPolicies } from './curation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days curation has to decide a submission in before it is flagged as overdue
+export const reviewSlaDays = (): number => Number(process.env['REVIEW_SLA_DAYS'] || 14);
+
+/**
+ * Datasets in review whose current round has not reached a decision, longest waiting first.
+ * Submission time is when the dataset last entered review; datasets that entered review before status
+ * history was recorded count from their last update.
+ */
+export async function loadCurationQueue(now: Date = new Date(), slaDays: number = reviewSlaDays()): Promise<CurationQueueItem[]> {
+  const datasets = await db.select()
+    .from(datasetsTable)
+    .where(eq(datasetsTable.status, 'review'))
+    .orderBy(asc(datasetsTable.id))
+    .execute();
+
+  if (datasets.length === 0) {
+    return [];
+  }
+  const ids = datasets.map(dataset => dataset.id);
+
+  const submissions = await db.select({
+    dataset_id: datasetStatusHistoryTable.dataset_id,
+    submitted_at: max(datasetStatusHistoryTable.created_at)
+  })
+    .from(datasetStatusHistoryTable)
+    .where(and(inArray(datasetStatusHistoryTable.dataset_id, ids), eq(datasetStatusHistoryTable.to_status, 'review')))
+    .groupBy(datasetStatusHistoryTable.dataset_id)
+    .execute();
+
+  const assignments = await db.select()
+    .from(reviewAssignmentsTable)
+    .where(inArray(reviewAssignmentsTable.dataset_id, ids))
+    .orderBy(asc(reviewAssignmentsTable.id))
+    .execute();
+
+  const [policyFor, reviews] = await Promise.all([loadCurationPolicies(), getRoundReviewsByDataset(ids)]);
+
+  const items: CurationQueueItem[] = [];
+  for (const dataset of datasets) {
+    const outcome = evaluateCuration(policyFor(dataset.domain), reviews.get(dataset.id) ?? []);
+    if (outcome.decision !== 'pending') {
+      continue;
+    }
+
+    const submittedAt = submissions.find(submission => submission.dataset_id === dataset.id)?.submitted_at ?? dataset.updated_at;
+    const dueAt = new Date(submittedAt.getTime() + slaDays * DAY_MS);
+
+    items.push({
+      dataset_id: dataset.id,
+      title: dataset.title,
+      domain: dataset.domain,
+      contributor_id: dataset.contributor_id,
+      review_round: dataset.review_round,
+      submitted_at: submittedAt,
+      age_days: Math.floor((now.getTime() - submittedAt.getTime()) / DAY_MS),
+      sla_due_at: dueAt,
+      sla_breached: now > dueAt,
+      reviewer_ids: assignments.filter(assignment => assignment.dataset_id === dataset.id).map(assignment => assignment.reviewer_id),
+      outcome
+    });
+  }
+
+  return items.sort((a, b) => a.submitted_at.getTime() - b.submitted_at.getTime() || a.dataset_id - b.dataset_id);
+}
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { accessRequestsTable, datasetFilesTable, datasetsTable } from '../db/schema';
+import { type AuthUser, type Dataset, type DatasetFile } from '../schema';
+import { and, eq, gt, ne, or, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from './roles';
+import { type Executor } from './dataset_versions';
+
+/**
+ * The caller a read is performed for; null means an anonymous caller.
+ */
+export type Viewer = AuthUser | null;
+
+type DatasetAccessFields = Pick<Dataset, 'id' | 'access_level' | 'contributor_id'>;
+
+export const isOwnerOrCurator = (viewer: Viewer, dataset: DatasetAccessFields): boolean =>
+  hasRole(viewer, 'curator') || (viewer !== null && viewer.id === dataset.contributor_id);
+
+/**
+ * Private datasets are visible only to their contributor, curators and admins.
+ * Public and restricted datasets expose their metadata to everyone.
+ */
+export function canViewDataset(viewer: Viewer, dataset: DatasetAccessFields): boolean {
+  if (dataset.access_level === 'private') {
+    return isOwnerOrCurator(viewer, dataset);
+  }
+  return true;
+}
+
+/**
+ * Checks whether the user holds an approved, unexpired access request for the dataset.
+ */
+export async function hasActiveAccessGrant(userId: number, datasetId: number): Promise<boolean> {
+  const grants = await db.select({ id: accessRequestsTable.id })
+    .from(accessRequestsTable)
+    .where(and(
+      eq(accessRequestsTable.dataset_id, datasetId),
+      eq(accessRequestsTable.requester_id, userId),
+      eq(accessRequestsTable.status, 'approved'),
+      gt(accessRequestsTable.expires_at, new Date())
+    ))
+    .limit(1)
+    .execute();
+
+  return grants.length > 0;
+}
+
+/**
+ * Restricted datasets gate their file contents behind the contributor, curators, admins
+ * and users holding an active access grant.
+ */
+export async function canAccessDatasetFiles(viewer: Viewer, dataset: DatasetAccessFields): Promise<boolean> {
+  if (dataset.access_level === 'public') {
+    return true;
+  }
+  if (isOwnerOrCurator(viewer, dataset)) {
+    return true;
+  }
+  if (dataset.access_level === 'restricted' && viewer !== null) {
+    return hasActiveAccessGrant(viewer.id, dataset.id);
+  }
+  return false;
+}
+
+/**
+ * SQL condition limiting a datasets query to rows the viewer may see.
+ * Returns undefined when the viewer can see every dataset.
+ */
+export function visibleDatasetsCondition(viewer: Viewer): SQL<unknown> | undefined {
+  if (hasRole(viewer, 'curator')) {
+    return undefined;
+  }
+  if (viewer === null) {
+    return ne(datasetsTable.access_level, 'private');
+  }
+  return or(
+    ne(datasetsTable.access_level, 'private'),
+    eq(datasetsTable.contributor_id, viewer.id)
+  )!;
+}
+
+/**
+ * Loads a dataset the viewer may see; an undefined viewer is a trusted internal call and sees every dataset.
+ * Hidden datasets are reported as NOT_FOUND so their existence is not revealed.
+ */
+export async function loadVisibleDataset(datasetId: number, viewer?: Viewer, executor: Executor = db): Promise<Dataset> {
+  const datasets = await executor.select()
+    .from(datasetsTable)
+    .where(eq(datasetsTable.id, datasetId))
+    .execute();
+
+  const dataset = datasets[0];
+  if (!dataset || (viewer !== undefined && !canViewDataset(viewer, dataset))) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with id ${datasetId} not found` });
+  }
+  return dataset;
+}
+
+/**
+ * Loads a dataset and checks that the viewer may read its files.
+ * Hidden datasets are reported as NOT_FOUND so their existence is not revealed.
+ */
+export async function assertDatasetFileAccess(datasetId: number, viewer: Viewer): Promise<Dataset> {
+  const dataset = await loadVisibleDataset(datasetId, viewer);
+
+  if (!(await canAccessDatasetFiles(viewer, dataset))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Files of this dataset are restricted' });
+  }
+
+  return dataset;
+}
+
+/**
+ * Loads a dataset file whose contents the viewer may read.
+ * Files of hidden datasets are reported as NOT_FOUND like missing files.
+ */
+export async function loadAccessibleDatasetFile(fileId: number, viewer: Viewer): Promise<DatasetFile> {
+  const files = await db.select()
+    .from(datasetFilesTable)
+    .where(eq(datasetFilesTable.id, fileId))
+    .execute();
+
+  const file = files[0];
+  if (!file) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `File with id ${fileId} not found` });
+  }
+
+  try {
+    await assertDatasetFileAccess(file.dataset_id, viewer);
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === 'NOT_FOUND') {
+      throw new TRPCError({ code: 'NOT_FOUND', message: `File with id ${fileId} not found` });
+    }
+    throw error;
+  }
+
+  return file;
+}
@@ -0,0 +1,127 @@
+import { db } from '../db';
+import { datasetFilesTable, datasetVersionFilesTable, datasetVersionsTable, datasetsTable } from '../db/schema';
+import { type Dataset, type DatasetVersion } from '../schema';
+import { and, eq, isNotNull, or, type SQL } from 'drizzle-orm';
+import { isOwnerOrCurator, type Viewer } from './dataset_access';
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+// Either the database or a transaction, for queries that may run inside a caller's transaction
+export type Executor = typeof db | Transaction;
+
+// Metadata frozen with each published version; access level and status remain properties of the dataset
+export const VERSIONED_FIELDS = [
+  'title',
+  'description',
+  'domain',
+  'task',
+  'license',
+  'doi',
+  'contributor_id',
+  'publication_year'
+] as const;
+
+/**
+ * Whether the current version of a dataset has been published, so any change has to start the next version.
+ */
+export const isVersionFrozen = (dataset: Pick<Dataset, 'version' | 'published_version'>): boolean =>
+  dataset.published_version === dataset.version;
+
+/**
+ * Records the current metadata and files of a dataset as its current version.
+ * Callers set the dataset's published_version in the same transaction.
+ */
+export async function freezeDatasetVersion(tx: Transaction, dataset: Dataset): Promise<DatasetVersion> {
+  const [version] = await tx.insert(datasetVersionsTable)
+    .values({
+      dataset_id: dataset.id,
+      version: dataset.version,
+      title: dataset.title,
+      description: dataset.description,
+      domain: dataset.domain,
+      task: dataset.task,
+      license: dataset.license,
+      doi: dataset.doi,
+      contributor_id: dataset.contributor_id,
+      publication_year: dataset.publication_year
+    })
+    .returning()
+    .execute();
+
+  const files = await tx.select({ id: datasetFilesTable.id })
+    .from(datasetFilesTable)
+    .where(eq(datasetFilesTable.dataset_id, dataset.id))
+    .execute();
+
+  if (files.length > 0) {
+    await tx.insert(datasetVersionFilesTable)
+      .values(files.map(file => ({ version_id: version.id, file_id: file.id })))
+      .execute();
+  }
+
+  return version;
+}
+
+export async function findDatasetVersion(datasetId: number, version: number): Promise<DatasetVersion | null> {
+  const versions = await db.select()
+    .from(datasetVersionsTable)
+    .where(and(eq(datasetVersionsTable.dataset_id, datasetId), eq(datasetVersionsTable.version, version)))
+    .execute();
+
+  return versions[0] ?? null;
+}
+
+/**
+ * Whether the viewer should see the live published version of a dataset rather than the revision in progress.
+ * Trusted internal calls, the contributor and curators work on the revision.
+ */
+export const servesLiveVersion = (dataset: Dataset, viewer?: Viewer): boolean =>
+  viewer !== undefined && dataset.live_version !== null && !isOwnerOrCurator(viewer, dataset);
+
+/**
+ * SQL condition matching published datasets, including those whose next version is being revised.
+ */
+export const publishedDatasetsCondition = (): SQL<unknown> =>
+  or(eq(datasetsTable.status, 'published'), isNotNull(datasetsTable.live_version))!;
+
+/**
+ * Replaces datasets under revision with their live published version for viewers who may not see the revision.
+ */
+export async function servedDatasets(datasets: Dataset[], viewer?: Viewer): Promise<Dataset[]> {
+  const revised = datasets.filter(dataset => servesLiveVersion(dataset, viewer));
+  if (revised.length === 0) {
+    return datasets;
+  }
+
+  const versions = await db.select()
+    .from(datasetVersionsTable)
+    .where(or(...revised.map(dataset => and(
+      eq(datasetVersionsTable.dataset_id, dataset.id),
+      eq(datasetVersionsTable.version, dataset.live_version!)
+    ))))
+    .execute();
+
+  return datasets.map(dataset => {
+    const live = servesLiveVersion(dataset, viewer)
+      ? versions.find(version => version.dataset_id === dataset.id && version.version === dataset.live_version)
+      : undefined;
+    return live ? datasetAtVersion(dataset, live) : dataset;
+  });
+}
+
+/**
+ * Presents a frozen version in the shape of the dataset. Access level is always the dataset's current one.
+ */
+export const datasetAtVersion = (dataset: Dataset, version: DatasetVersion): Dataset => ({
+  ...dataset,
+  title: version.title,
+  description: version.description,
+  domain: version.domain,
+  task: version.task,
+  license: version.license,
+  doi: version.doi,
+  status: 'published',
+  contributor_id: version.contributor_id,
+  publication_year: version.publication_year,
+  version: version.version,
+  updated_at: version.published_at
+});
@@ -0,0 +1,190 @@
+import * as path from 'path';
+import { buffer } from 'stream/consumers';
+import { type FileCompression } from '../schema';
+import { detectDelimiter, detectEncoding } from './csv';
+import { COMPRESSION_BY_EXTENSION, decompress, detectCompression } from './compression';
+import { readHead } from './streams';
+import { type StorageBackend } from './storage';
+
+export type DatasetFormat = 'csv' | 'tsv' | 'json' | 'jsonl' | 'arff' | 'parquet';
+
+// Formats that are read front to back as text
+export type TextFormat = Exclude<DatasetFormat, 'parquet'>;
+
+export type ArchiveFormat = 'zip' | 'tar';
+
+export type FileFormat = DatasetFormat | ArchiveFormat;
+
+export interface StoredFormat {
+  format: FileFormat;
+  // Compression around the whole file, e.g. gzip for `.csv.gz` and `.tar.gz`
+  compression: FileCompression | null;
+}
+
+// File extensions accepted for dataset files and the format each one claims
+export const FORMAT_BY_EXTENSION: Record<string, DatasetFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  json: 'json',
+  jsonl: 'jsonl',
+  ndjson: 'jsonl',
+  arff: 'arff',
+  parquet: 'parquet'
+};
+
+export const ARCHIVE_EXTENSIONS: Record<string, StoredFormat> = {
+  zip: { format: 'zip', compression: null },
+  tar: { format: 'tar', compression: null },
+  tgz: { format: 'tar', compression: 'gzip' },
+  tbz2: { format: 'tar', compression: 'bzip2' }
+};
+
+// File types datasets accept; archives are listed by their format, e.g. `tar` for a `.tgz` file
+export const ALLOWED_FILE_TYPES = [
+  ...Object.keys(FORMAT_BY_EXTENSION),
+  ...new Set(Object.values(ARCHIVE_EXTENSIONS).map(archive => archive.format))
+];
+
+const PARQUET_MAGIC = Buffer.from('PAR1');
+const ZIP_MAGICS = [Buffer.from('PK\x03\x04'), Buffer.from('PK\x05\x06')];
+// ustar archives carry their magic after the name, mode and other header fields
+const TAR_MAGIC = Buffer.from('ustar');
+const TAR_MAGIC_OFFSET = 257;
+
+// Bytes read from the start of a file to recognise its format
+const SNIFF_BYTES = 64 * 1024;
+
+const isParsableJSON = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Reads the format and compression a file name claims, e.g. `data.csv.gz` or `bundle.tgz`.
+ * The format is null when the name does not end in a supported extension.
+ */
+export function formatFromFilename(filename: string): { format: FileFormat | null; compression: FileCompression | null } {
+  let name = filename.toLowerCase();
+  let extension = path.extname(name).slice(1);
+
+  const archive = ARCHIVE_EXTENSIONS[extension];
+  if (archive) {
+    return archive;
+  }
+
+  const compression = COMPRESSION_BY_EXTENSION[extension] ?? null;
+  if (compression) {
+    name = name.slice(0, -(extension.length + 1));
+    extension = path.extname(name).slice(1);
+  }
+
+  const format = FORMAT_BY_EXTENSION[extension] ?? (extension === 'tar' ? 'tar' : null);
+  return { format, compression };
+}
+
+const startsWithAny = (head: Buffer, magics: Buffer[]): boolean =>
+  magics.some(magic => head.subarray(0, magic.length).equals(magic));
+
+const isTar = (head: Buffer): boolean =>
+  head.subarray(TAR_MAGIC_OFFSET, TAR_MAGIC_OFFSET + TAR_MAGIC.length).equals(TAR_MAGIC);
+
+/**
+ * Recognises the format of a text sample. Returns null for binary content.
+ * `hint` is the format claimed by the file name and breaks ties, e.g. a one-line JSON file, or a CSV file whose
+ * first cell starts with a bracket.
+ */
+export function sniffTextFormat(head: Buffer, complete: boolean, hint: DatasetFormat | null): DatasetFormat | null {
+  const { encoding } = detectEncoding(head, complete);
+  // NUL bytes do not occur in text outside of UTF-16
+  if (!encoding.startsWith('utf-16') && head.includes(0)) {
+    return null;
+  }
+
+  const text = new TextDecoder(encoding).decode(head);
+  const trimmed = text.trimStart();
+
+  // Blank content has nothing to tell formats apart by
+  if (trimmed === '' && hint) {
+    return hint;
+  }
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    // Only lines followed by a line break are known to be complete
+    const lines = text.split('\n');
+    if (!complete) {
+      lines.pop();
+    }
+    const records = lines.map(line => line.trim()).filter(line => line);
+    // A complete value on the first line cannot start a multi-line document
+    const lineDelimited = trimmed.startsWith('{') && records.length > 0 && isParsableJSON(records[0]);
+
+    // The first cell of a CSV or TSV file may start with a bracket; only JSON that parses overrides the name
+    if ((hint === 'csv' || hint === 'tsv') && !lineDelimited && !(complete && isParsableJSON(text))) {
+      return hint;
+    }
+    if (lineDelimited && (records.length > 1 || hint === 'jsonl')) {
+      return 'jsonl';
+    }
+    return 'json';
+  }
+
+  if (/^(%|@relation\b)/i.test(trimmed)) {
+    return 'arff';
+  }
+
+  return detectDelimiter(text, complete) === '\t' ? 'tsv' : 'csv';
+}
+
+/**
+ * Determines the format of a stored file from its content rather than its name.
+ * Compressed files are recognised by their magic bytes and sniffed after decompression; Parquet files are
+ * recognised by the magic bytes at both ends. Returns null when the content is not in a supported format,
+ * or is not Parquet or an archive although the name says so.
+ */
+export async function detectStoredFormat(
+  storage: StorageBackend,
+  key: string,
+  size: number,
+  hint: FileFormat | null
+): Promise<StoredFormat | null> {
+  const textHint = hint === 'zip' || hint === 'tar' || hint === 'parquet' ? null : hint;
+  if (size === 0) {
+    return textHint || !hint ? { format: textHint ?? 'csv', compression: null } : null;
+  }
+
+  const head = await buffer(await storage.createReadStream(key, { start: 0, end: Math.min(size, SNIFF_BYTES) - 1 }));
+
+  const compression = detectCompression(head);
+  if (compression) {
+    const content = decompress(await storage.createReadStream(key), compression);
+    const decompressed = await readHead(content, SNIFF_BYTES);
+    if (isTar(decompressed.head)) {
+      return { format: 'tar', compression };
+    }
+    const format = textHint || !hint ? sniffTextFormat(decompressed.head, decompressed.complete, textHint) : null;
+    return format ? { format, compression } : null;
+  }
+
+  if (startsWithAny(head, ZIP_MAGICS)) {
+    return { format: 'zip', compression: null };
+  }
+  if (isTar(head)) {
+    return { format: 'tar', compression: null };
+  }
+  if (size >= 2 * PARQUET_MAGIC.length && startsWithAny(head, [PARQUET_MAGIC])) {
+    const tail = await buffer(await storage.createReadStream(key, { start: size - PARQUET_MAGIC.length, end: size - 1 }));
+    if (tail.equals(PARQUET_MAGIC)) {
+      return { format: 'parquet', compression: null };
+    }
+  }
+
+  if (hint && !textHint) {
+    return null;
+  }
+  const format = sniffTextFormat(head, size <= SNIFF_BYTES, textHint);
+  return format ? { format, compression: null } : null;
+}
@@ -0,0 +1,127 @@
+export interface LicenseNotice {
+  name: string;
+  url: string | null;
+  text: string;
+}
+
+interface KnownLicense {
+  name: string;
+  url: string;
+  // Full text for short permissive licenses, the official notice for the longer ones
+  text: (holder: string, year: number) => string;
+}
+
+const MIT_TEXT = (holder: string, year: number) => `Copyright (c) ${year} ${holder}
+
+Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software and associated documentation files (the "Software"), to deal
+in the Software without restriction, including without limitation the rights
+to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+copies of the Software, and to permit persons to whom the Software is
+furnished to do so, subject to the following conditions:
+
+The above copyright notice and this permission notice shall be included in all
+copies or substantial portions of the Software.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+SOFTWARE.`;
+
+const BSD_3_CLAUSE_TEXT = (holder: string, year: number) => `Copyright (c) ${year} ${holder}
+
+Redistribution and use in source and binary forms, with or without
+modification, are permitted provided that the following conditions are met:
+
+1. Redistributions of source code must retain the above copyright notice, this
+   list of conditions and the following disclaimer.
+
+2. Redistributions in binary form must reproduce the above copyright notice,
+   this list of conditions and the following disclaimer in the documentation
+   and/or other materials provided with the distribution.
+
+3. Neither the name of the copyright holder nor the names of its
+   contributors may be used to endorse or promote products derived from
+   this software without specific prior written permission.
+
+THIS SOFTWARE IS PROVIDED BY THE COPYRIGHT HOLDERS AND CONTRIBUTORS "AS IS"
+AND ANY EXPRESS OR IMPLIED WARRANTIES, INCLUDING, BUT NOT LIMITED TO, THE
+IMPLIED WARRANTIES OF MERCHANTABILITY AND FITNESS FOR A PARTICULAR PURPOSE ARE
+DISCLAIMED. IN NO EVENT SHALL THE COPYRIGHT HOLDER OR CONTRIBUTORS BE LIABLE
+FOR ANY DIRECT, INDIRECT, INCIDENTAL, SPECIAL, EXEMPLARY, OR CONSEQUENTIAL
+DAMAGES (INCLUDING, BUT NOT LIMITED TO, PROCUREMENT OF SUBSTITUTE GOODS OR
+SERVICES; LOSS OF USE, DATA, OR PROFITS; OR BUSINESS INTERRUPTION) HOWEVER
+CAUSED AND ON ANY THEORY OF LIABILITY, WHETHER IN CONTRACT, STRICT LIABILITY,
+OR TORT (INCLUDING NEGLIGENCE OR OTHERWISE) ARISING IN ANY WAY OUT OF THE USE
+OF THIS SOFTWARE, EVEN IF ADVISED OF THE POSSIBILITY OF SUCH DAMAGE.`;
+
+const APACHE_2_NOTICE = (holder: string, year: number) => `Copyright ${year} ${holder}
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.`;
+
+const creativeCommons = (name: string, url: string, terms: string) => ({
+  name,
+  url,
+  text: (holder: string, year: number) => `Copyright (c) ${year} ${holder}
+
+This dataset is licensed under the ${name}.
+${terms}
+
+The full legal code is available at ${url}legalcode`
+});
+
+// Keyed by SPDX identifier in lower case
+const KNOWN_LICENSES: Record<string, KnownLicense> = {
+  'mit': { name: 'MIT License', url: 'https://opensource.org/license/mit', text: MIT_TEXT },
+  'bsd-3-clause': { name: 'BSD 3-Clause License', url: 'https://opensource.org/license/bsd-3-clause', text: BSD_3_CLAUSE_TEXT },
+  'apache-2.0': { name: 'Apache License 2.0', url: 'https://www.apache.org/licenses/LICENSE-2.0', text: APACHE_2_NOTICE },
+  'cc0-1.0': creativeCommons(
+    'Creative Commons Zero v1.0 Universal',
+    'https://creativecommons.org/publicdomain/zero/1.0/',
+    'The contributor has dedicated the work to the public domain by waiving all rights to the extent allowed by law.'
+  ),
+  'cc-by-4.0': creativeCommons(
+    'Creative Commons Attribution 4.0 International',
+    'https://creativecommons.org/licenses/by/4.0/',
+    'You may share and adapt the material for any purpose, provided you give appropriate credit.'
+  ),
+  'cc-by-sa-4.0': creativeCommons(
+    'Creative Commons Attribution-ShareAlike 4.0 International',
+    'https://creativecommons.org/licenses/by-sa/4.0/',
+    'You may share and adapt the material for any purpose, provided you give appropriate credit and distribute contributions under the same license.'
+  ),
+  'cc-by-nc-4.0': creativeCommons(
+    'Creative Commons Attribution-NonCommercial 4.0 International',
+    'https://creativecommons.org/licenses/by-nc/4.0/',
+    'You may share and adapt the material for non-commercial purposes, provided you give appropriate credit.'
+  )
+};
+
+/**
+ * Resolves the license of a dataset to a human readable notice.
+ * Unknown identifiers are passed through so free-form license fields still end up in the notice.
+ */
+export function describeLicense(license: string, holder: string, year: number): LicenseNotice {
+  const known = KNOWN_LICENSES[license.trim().toLowerCase()];
+  if (!known) {
+    return {
+      name: license,
+      url: null,
+      text: `Copyright (c) ${year} ${holder}\n\nThis dataset is distributed under the following license: ${license}.`
+    };
+  }
+  return { name: known.name, url: known.url, text: known.text(holder, year) };
+}
@@ -0,0 +1,174 @@
+import { db } from '../db';
+import { datasetFilesTable, datasetStatusHistoryTable, datasetsTable } from '../db/schema';
+import { type AuthUser, type Dataset, type DatasetStatus, type UserRole } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { hasRole } from './roles';
+import { loadVisibleDataset } from './dataset_access';
+import { getDatasetCurationOutcome } from './curation';
+import { freezeDatasetVersion, isVersionFrozen, type Executor, type Transaction } from './dataset_versions';
+
+type Precondition = 'has_files' | 'metadata_complete' | 'files_valid' | 'review_approved' | 'reason_given';
+
+interface Transition {
+  from: DatasetStatus;
+  to: DatasetStatus;
+  // Least role allowed to make the transition; the dataset's contributor may make it too when `owner` is set
+  role: UserRole;
+  owner: boolean;
+  preconditions: Precondition[];
+}
+
+// Every status change a dataset can go through; anything not listed is refused
+export const TRANSITIONS: Transition[] = [
+  { from: 'draft', to: 'review', role: 'curator', owner: true, preconditions: ['has_files', 'metadata_complete', 'files_valid'] },
+  { from: 'review', to: 'draft', role: 'curator', owner: true, preconditions: [] },
+  { from: 'review', to: 'approved', role: 'curator', owner: false, preconditions: ['review_approved'] },
+  { from: 'approved', to: 'draft', role: 'curator', owner: true, preconditions: [] },
+  { from: 'approved', to: 'published', role: 'curator', owner: false, preconditions: ['review_approved'] },
+  // Unpublishing returns the dataset to its contributor; frozen versions stay citable
+  { from: 'published', to: 'draft', role: 'curator', owner: true, preconditions: [] },
+  { from: 'published', to: 'withdrawn', role: 'curator', owner: false, preconditions: ['reason_given'] },
+  { from: 'withdrawn', to: 'published', role: 'admin', owner: false, preconditions: ['reason_given'] },
+  { from: 'withdrawn', to: 'draft', role: 'curator', owner: true, preconditions: [] }
+];
+
+// Metadata a dataset needs before it can be reviewed
+const REQUIRED_METADATA = ['title', 'description', 'domain', 'task', 'license'] as const;
+
+export const findTransition = (from: DatasetStatus, to: DatasetStatus): Transition | undefined =>
+  TRANSITIONS.find(transition => transition.from === from && transition.to === to);
+
+export interface StatusChange {
+  from: DatasetStatus;
+  to: DatasetStatus;
+  actorId: number | null;
+  reason: string | null;
+}
+
+/**
+ * Adds a status change of the dataset to its history. Used by the transition engine and by edits that
+ * implicitly return a published dataset to draft.
+ */
+export async function recordStatusChange(tx: Transaction, dataset: Pick<Dataset, 'id' | 'version'>, change: StatusChange): Promise<void> {
+  await tx.insert(datasetStatusHistoryTable)
+    .values({
+      dataset_id: dataset.id,
+      version: dataset.version,
+      from_status: change.from,
+      to_status: change.to,
+      actor_id: change.actorId,
+      reason: change.reason
+    })
+    .execute();
+}
+
+async function checkPrecondition(
+  precondition: Precondition,
+  transition: Transition,
+  dataset: Dataset,
+  reason: string | null,
+  executor: Executor
+): Promise<string | null> {
+  switch (precondition) {
+    case 'has_files': {
+      const files = await executor.select({ id: datasetFilesTable.id })
+        .from(datasetFilesTable)
+        .where(eq(datasetFilesTable.dataset_id, dataset.id))
+        .limit(1)
+        .execute();
+      return files.length === 0 ? 'Dataset has no files' : null;
+    }
+    case 'metadata_complete': {
+      const missing = REQUIRED_METADATA.filter(field => dataset[field].trim() === '');
+      return missing.length > 0 ? `Missing required metadata: ${missing.join(', ')}` : null;
+    }
+    case 'files_valid': {
+      const failedFiles = await executor.select({ filename: datasetFilesTable.filename })
+        .from(datasetFilesTable)
+        .where(and(eq(datasetFilesTable.dataset_id, dataset.id), eq(datasetFilesTable.validation_status, 'fail')))
+        .execute();
+      return failedFiles.length > 0 ? `Files failed validation: ${failedFiles.map(file => file.filename).join(', ')}` : null;
+    }
+    case 'review_approved': {
+      const outcome = await getDatasetCurationOutcome(dataset, executor);
+      if (outcome.decision === 'rejected') {
+        return 'Curation rejected the dataset';
+      }
+      if (outcome.decision === 'changes_requested') {
+        return 'Curation requested changes to the dataset';
+      }
+      return outcome.decision === 'pending'
+        ? `Dataset has ${outcome.approvals} of ${outcome.required_approvals} required curation approvals`
+        : null;
+    }
+    case 'reason_given':
+      return reason === null ? `A reason is required to move a dataset from ${transition.from} to ${transition.to}` : null;
+  }
+}
+
+/**
+ * Moves a dataset to another status, the only way its status changes besides edits of a published version.
+ * The transition has to be listed, the actor has to hold its role (actors are skipped for trusted internal
+ * calls) and its preconditions have to hold. Publishing freezes the current version unless it already is.
+ * Passing a transaction makes the transition part of it, so it sees and commits with the caller's writes.
+ */
+export async function transitionDataset(
+  datasetId: number,
+  to: DatasetStatus,
+  actor?: AuthUser,
+  reason: string | null = null,
+  executor: Executor = db
+): Promise<Dataset> {
+  const dataset = await loadVisibleDataset(datasetId, actor, executor);
+
+  const transition = findTransition(dataset.status, to);
+  if (!transition) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Cannot move dataset from ${dataset.status} to ${to}` });
+  }
+
+  if (actor !== undefined && !hasRole(actor, transition.role) && !(transition.owner && actor.id === dataset.contributor_id)) {
+    const allowed = transition.owner ? `the contributor and ${transition.role}s` : `${transition.role}s`;
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Only ${allowed} can move datasets from ${dataset.status} to ${to}` });
+  }
+
+  const failures: string[] = [];
+  for (const precondition of transition.preconditions) {
+    const failure = await checkPrecondition(precondition, transition, dataset, reason, executor);
+    if (failure !== null) {
+      failures.push(failure);
+    }
+  }
+  if (failures.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: failures.join('; ') });
+  }
+
+  const publishes = to === 'published' && !isVersionFrozen(dataset);
+
+  return await executor.transaction(async tx => {
+    // Matching the previous status as well keeps concurrent transitions from both applying
+    const result = await tx.update(datasetsTable)
+      .set({
+        status: to,
+        // Every submission opens a new review round
+        ...(to === 'review' ? { review_round: dataset.review_round + 1 } : {}),
+        ...(publishes ? { published_version: dataset.version } : {}),
+        // The revision readers were kept from is now the one they see
+        ...(to === 'published' ? { live_version: null } : {}),
+        updated_at: new Date()
+      })
+      .where(and(eq(datasetsTable.id, datasetId), eq(datasetsTable.status, dataset.status)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new TRPCError({ code: 'CONFLICT', message: `Dataset ${datasetId} changed status concurrently` });
+    }
+
+    await recordStatusChange(tx, dataset, { from: dataset.status, to, actorId: actor?.id ?? null, reason });
+    if (publishes) {
+      await freezeDatasetVersion(tx, result[0]);
+    }
+    return result[0];
+  });
+}
@@ -0,0 +1,100 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { TRPCError } from '@trpc/server';
+
+const BCRYPT_COST = 10;
+
+// Hashes written by the old updateUser handler: 16-byte hex salt, sha256(password + salt)
+const LEGACY_SHA256_PATTERN = /^([0-9a-f]{32}):([0-9a-f]{64})$/;
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  requireMixedCase: boolean;
+}
+
+export interface PasswordVerification {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+const envFlag = (name: string): boolean => process.env[name] === 'true';
+
+/**
+ * Reads the password policy from the environment on each call so it can be changed without a rebuild.
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: Number(process.env['PASSWORD_MIN_LENGTH'] || 8),
+    requireLetter: envFlag('PASSWORD_REQUIRE_LETTER'),
+    requireDigit: envFlag('PASSWORD_REQUIRE_DIGIT'),
+    requireSymbol: envFlag('PASSWORD_REQUIRE_SYMBOL'),
+    requireMixedCase: envFlag('PASSWORD_REQUIRE_MIXED_CASE')
+  };
+}
+
+/**
+ * Returns the list of policy rules the password breaks, empty when it is acceptable.
+ */
+export function checkPasswordPolicy(password: string, policy: PasswordPolicy = getPasswordPolicy()): string[] {
+  const violations: string[] = [];
+
+  if (password.length < policy.minLength) {
+    violations.push(`be at least ${policy.minLength} characters long`);
+  }
+  if (policy.requireLetter && !/[a-z]/i.test(password)) {
+    violations.push('contain a letter');
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push('contain a digit');
+  }
+  if (policy.requireSymbol && !/[^a-z0-9]/i.test(password)) {
+    violations.push('contain a symbol');
+  }
+  if (policy.requireMixedCase && (!/[a-z]/.test(password) || !/[A-Z]/.test(password))) {
+    violations.push('contain both upper and lower case letters');
+  }
+
+  return violations;
+}
+
+/**
+ * Throws BAD_REQUEST if the password does not satisfy the configured policy.
+ */
+export function assertPasswordPolicy(password: string): void {
+  const violations = checkPasswordPolicy(password);
+  if (violations.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Password must ${violations.join(', ')}` });
+  }
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return Bun.password.hash(password, {
+    algorithm: 'bcrypt',
+    cost: BCRYPT_COST
+  });
+}
+
+/**
+ * Checks a password against a stored hash.
+ * Legacy `salt:sha256` hashes still verify but are flagged for rehashing.
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<PasswordVerification> {
+  const legacy = LEGACY_SHA256_PATTERN.exec(storedHash);
+  if (legacy) {
+    const [, salt, hash] = legacy;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = createHash('sha256').update(password + salt).digest();
+    const valid = timingSafeEqual(expected, actual);
+    return { valid, needsRehash: valid };
+  }
+
+  try {
+    const valid = await Bun.password.verify(password, storedHash);
+    return { valid, needsRehash: false };
+  } catch (error) {
+    // Bun throws on values that are not a recognised hash format
+    return { valid: false, needsRehash: false };
+  }
+}
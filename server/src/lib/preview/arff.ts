@@ -0,0 +1,33 @@
+import type { Readable } from 'stream';
+import { sliceRecords, type ContentSize, type PreviewWindow, type SourceRecord, type TablePreview } from '.';
+import { openArff, parseArffRow, type ArffDataLine } from '../arff';
+
+async function* dataRecords(lines: AsyncIterable<ArffDataLine>): AsyncGenerator<SourceRecord<ArffDataLine>> {
+  for await (const line of lines) {
+    yield { value: line, start: line.start, end: line.end };
+  }
+}
+
+/**
+ * Previews an ARFF stream; headers and column types come from the `@attribute` declarations.
+ */
+export async function previewARFF(stream: Readable, window: PreviewWindow, size: ContentSize): Promise<TablePreview> {
+  const { header, lines } = await openArff(stream);
+
+  const slice = await sliceRecords(dataRecords(lines), window, size);
+  const rows = slice.values.map(({ text, line }) => {
+    try {
+      return parseArffRow(text, header.attributes);
+    } catch (error) {
+      throw new Error(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+  return {
+    headers: header.attributes.map(attribute => attribute.name),
+    rows,
+    totalRows: slice.total,
+    totalRowsEstimated: slice.estimated,
+    arff: header
+  };
+}
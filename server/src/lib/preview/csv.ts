@@ -0,0 +1,37 @@
+import type { Readable } from 'stream';
+import { sliceRecords, toCell, type ContentSize, type PreviewWindow, type SourceRecord, type TablePreview } from '.';
+import { openCsv, type CsvDelimiter, type CsvRecord } from '../csv';
+
+async function* fieldRecords(records: AsyncIterable<CsvRecord>): AsyncGenerator<SourceRecord<string[]>> {
+  for await (const record of records) {
+    yield { value: record.fields, start: record.start, end: record.end };
+  }
+}
+
+/**
+ * Previews a CSV stream; the first record holds the headers.
+ * The encoding, and the delimiter unless given, are detected from the start of the file.
+ */
+export async function previewCSV(
+  stream: Readable,
+  window: PreviewWindow,
+  size: ContentSize,
+  delimiter?: CsvDelimiter
+): Promise<TablePreview> {
+  const { records } = await openCsv(stream, { delimiter });
+
+  const header = await records.next();
+  if (header.done) {
+    return { headers: [], rows: [], totalRows: 0, totalRowsEstimated: false };
+  }
+
+  const slice = await sliceRecords(fieldRecords(records), window, size);
+  const rows = slice.values.map(fields => fields.map(cell => toCell(cell.trim())));
+
+  return {
+    headers: header.value.fields.map(name => name.trim()),
+    rows,
+    totalRows: slice.total,
+    totalRowsEstimated: slice.estimated
+  };
+}
@@ -0,0 +1,118 @@
+import type { Readable } from 'stream';
+import { type ArffHeader } from '../arff';
+import { type ByteRange } from '../storage';
+import { type JSONStructure } from './json';
+
+export type PreviewCell = string | number | null;
+
+/**
+ * Rows to return, counted from the first data row.
+ */
+export interface PreviewWindow {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * Random access to the stored bytes of the file being previewed.
+ */
+export interface PreviewSource {
+  size: number;
+  open(range?: ByteRange): Promise<Readable>;
+}
+
+/**
+ * Size of the content being read, for extrapolating row totals. A function is evaluated as reading
+ * progresses, for content whose size is only known approximately, like that of compressed files.
+ */
+export type ContentSize = number | (() => number);
+
+export interface ParquetColumn {
+  name: string;
+  type: string;
+}
+
+export interface TablePreview {
+  headers: string[];
+  rows: PreviewCell[][];
+  totalRows: number;
+  // Set when the total was extrapolated instead of counted to the end of the file
+  totalRowsEstimated: boolean;
+  // Relation name and typed attributes of ARFF files
+  arff?: ArffHeader;
+  // Column types and row group count of Parquet files
+  parquet?: { columns: ParquetColumn[]; rowGroups: number };
+  // Where the records of JSON files were found and the structure they share
+  json?: JSONStructure;
+}
+
+/**
+ * A raw record of a file together with the byte range it occupies.
+ */
+export interface SourceRecord<T> {
+  value: T;
+  start: number;
+  end: number;
+}
+
+export interface RecordSlice<T> {
+  values: T[];
+  total: number;
+  estimated: boolean;
+}
+
+// Files up to this size are read to the end for an exact row count
+export const EXACT_COUNT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Picks the records of the window out of a record stream without keeping the others.
+ * Small files are counted to the end; for larger ones reading stops after the window and the total
+ * is extrapolated from the average record size seen so far.
+ */
+export async function sliceRecords<T>(
+  records: AsyncIterable<SourceRecord<T>>,
+  window: PreviewWindow,
+  size: ContentSize
+): Promise<RecordSlice<T>> {
+  const contentSize = (): number => typeof size === 'function' ? size() : size;
+
+  const values: T[] = [];
+  let count = 0;
+  let firstStart = 0;
+
+  for await (const record of records) {
+    if (count === 0) {
+      firstStart = record.start;
+    }
+    if (count >= window.offset && values.length < window.limit) {
+      values.push(record.value);
+    }
+    count++;
+
+    if (count >= window.offset + window.limit && contentSize() > EXACT_COUNT_MAX_BYTES) {
+      const averageBytes = (record.end - firstStart) / count;
+      const remaining = Math.max(0, contentSize() - record.end);
+      // Leaving the loop closes the iterator, which stops reading the file
+      return { values, total: count + Math.round(remaining / averageBytes), estimated: true };
+    }
+  }
+
+  return { values, total: count, estimated: false };
+}
+
+// Text cells that stand for a missing value, compared case-insensitively
+export const MISSING_MARKERS = ['', 'null'];
+
+/**
+ * Converts a raw text cell to a number or null where that is what it represents.
+ */
+export function toCell(raw: string, missingMarkers: string[] = MISSING_MARKERS): PreviewCell {
+  if (missingMarkers.includes(raw.toLowerCase())) {
+    return null;
+  }
+  const num = parseFloat(raw);
+  if (!isNaN(num) && isFinite(num)) {
+    return num;
+  }
+  return raw;
+}
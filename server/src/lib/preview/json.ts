@@ -0,0 +1,396 @@
+import type { Readable } from 'stream';
+import {
+  EXACT_COUNT_MAX_BYTES,
+  sliceRecords,
+  type ContentSize,
+  type PreviewCell,
+  type PreviewWindow,
+  type SourceRecord,
+  type TablePreview
+} from '.';
+
+// Documents that are not a top-level array have to be parsed in one piece
+export const MAX_JSON_DOCUMENT_BYTES = EXACT_COUNT_MAX_BYTES;
+
+// Records from the start of the file whose keys make up the headers, along with those of the window
+export const JSON_SAMPLE_RECORDS = 100;
+
+export type JSONValueType = 'null' | 'boolean' | 'number' | 'string' | 'array' | 'object';
+
+/**
+ * Structure of JSON values merged across records: the types seen at a position,
+ * the properties of objects and the elements of arrays.
+ */
+export interface JSONShape {
+  types: JSONValueType[];
+  properties?: Record<string, JSONShape>;
+  items?: JSONShape;
+}
+
+export interface JSONStructure {
+  // `$` for a top-level array, e.g. `$.data` for records wrapped in an object, null for a single document
+  recordsPath: string | null;
+  // Shape of the sampled records, or of the whole document
+  shape: JSONShape;
+  sampledRecords: number;
+}
+
+const isWhitespace = (byte: number): boolean =>
+  byte === 0x20 || byte === 0x0a || byte === 0x0d || byte === 0x09;
+
+// A UTF-8 byte order mark is skipped like leading whitespace
+const isLeadingNoise = (byte: number): boolean =>
+  isWhitespace(byte) || byte === 0xef || byte === 0xbb || byte === 0xbf;
+
+/**
+ * Renders a flattened JSON value as a cell; arrays and empty objects are shown as compact JSON.
+ */
+export const toJSONCell = (value: unknown): PreviewCell => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const isRecordObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Flattens nested objects of a record into dotted keys, e.g. `{"a": {"b": 1}}` into `a.b`.
+ * Records that are not objects become a single `value` entry.
+ */
+export function flattenRecord(record: unknown): Map<string, unknown> {
+  const flattened = new Map<string, unknown>();
+  const visit = (value: Record<string, unknown>, prefix: string): void => {
+    for (const [key, child] of Object.entries(value)) {
+      const name = prefix ? `${prefix}.${key}` : key;
+      if (isRecordObject(child) && Object.keys(child).length > 0) {
+        visit(child, name);
+      } else {
+        flattened.set(name, child);
+      }
+    }
+  };
+
+  if (isRecordObject(record)) {
+    visit(record, '');
+  } else {
+    flattened.set('value', record);
+  }
+  return flattened;
+}
+
+const jsonType = (value: unknown): JSONValueType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as JSONValueType;
+};
+
+/**
+ * Merges the structure of a value into a shape.
+ */
+export function addToShape(shape: JSONShape, value: unknown): JSONShape {
+  const type = jsonType(value);
+  if (!shape.types.includes(type)) {
+    shape.types.push(type);
+  }
+
+  if (isRecordObject(value)) {
+    const properties = shape.properties ??= {};
+    for (const [key, child] of Object.entries(value)) {
+      addToShape(properties[key] ??= { types: [] }, child);
+    }
+  } else if (Array.isArray(value)) {
+    const items = shape.items ??= { types: [] };
+    value.forEach(item => addToShape(items, item));
+  }
+  return shape;
+}
+
+/**
+ * Yields the source text of each element of a top-level JSON array without parsing it.
+ * `chunks` must continue right after the opening bracket, which sits at byte `position - 1`.
+ */
+async function* arrayElements(
+  chunks: AsyncIterator<Buffer>,
+  head: Buffer,
+  position: number
+): AsyncGenerator<SourceRecord<string>> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  let parts: Buffer[] = [];
+
+  let chunk: Buffer | undefined = head;
+  while (chunk) {
+    let segmentStart = 0;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (byte === 0x5c) {
+          escaped = true;
+        } else if (byte === 0x22) {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (depth === 0 && (byte === 0x2c || byte === 0x5d)) {
+        if (elementStart !== -1) {
+          parts.push(chunk.subarray(segmentStart, i));
+          const text = Buffer.concat(parts).toString('utf-8').trim();
+          yield { value: text, start: elementStart, end: position + i + 1 };
+          parts = [];
+          elementStart = -1;
+        } else if (byte === 0x2c) {
+          throw new Error(`Unexpected ',' at byte ${position + i}`);
+        }
+
+        if (byte === 0x5d) {
+          // Anything after the closing bracket is ignored
+          return;
+        }
+        continue;
+      }
+
+      if (elementStart === -1) {
+        if (isWhitespace(byte)) {
+          continue;
+        }
+        elementStart = position + i;
+        segmentStart = i;
+      }
+
+      if (byte === 0x22) {
+        inString = true;
+      } else if (byte === 0x7b || byte === 0x5b) {
+        depth++;
+      } else if (byte === 0x7d || byte === 0x5d) {
+        depth--;
+      }
+    }
+
+    if (elementStart !== -1) {
+      parts.push(chunk.subarray(segmentStart));
+    }
+    position += chunk.length;
+
+    const next = await chunks.next();
+    chunk = next.done ? undefined : next.value;
+  }
+
+  throw new Error('Unexpected end of JSON input');
+}
+
+/**
+ * Lays out JSON records as rows. Nested objects are flattened into dotted columns; the columns are the union of
+ * the keys of the sampled records and the rows, in the order they are first seen.
+ */
+export function tableFromRecords(sample: unknown[], values: unknown[]): Pick<TablePreview, 'headers' | 'rows'> {
+  const records = values.map(flattenRecord);
+
+  const headers = new Set<string>();
+  for (const record of [...sample.map(flattenRecord), ...records]) {
+    record.forEach((_value, key) => headers.add(key));
+  }
+
+  const rows = records.map(record => [...headers].map(header => toJSONCell(record.get(header))));
+  return { headers: [...headers], rows };
+}
+
+function tableFromDocument(data: unknown, window: PreviewWindow): TablePreview {
+  const { headers, rows } = tableFromRecords([data], window.offset === 0 && window.limit > 0 ? [data] : []);
+  const json: JSONStructure = { recordsPath: null, shape: addToShape({ types: [] }, data), sampledRecords: 1 };
+  return { headers, rows, totalRows: 1, totalRowsEstimated: false, json };
+}
+
+async function readDocument(parts: Buffer[], chunks: AsyncIterator<Buffer>): Promise<unknown> {
+  let length = parts.reduce((total, part) => total + part.length, 0);
+  for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+    length += next.value.length;
+    if (length > MAX_JSON_DOCUMENT_BYTES) {
+      throw new Error('JSON documents that are not arrays are too large to read');
+    }
+    parts.push(next.value);
+  }
+  return JSON.parse(Buffer.concat(parts).toString('utf-8'));
+}
+
+type WrapperScan =
+  | { found: true; key: string; head: Buffer; position: number }
+  | { found: false; parts: Buffer[] };
+
+/**
+ * Scans a top-level object for the first property holding an array of objects, so records wrapped like
+ * `{"data": [...]}` can be streamed. The bytes before the array are kept, up to MAX_JSON_DOCUMENT_BYTES,
+ * and returned when the object turns out to hold no such array. `head` starts at the opening brace.
+ */
+async function scanWrapper(chunks: AsyncIterator<Buffer>, head: Buffer, position: number): Promise<WrapperScan> {
+  const parts: Buffer[] = [];
+  let length = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let expecting: 'key' | 'value' = 'key';
+  let keyBytes: number[] | null = null;
+  let key = '';
+  // An array property, until its first element shows whether it holds records
+  let candidate: { parts: Buffer[]; position: number } | null = null;
+
+  let chunk: Buffer | undefined = head;
+  while (chunk) {
+    parts.push(chunk);
+    length += chunk.length;
+    if (length > MAX_JSON_DOCUMENT_BYTES) {
+      throw new Error('JSON documents that are not arrays are too large to read');
+    }
+    if (candidate && candidate.parts[candidate.parts.length - 1] !== chunk) {
+      candidate.parts.push(chunk);
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (byte === 0x5c) {
+          escaped = true;
+        } else if (byte === 0x22) {
+          inString = false;
+          if (keyBytes) {
+            key = JSON.parse(`"${Buffer.from(keyBytes).toString('utf-8')}"`) as string;
+            keyBytes = null;
+          }
+          continue;
+        }
+        keyBytes?.push(byte);
+        continue;
+      }
+      if (isWhitespace(byte)) {
+        continue;
+      }
+
+      if (candidate) {
+        if (byte === 0x7b) {
+          return { found: true, key, head: Buffer.concat(candidate.parts), position: candidate.position };
+        }
+        candidate = null;
+      }
+
+      if (byte === 0x22) {
+        inString = true;
+        keyBytes = depth === 1 && expecting === 'key' ? [] : null;
+      } else if (depth === 1 && byte === 0x3a) {
+        expecting = 'value';
+      } else if (depth === 1 && byte === 0x2c) {
+        expecting = 'key';
+      } else if (byte === 0x7b || byte === 0x5b) {
+        if (depth === 1 && byte === 0x5b && expecting === 'value') {
+          candidate = { parts: [chunk.subarray(i + 1)], position: position + i + 1 };
+        }
+        depth++;
+      } else if (byte === 0x7d || byte === 0x5d) {
+        depth--;
+        if (depth === 0) {
+          return { found: false, parts };
+        }
+      }
+    }
+
+    position += chunk.length;
+    const next = await chunks.next();
+    chunk = next.done ? undefined : next.value;
+  }
+
+  return { found: false, parts };
+}
+
+async function* noElements(): AsyncGenerator<SourceRecord<string>> {}
+
+export type JSONContent =
+  | { kind: 'document'; data: unknown }
+  | { kind: 'array'; path: string; elements: AsyncGenerator<SourceRecord<string>> };
+
+/**
+ * Tells arrays of records apart from other documents. Elements of a top-level array, or of the first array of
+ * objects in a top-level object, are yielded as source text while the stream is read; other documents are
+ * parsed in one piece, up to MAX_JSON_DOCUMENT_BYTES. Empty or blank content is read as an empty array.
+ */
+export async function openJSON(stream: Readable): Promise<JSONContent> {
+  const chunks: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]();
+
+  // Find the first significant byte to tell arrays apart from other documents
+  let position = 0;
+  let head: Buffer | undefined;
+  let start = -1;
+  while (start === -1) {
+    const next = await chunks.next();
+    if (next.done) {
+      // Empty content holds no records, like an empty array
+      return { kind: 'array', path: '$', elements: noElements() };
+    }
+    head = next.value;
+    start = head.findIndex(byte => !isLeadingNoise(byte));
+    if (start === -1) {
+      position += head.length;
+    }
+  }
+
+  if (head![start] === 0x5b) {
+    return { kind: 'array', path: '$', elements: arrayElements(chunks, head!.subarray(start + 1), position + start + 1) };
+  }
+
+  if (head![start] !== 0x7b) {
+    return { kind: 'document', data: await readDocument([head!.subarray(start)], chunks) };
+  }
+
+  const scan = await scanWrapper(chunks, head!.subarray(start), position + start);
+  if (!scan.found) {
+    return { kind: 'document', data: await readDocument(scan.parts, chunks) };
+  }
+  return { kind: 'array', path: `$.${scan.key}`, elements: arrayElements(chunks, scan.head, scan.position) };
+}
+
+/**
+ * Previews a JSON stream. Arrays of records are read element by element, also when wrapped in an object;
+ * other documents are shown as a single row. Nested objects are flattened into dotted columns, and the
+ * structure of the sampled records is reported alongside.
+ */
+export async function previewJSON(stream: Readable, window: PreviewWindow, size: ContentSize): Promise<TablePreview> {
+  const content = await openJSON(stream);
+  if (content.kind === 'document') {
+    return tableFromDocument(content.data, window);
+  }
+
+  const { elements } = content;
+  const sample: unknown[] = [];
+  async function* sampled(): AsyncGenerator<SourceRecord<string>> {
+    for await (const element of elements) {
+      if (sample.length < JSON_SAMPLE_RECORDS) {
+        sample.push(JSON.parse(element.value));
+      }
+      yield element;
+    }
+  }
+
+  const slice = await sliceRecords(sampled(), window, size);
+  const values = slice.values.map(value => JSON.parse(value) as unknown);
+  const { headers, rows } = slice.total === 0 ? { headers: [], rows: [] } : tableFromRecords(sample, values);
+
+  const shape: JSONShape = { types: [] };
+  [...sample, ...values].forEach(record => addToShape(shape, record));
+
+  return {
+    headers,
+    rows,
+    totalRows: slice.total,
+    totalRowsEstimated: slice.estimated,
+    json: { recordsPath: content.path, shape, sampledRecords: sample.length }
+  };
+}
@@ -0,0 +1,49 @@
+import type { Readable } from 'stream';
+import { sliceRecords, type ContentSize, type PreviewWindow, type SourceRecord, type TablePreview } from '.';
+import { readLines } from './lines';
+import { JSON_SAMPLE_RECORDS, tableFromRecords } from './json';
+
+export interface NumberedLine {
+  text: string;
+  line: number;
+}
+
+export const parseJSONLine = ({ text, line }: NumberedLine): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Previews a JSON Lines stream, one record per non-blank line.
+ * The headers are the flattened keys of the first records and of the window.
+ */
+export async function previewJSONL(stream: Readable, window: PreviewWindow, size: ContentSize): Promise<TablePreview> {
+  const sample: unknown[] = [];
+  let lineNumber = 0;
+
+  async function* records(): AsyncGenerator<SourceRecord<NumberedLine>> {
+    for await (const line of readLines(stream)) {
+      lineNumber++;
+      const text = line.value.trim();
+      if (!text) {
+        continue;
+      }
+      const numbered = { text, line: lineNumber };
+      if (sample.length < JSON_SAMPLE_RECORDS) {
+        sample.push(parseJSONLine(numbered));
+      }
+      yield { value: numbered, start: line.start, end: line.end };
+    }
+  }
+
+  const slice = await sliceRecords(records(), window, size);
+  if (slice.total === 0) {
+    return { headers: [], rows: [], totalRows: 0, totalRowsEstimated: false };
+  }
+
+  const { headers, rows } = tableFromRecords(sample, slice.values.map(parseJSONLine));
+  return { headers, rows, totalRows: slice.total, totalRowsEstimated: slice.estimated };
+}
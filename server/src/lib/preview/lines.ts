@@ -0,0 +1,63 @@
+import type { Readable } from 'stream';
+import { type SourceRecord } from '.';
+
+/**
+ * Splits a byte stream into lines, tracking the byte range of each line.
+ * The trailing `\r` of CRLF line endings is dropped from the text.
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<SourceRecord<string>> {
+  let pending: Buffer[] = [];
+  let pendingLength = 0;
+  let lineStart = 0;
+  let position = 0;
+
+  const emit = (tail: Buffer, end: number): SourceRecord<string> => {
+    const bytes = pending.length > 0 ? Buffer.concat([...pending, tail]) : tail;
+    pending = [];
+    pendingLength = 0;
+    let text = bytes.toString('utf-8');
+    if (text.endsWith('\r')) {
+      text = text.slice(0, -1);
+    }
+    const record = { value: text, start: lineStart, end };
+    lineStart = end;
+    return record;
+  };
+
+  for await (const chunk of stream) {
+    const buffer: Buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+    let from = 0;
+    let newline = buffer.indexOf(0x0a, from);
+
+    while (newline !== -1) {
+      yield emit(buffer.subarray(from, newline), position + newline + 1);
+      from = newline + 1;
+      newline = buffer.indexOf(0x0a, from);
+    }
+
+    if (from < buffer.length) {
+      pending.push(buffer.subarray(from));
+      pendingLength += buffer.length - from;
+    }
+    position += buffer.length;
+  }
+
+  if (pendingLength > 0) {
+    yield emit(Buffer.alloc(0), position);
+  }
+}
+
+/**
+ * Lines with surrounding whitespace removed, skipping blank lines and those rejected by `skip`.
+ */
+export async function* contentLines(
+  stream: Readable,
+  skip: (line: string) => boolean = () => false
+): AsyncGenerator<SourceRecord<string>> {
+  for await (const line of readLines(stream)) {
+    const trimmed = line.value.trim();
+    if (trimmed && !skip(trimmed)) {
+      yield { ...line, value: trimmed };
+    }
+  }
+}
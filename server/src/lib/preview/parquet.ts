@@ -0,0 +1,61 @@
+import { buffer } from 'stream/consumers';
+import { parquetMetadataAsync, parquetReadObjects, parquetSchema, type AsyncBuffer, type SchemaElement } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { type PreviewCell, type PreviewSource, type PreviewWindow, type TablePreview } from '.';
+
+const describeType = (element: SchemaElement): string =>
+  element.logical_type?.type ?? element.converted_type ?? element.type ?? 'STRUCT';
+
+const jsonReplacer = (_key: string, value: unknown): unknown =>
+  typeof value === 'bigint' ? value.toString() : value;
+
+const toParquetCell = (value: unknown): PreviewCell => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  if (typeof value === 'object') return JSON.stringify(value, jsonReplacer);
+  return String(value);
+};
+
+/**
+ * Previews a Parquet file. The schema and row count come from the footer, and only the
+ * row groups holding the requested window are read.
+ */
+export async function previewParquet(source: PreviewSource, window: PreviewWindow): Promise<TablePreview> {
+  const file: AsyncBuffer = {
+    byteLength: source.size,
+    slice: async (start, end = source.size) => {
+      if (end <= start) {
+        return new ArrayBuffer(0);
+      }
+      const bytes = await buffer(await source.open({ start, end: end - 1 }));
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length) as ArrayBuffer;
+    }
+  };
+
+  const metadata = await parquetMetadataAsync(file);
+  const columns = parquetSchema(metadata).children.map(child => ({
+    name: child.element.name,
+    type: describeType(child.element)
+  }));
+  const headers = columns.map(column => column.name);
+
+  const totalRows = Number(metadata.num_rows);
+  const rowStart = Math.min(window.offset, totalRows);
+  const rowEnd = Math.min(window.offset + window.limit, totalRows);
+  const records = rowEnd > rowStart
+    ? await parquetReadObjects({ file, metadata, rowStart, rowEnd, compressors })
+    : [];
+
+  return {
+    headers,
+    rows: records.map(record => headers.map(header => toParquetCell(record[header]))),
+    totalRows,
+    totalRowsEstimated: false,
+    parquet: { columns, rowGroups: metadata.row_groups.length }
+  };
+}
@@ -0,0 +1,171 @@
+import { type ColumnProfile, type ColumnType } from '../../schema';
+
+export type ProfileValue = string | number | boolean | null;
+
+/**
+ * Rows of a tabular file as read for profiling.
+ */
+export interface RowTable {
+  headers: string[];
+  // Types declared by the file itself, e.g. ARFF nominal attributes; null where the type is inferred
+  declaredTypes?: (ColumnType | null)[];
+  rows: AsyncIterable<ProfileValue[]> | Iterable<ProfileValue[]>;
+}
+
+export interface TableProfile {
+  row_count: number;
+  columns: ColumnProfile[];
+}
+
+// Distinct values tracked per column; beyond this distinct counts and top values are lower bounds
+const MAX_TRACKED_DISTINCT = 10_000;
+const TOP_VALUES = 5;
+// String columns with at most this many distinct values, each seen at least twice on average, are categorical
+const MAX_CATEGORIES = 50;
+
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const FLOAT_PATTERN = /^[+-]?(\d+\.\d*|\.\d+|\d+(\.\d*)?[eE][+-]?\d+)$/;
+const BOOLEAN_PATTERN = /^(true|false)$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+type ValueKind = 'integer' | 'float' | 'boolean' | 'date' | 'string';
+
+interface ClassifiedValue {
+  kind: ValueKind;
+  // Numeric value of numbers, timestamp of dates
+  number: number | null;
+  text: string;
+}
+
+function classify(value: string | number | boolean): ClassifiedValue {
+  if (typeof value === 'number') {
+    return { kind: Number.isInteger(value) ? 'integer' : 'float', number: value, text: String(value) };
+  }
+  if (typeof value === 'boolean') {
+    return { kind: 'boolean', number: null, text: String(value) };
+  }
+
+  const text = value.trim();
+  if (INTEGER_PATTERN.test(text)) {
+    return { kind: 'integer', number: Number(text), text };
+  }
+  if (FLOAT_PATTERN.test(text)) {
+    return { kind: 'float', number: Number(text), text };
+  }
+  if (BOOLEAN_PATTERN.test(text)) {
+    return { kind: 'boolean', number: null, text };
+  }
+  if (DATE_PATTERN.test(text) && !isNaN(Date.parse(text))) {
+    return { kind: 'date', number: Date.parse(text), text };
+  }
+  return { kind: 'string', number: null, text };
+}
+
+/**
+ * Accumulates the statistics of one column in a single pass.
+ * Numeric moments use Welford's algorithm so large files do not lose precision.
+ */
+class ColumnProfiler {
+  private nulls = 0;
+  private present = 0;
+  private readonly counts = new Map<string, number>();
+  private capped = false;
+  private readonly kinds = new Set<ValueKind>();
+
+  private numbers = 0;
+  private mean = 0;
+  private squaredDeviations = 0;
+  private min: ClassifiedValue | null = null;
+  private max: ClassifiedValue | null = null;
+
+  add(value: ProfileValue): void {
+    if (value === null || (typeof value === 'number' && isNaN(value))) {
+      this.nulls++;
+      return;
+    }
+
+    const classified = classify(value);
+    this.present++;
+    this.kinds.add(classified.kind);
+
+    const count = this.counts.get(classified.text);
+    if (count !== undefined) {
+      this.counts.set(classified.text, count + 1);
+    } else if (this.counts.size < MAX_TRACKED_DISTINCT) {
+      this.counts.set(classified.text, 1);
+    } else {
+      this.capped = true;
+    }
+
+    if (classified.number === null) {
+      return;
+    }
+    if (classified.kind !== 'date') {
+      this.numbers++;
+      const delta = classified.number - this.mean;
+      this.mean += delta / this.numbers;
+      this.squaredDeviations += delta * (classified.number - this.mean);
+    }
+    if (!this.min || classified.number < this.min.number!) this.min = classified;
+    if (!this.max || classified.number > this.max.number!) this.max = classified;
+  }
+
+  private hasOnly(...kinds: ValueKind[]): boolean {
+    return this.kinds.size > 0 && [...this.kinds].every(kind => kinds.includes(kind));
+  }
+
+  private inferType(): ColumnType {
+    if (this.hasOnly('integer')) return 'integer';
+    if (this.hasOnly('integer', 'float')) return 'float';
+    if (this.hasOnly('boolean')) return 'boolean';
+    if (this.hasOnly('date')) return 'date';
+    const categorical = !this.capped && this.counts.size <= MAX_CATEGORIES && this.counts.size * 2 <= this.present;
+    return categorical ? 'categorical' : 'text';
+  }
+
+  result(name: string, declared: ColumnType | null = null): ColumnProfile {
+    const type = declared ?? this.inferType();
+    // Declared types may not match the values, e.g. ARFF dates in a custom format
+    const numeric = (type === 'integer' || type === 'float') && this.hasOnly('integer', 'float');
+    const ranged = numeric || (type === 'date' && this.hasOnly('date'));
+
+    const topValues = [...this.counts.entries()]
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }));
+
+    return {
+      name,
+      type,
+      null_count: this.nulls,
+      distinct_count: this.counts.size,
+      distinct_count_capped: this.capped,
+      min: ranged && this.min ? (numeric ? this.min.number : this.min.text) : null,
+      max: ranged && this.max ? (numeric ? this.max.number : this.max.text) : null,
+      mean: numeric && this.numbers > 0 ? this.mean : null,
+      // Sample standard deviation
+      std: numeric && this.numbers > 1 ? Math.sqrt(this.squaredDeviations / (this.numbers - 1)) : null,
+      top_values: topValues
+    };
+  }
+}
+
+/**
+ * Reads every row of a table and profiles its columns: inferred type, null and distinct counts,
+ * range, mean and standard deviation of numeric columns, and the most frequent values.
+ * Cells missing from short rows count as nulls; cells beyond the headers are ignored.
+ */
+export async function profileTable(table: RowTable): Promise<TableProfile> {
+  const columns = table.headers.map(() => new ColumnProfiler());
+  let rowCount = 0;
+
+  for await (const row of table.rows) {
+    rowCount++;
+    columns.forEach((column, i) => column.add(row[i] ?? null));
+  }
+
+  return {
+    row_count: rowCount,
+    columns: columns.map((column, i) => column.result(table.headers[i], table.declaredTypes?.[i] ?? null))
+  };
+}
@@ -0,0 +1,140 @@
+import type { Readable } from 'stream';
+import { type ColumnType } from '../../schema';
+import { type ProfileValue, type RowTable } from '.';
+import { openArff, parseArffRow, type ArffAttributeType } from '../arff';
+import { openCsv } from '../csv';
+import { type TextFormat } from '../formats';
+import { MISSING_MARKERS } from '../preview';
+import { flattenRecord, JSON_SAMPLE_RECORDS, openJSON } from '../preview/json';
+import { parseJSONLine } from '../preview/jsonl';
+import { readLines } from '../preview/lines';
+
+const toProfileValue = (value: unknown): ProfileValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+};
+
+/**
+ * Lays out JSON records like the preview does: nested objects are flattened into dotted columns,
+ * named after the keys of the first records, and records that are not objects fill a `value` column.
+ */
+async function jsonTable(records: AsyncIterator<unknown>): Promise<RowTable> {
+  const sample: Map<string, unknown>[] = [];
+  let exhausted = false;
+  while (sample.length < JSON_SAMPLE_RECORDS) {
+    const next = await records.next();
+    if (next.done) {
+      exhausted = true;
+      break;
+    }
+    sample.push(flattenRecord(next.value));
+  }
+
+  const headers = [...new Set(sample.flatMap(record => [...record.keys()]))];
+  const toRow = (record: Map<string, unknown>): ProfileValue[] =>
+    headers.map(header => toProfileValue(record.get(header)));
+
+  async function* rows(): AsyncGenerator<ProfileValue[]> {
+    yield* sample.map(toRow);
+    if (exhausted) {
+      return;
+    }
+    for (let next = await records.next(); !next.done; next = await records.next()) {
+      yield toRow(flattenRecord(next.value));
+    }
+  }
+
+  return { headers, rows: rows() };
+}
+
+async function* jsonArrayRecords(stream: Readable): AsyncGenerator<unknown> {
+  const content = await openJSON(stream);
+  if (content.kind === 'document') {
+    yield content.data;
+    return;
+  }
+  for await (const element of content.elements) {
+    yield JSON.parse(element.value);
+  }
+}
+
+async function* jsonLineRecords(stream: Readable): AsyncGenerator<unknown> {
+  let lineNumber = 0;
+  for await (const line of readLines(stream)) {
+    lineNumber++;
+    const text = line.value.trim();
+    if (text) {
+      yield parseJSONLine({ text, line: lineNumber });
+    }
+  }
+}
+
+async function csvTable(stream: Readable, format: 'csv' | 'tsv'): Promise<RowTable> {
+  const { records } = await openCsv(stream, { delimiter: format === 'tsv' ? '\t' : undefined });
+  const header = await records.next();
+  if (header.done) {
+    return { headers: [], rows: [] };
+  }
+
+  async function* rows(): AsyncGenerator<ProfileValue[]> {
+    for await (const record of records) {
+      yield record.fields.map(field => {
+        const value = field.trim();
+        return MISSING_MARKERS.includes(value.toLowerCase()) ? null : value;
+      });
+    }
+  }
+
+  return { headers: header.value.fields.map(name => name.trim()), rows: rows() };
+}
+
+const declaredArffType = (type: ArffAttributeType): ColumnType | null => {
+  switch (type.kind) {
+    case 'nominal':
+      return 'categorical';
+    case 'date':
+      return 'date';
+    default:
+      return null;
+  }
+};
+
+async function arffTable(stream: Readable): Promise<RowTable> {
+  const { header, lines } = await openArff(stream);
+
+  async function* rows(): AsyncGenerator<ProfileValue[]> {
+    for await (const { text, line } of lines) {
+      let row: ProfileValue[];
+      try {
+        row = parseArffRow(text, header.attributes);
+      } catch (error) {
+        throw new Error(`Line ${line}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      yield row;
+    }
+  }
+
+  return {
+    headers: header.attributes.map(attribute => attribute.name),
+    declaredTypes: header.attributes.map(attribute => declaredArffType(attribute.type)),
+    rows: rows()
+  };
+}
+
+/**
+ * Opens the rows of a text file for profiling, reading the headers the same way the preview does.
+ */
+export async function openRows(stream: Readable, format: TextFormat): Promise<RowTable> {
+  switch (format) {
+    case 'csv':
+    case 'tsv':
+      return csvTable(stream, format);
+    case 'json':
+      return jsonTable(jsonArrayRecords(stream));
+    case 'jsonl':
+      return jsonTable(jsonLineRecords(stream));
+    case 'arff':
+      return arffTable(stream);
+  }
+}
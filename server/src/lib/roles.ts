@@ -0,0 +1,19 @@
+import { type AuthUser, type UserRole } from '../schema';
+
+// Each role includes the permissions of the roles ranked below it
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  contributor: 1,
+  curator: 2,
+  admin: 3
+};
+
+/**
+ * Checks whether the user holds at least the given role.
+ */
+export function hasRole(user: Pick<AuthUser, 'role'> | null | undefined, role: UserRole): boolean {
+  if (!user) {
+    return false;
+  }
+  return ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
@@ -0,0 +1,166 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type AuthUser, type Session } from '../schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+
+export const SESSION_COOKIE_NAME = 'uisr_session';
+const SESSION_TTL_HOURS = Number(process.env['SESSION_TTL_HOURS'] || 24 * 7);
+
+// Without a configured secret, sessions only survive until the process restarts
+let fallbackSecret: string | null = null;
+
+function getSessionSecret(): string {
+  const secret = process.env['SESSION_SECRET'];
+  if (secret) {
+    return secret;
+  }
+  if (!fallbackSecret) {
+    console.warn('SESSION_SECRET is not set; using an ephemeral secret for this process');
+    fallbackSecret = randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+function hashToken(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Splits a `<value>.<signature>` token and checks the signature.
+ * Returns the unsigned value, or null when the token was not issued by this server.
+ */
+function unsignToken(token: string): string | null {
+  const [value, signature, ...rest] = token.split('.');
+  if (!value || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return value;
+}
+
+export interface IssuedSession {
+  token: string;
+  session: Session;
+}
+
+export interface ResolvedSession {
+  session: Session;
+  user: AuthUser;
+}
+
+/**
+ * Creates a session for the user and returns the signed token handed to the client.
+ * Only a hash of the token is stored, so a database leak does not expose live sessions.
+ */
+export async function issueSession(userId: number): Promise<IssuedSession> {
+  const value = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  const result = await db.insert(sessionsTable)
+    .values({
+      user_id: userId,
+      token_hash: hashToken(value),
+      expires_at: expiresAt
+    })
+    .returning()
+    .execute();
+
+  return {
+    token: `${value}.${sign(value)}`,
+    session: result[0]
+  };
+}
+
+/**
+ * Looks up the session and user behind a signed token.
+ * Returns null for forged, expired or revoked tokens.
+ */
+export async function resolveSession(token: string): Promise<ResolvedSession | null> {
+  const value = unsignToken(token);
+  if (!value) {
+    return null;
+  }
+
+  const results = await db.select()
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(
+      eq(sessionsTable.token_hash, hashToken(value)),
+      isNull(sessionsTable.revoked_at),
+      gt(sessionsTable.expires_at, new Date())
+    ))
+    .execute();
+
+  if (results.length === 0) {
+    return null;
+  }
+
+  const { password, ...user } = results[0].users;
+  return {
+    session: results[0].sessions,
+    user
+  };
+}
+
+/**
+ * Marks the session behind a signed token as revoked.
+ * Returns false if the token does not match an active session.
+ */
+export async function revokeSession(token: string): Promise<boolean> {
+  const value = unsignToken(token);
+  if (!value) {
+    return false;
+  }
+
+  const result = await db.update(sessionsTable)
+    .set({ revoked_at: new Date() })
+    .where(and(
+      eq(sessionsTable.token_hash, hashToken(value)),
+      isNull(sessionsTable.revoked_at)
+    ))
+    .returning()
+    .execute();
+
+  return result.length > 0;
+}
+
+/**
+ * Reads the session token from a bearer Authorization header or the session cookie.
+ */
+export function getSessionToken(req: IncomingMessage): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+
+  const cookies = req.headers.cookie?.split(';') ?? [];
+  for (const cookie of cookies) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE_NAME) {
+      return decodeURIComponent(value.join('=')) || null;
+    }
+  }
+
+  return null;
+}
+
+export function serializeSessionCookie(token: string, expiresAt: Date): string {
+  const secure = process.env['NODE_ENV'] === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Expires=${expiresAt.toUTCString()}${secure}`;
+}
+
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Lax; Expires=${new Date(0).toUTCString()}`;
+}
@@ -0,0 +1,60 @@
+import type { Readable } from 'stream';
+import * as path from 'path';
+import { LocalDiskStorage } from './local';
+import { S3Storage } from './s3';
+
+/**
+ * Inclusive byte range, matching the semantics of an HTTP Range header.
+ */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+}
+
+/**
+ * Backend that holds the bytes of dataset files.
+ * Keys are relative, slash-separated paths such as `datasets/1/abc-data.csv`.
+ */
+export interface StorageBackend {
+  put(key: string, body: Readable): Promise<void>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<void>;
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Returns the storage backend selected by STORAGE_DRIVER (`local` or `s3`).
+ * STORAGE_LEGACY_DIRS lists the directories, separated like PATH, whose absolute paths local storage may still read.
+ */
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const driver = process.env['STORAGE_DRIVER'] || 'local';
+    switch (driver) {
+      case 'local':
+        storage = new LocalDiskStorage(
+          process.env['STORAGE_DIR'] || './uploads',
+          (process.env['STORAGE_LEGACY_DIRS'] || '').split(path.delimiter).filter(Boolean)
+        );
+        break;
+      case 's3':
+        storage = S3Storage.fromEnv();
+        break;
+      default:
+        throw new Error(`Unknown storage driver: ${driver}`);
+    }
+  }
+  return storage;
+}
+
+/**
+ * Overrides the configured backend, e.g. to point tests at a temporary directory.
+ */
+export function setStorage(backend: StorageBackend | null): void {
+  storage = backend;
+}
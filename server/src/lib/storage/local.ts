@@ -0,0 +1,80 @@
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ByteRange, StorageBackend, StoredObjectInfo } from '.';
+
+const isWithin = (directory: string, target: string): boolean =>
+  target.startsWith(directory + path.sep);
+
+/**
+ * Stores objects as files below a root directory.
+ * Absolute keys are only read inside the legacy directories, so rows created before uploads
+ * went through storage keep working without exposing the rest of the file system.
+ */
+export class LocalDiskStorage implements StorageBackend {
+  private readonly root: string;
+  private readonly legacyRoots: string[];
+
+  constructor(root: string, legacyRoots: string[] = []) {
+    this.root = path.resolve(root);
+    this.legacyRoots = legacyRoots.map(directory => path.resolve(directory));
+  }
+
+  resolve(key: string): string {
+    if (key.split(/[\\/]/).includes('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    if (path.isAbsolute(key)) {
+      const resolved = path.resolve(key);
+      if (!this.legacyRoots.some(directory => isWithin(directory, resolved))) {
+        throw new Error(`Invalid storage key: ${key}`);
+      }
+      return resolved;
+    }
+
+    const resolved = path.resolve(this.root, key);
+    if (!isWithin(this.root, resolved)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    const target = this.resolve(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temporary file first so readers never see a partial object
+    const temporary = `${target}.${randomUUID()}.partial`;
+    try {
+      await pipeline(body, createWriteStream(temporary));
+      await fs.rename(temporary, target);
+    } catch (error) {
+      await fs.rm(temporary, { force: true });
+      throw error;
+    }
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const target = this.resolve(key);
+    // Surface a missing file as a rejected promise rather than a stream error
+    await fs.access(target);
+    return createReadStream(target, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.stat(this.resolve(key));
+      return stats.isFile() ? { size: stats.size } : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
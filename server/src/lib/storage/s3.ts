@@ -0,0 +1,71 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NotFound,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import type { Readable } from 'stream';
+import type { ByteRange, StorageBackend, StoredObjectInfo } from '.';
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO and similar).
+ */
+export class S3Storage implements StorageBackend {
+  constructor(private readonly client: S3Client, private readonly bucket: string) {}
+
+  static fromEnv(): S3Storage {
+    const bucket = process.env['S3_BUCKET'];
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+    }
+
+    const accessKeyId = process.env['S3_ACCESS_KEY_ID'];
+    const secretAccessKey = process.env['S3_SECRET_ACCESS_KEY'];
+
+    const client = new S3Client({
+      region: process.env['S3_REGION'] || 'us-east-1',
+      endpoint: process.env['S3_ENDPOINT'] || undefined,
+      // MinIO and most self-hosted stand-ins only support path-style addressing
+      forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] === 'true',
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined
+    });
+
+    return new S3Storage(client, bucket);
+  }
+
+  async put(key: string, body: Readable): Promise<void> {
+    // Multipart upload handles streams of unknown length without buffering them
+    const upload = new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: body }
+    });
+    await upload.done();
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const result = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined
+    }));
+    return result.Body as Readable;
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { size: result.ContentLength ?? 0 };
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
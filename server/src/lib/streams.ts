@@ -0,0 +1,94 @@
+import { Readable, Transform, type TransformCallback } from 'stream';
+import { createHash, type Hash } from 'crypto';
+import { TRPCError } from '@trpc/server';
+
+/**
+ * Pass-through stream that counts the bytes flowing through it.
+ * Fails with PAYLOAD_TOO_LARGE as soon as the count exceeds the limit.
+ */
+export class ByteCounter extends Transform {
+  bytes = 0;
+
+  constructor(
+    private readonly maxBytes: number = Infinity,
+    private readonly limitMessage: string = `File exceeds maximum allowed size of ${maxBytes} bytes`
+  ) {
+    super();
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.maxBytes) {
+      callback(new TRPCError({
+        code: 'PAYLOAD_TOO_LARGE',
+        message: this.limitMessage
+      }));
+      return;
+    }
+    callback(null, chunk);
+  }
+}
+
+/**
+ * Pass-through stream that hashes the bytes flowing through it with one or more algorithms.
+ * Read `digest(algorithm)` once the stream has finished.
+ */
+export class HashingStream extends Transform {
+  private readonly hashes: Map<string, Hash>;
+
+  constructor(...algorithms: string[]) {
+    super();
+    this.hashes = new Map(algorithms.map(algorithm => [algorithm, createHash(algorithm)]));
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    for (const hash of this.hashes.values()) {
+      hash.update(chunk);
+    }
+    callback(null, chunk);
+  }
+
+  digest(algorithm: string): string {
+    const hash = this.hashes.get(algorithm);
+    if (!hash) {
+      throw new Error(`Stream is not hashed with ${algorithm}`);
+    }
+    return hash.copy().digest('hex');
+  }
+}
+
+/**
+ * Readable that only calls `open` once it is first read from.
+ * Lets many sources be queued (e.g. archive entries) without opening them all at once.
+ */
+export function lazyReadable(open: () => Promise<Readable>): Readable {
+  return Readable.from((async function* () {
+    yield* await open();
+  })());
+}
+
+/**
+ * Reads up to `maxBytes` from the start of a stream and destroys it.
+ * `complete` tells whether the stream ended within that many bytes.
+ */
+export async function readHead(stream: Readable, maxBytes: number): Promise<{ head: Buffer; complete: boolean }> {
+  const chunks: Buffer[] = [];
+  let length = 0;
+  let complete = true;
+
+  try {
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      length += chunk.length;
+      // A stream ending exactly at the limit is complete, so only stop once it goes past it
+      if (length > maxBytes) {
+        complete = false;
+        break;
+      }
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  return { head: Buffer.concat(chunks).subarray(0, maxBytes), complete };
+}
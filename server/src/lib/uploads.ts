@@ -0,0 +1,163 @@
+import { db } from '../db';
+import { datasetsTable, uploadSessionsTable, type UploadSession } from '../db/schema';
+import { type AuthUser, type CreateDatasetFileInput, type Dataset, type DatasetFile } from '../schema';
+import { and, eq, isNull, lte, or, type SQL } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { hasRole } from './roles';
+import { ALLOWED_FILE_TYPES, detectStoredFormat, formatFromFilename } from './formats';
+import { listArchiveMembers } from './archives';
+import { type StorageBackend } from './storage';
+import { recordFileValidation } from './validation';
+
+export const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB in bytes
+
+export interface UploadFilename {
+  filename: string;
+  // Format claimed by the extension, ignoring a compression suffix like `.gz`
+  type: string;
+}
+
+/**
+ * Strips directories from a client supplied filename and derives the file type from its extension.
+ */
+export function parseUploadFilename(name: string): UploadFilename {
+  const filename = path.basename(name);
+  const { format } = formatFromFilename(filename);
+  if (!format || !ALLOWED_FILE_TYPES.includes(format)) {
+    const extension = path.extname(filename).slice(1).toLowerCase();
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid file type: ${extension || 'none'}. Allowed types: ${ALLOWED_FILE_TYPES.join(', ')}`
+    });
+  }
+  return { filename, type: format };
+}
+
+/**
+ * Detects the format and compression of an uploaded file from its stored content, and lists the members of archives.
+ * Fails with BAD_REQUEST when the content is not a supported format or contradicts a Parquet or archive file name.
+ */
+export async function inspectUpload(
+  storage: StorageBackend,
+  key: string,
+  size: number,
+  upload: UploadFilename
+): Promise<Pick<CreateDatasetFileInput, 'type' | 'compression' | 'members'>> {
+  const invalid = new TRPCError({
+    code: 'BAD_REQUEST',
+    message: `Content of ${upload.filename} is not a valid ${upload.type} file`
+  });
+
+  const { format: claimed } = formatFromFilename(`upload.${upload.type}`);
+  const stored = await detectStoredFormat(storage, key, size, claimed);
+  if (!stored) {
+    throw invalid;
+  }
+
+  if (stored.format !== 'zip' && stored.format !== 'tar') {
+    return { type: stored.format, compression: stored.compression };
+  }
+
+  const archive = { storage, key, size, format: stored.format, compression: stored.compression };
+  const members = await listArchiveMembers(archive).catch(() => {
+    throw invalid;
+  });
+  return { type: stored.format, compression: stored.compression, members };
+}
+
+/**
+ * Validates a newly uploaded file and returns it with its report. The upload itself has succeeded at this point,
+ * so a validation that cannot run leaves the file pending for the validation job instead of failing the upload.
+ */
+export async function validateUpload(file: DatasetFile): Promise<DatasetFile> {
+  try {
+    return await recordFileValidation(file);
+  } catch (error) {
+    console.error(`Validation of file ${file.id} failed:`, error);
+    return file;
+  }
+}
+
+/**
+ * Storage key for a finished dataset file; the random prefix keeps repeated uploads apart.
+ */
+export function datasetFileKey(datasetId: number, filename: string): string {
+  return `datasets/${datasetId}/${randomUUID()}-${filename.replace(/[^\w.-]/g, '_')}`;
+}
+
+/**
+ * Loads the dataset and checks that the actor may add files to it.
+ */
+export async function assertCanUploadTo(datasetId: number, actor: AuthUser): Promise<Dataset> {
+  const datasets = await db.select()
+    .from(datasetsTable)
+    .where(eq(datasetsTable.id, datasetId))
+    .execute();
+
+  if (datasets.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Dataset with id ${datasetId} not found` });
+  }
+
+  if (datasets[0].contributor_id !== actor.id && !hasRole(actor, 'curator')) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You can only add files to your own datasets' });
+  }
+
+  return datasets[0];
+}
+
+/**
+ * Expiry for an upload session touched now; every accepted chunk pushes it forward.
+ */
+export function uploadSessionExpiry(now: Date = new Date()): Date {
+  const ttlHours = Number(process.env['UPLOAD_SESSION_TTL_HOURS'] || 24);
+  return new Date(now.getTime() + ttlHours * 60 * 60 * 1000);
+}
+
+/**
+ * Time after which a finalize claim that never produced a file is considered abandoned, e.g. by a crash.
+ */
+const finalizeLeaseMs = (): number => Number(process.env['UPLOAD_FINALIZE_LEASE_MINUTES'] || 15) * 60 * 1000;
+
+/**
+ * Whether the session has been claimed by a finalize call that is still within its lease or has finished.
+ */
+export function isFinalizeClaimed(session: Pick<UploadSession, 'completed_at' | 'file_id'>, now: Date = new Date()): boolean {
+  return session.completed_at !== null && (session.file_id !== null || now.getTime() - session.completed_at.getTime() < finalizeLeaseMs());
+}
+
+/**
+ * Matches sessions that are not claimed, including those whose finalize claim is abandoned.
+ */
+export function unclaimedUploadSession(now: Date = new Date()): SQL {
+  return or(
+    isNull(uploadSessionsTable.completed_at),
+    and(
+      isNull(uploadSessionsTable.file_id),
+      lte(uploadSessionsTable.completed_at, new Date(now.getTime() - finalizeLeaseMs()))
+    )
+  )!;
+}
+
+/**
+ * Loads an upload session owned by the actor.
+ * Sessions of other users and unfinished sessions past their expiry are reported as NOT_FOUND.
+ */
+export async function loadUploadSession(uploadId: number, actor: AuthUser): Promise<UploadSession> {
+  const sessions = await db.select()
+    .from(uploadSessionsTable)
+    .where(eq(uploadSessionsTable.id, uploadId))
+    .execute();
+
+  const session = sessions[0];
+  if (!session || session.user_id !== actor.id) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Upload with id ${uploadId} not found` });
+  }
+
+  if (!isFinalizeClaimed(session) && session.expires_at <= new Date()) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: `Upload with id ${uploadId} has expired` });
+  }
+
+  return session;
+}
@@ -0,0 +1,390 @@
+import { createHash } from 'crypto';
+import { pipeline, Transform, type Readable, type TransformCallback } from 'stream';
+import { db } from '../db';
+import { datasetFilesTable } from '../db/schema';
+import { type DatasetFile, type ValidationCheckResult } from '../schema';
+import { eq } from 'drizzle-orm';
+import { listArchiveMembers } from './archives';
+import { openArff, parseArffRow } from './arff';
+import { decompress, maxDecompressedSize } from './compression';
+import { openCsv, type CsvEncoding } from './csv';
+import { detectStoredFormat, formatFromFilename, type TextFormat } from './formats';
+import { MISSING_MARKERS, type PreviewSource } from './preview';
+import { flattenRecord, JSON_SAMPLE_RECORDS, openJSON, toJSONCell } from './preview/json';
+import { parseJSONLine } from './preview/jsonl';
+import { readLines } from './preview/lines';
+import { previewParquet } from './preview/parquet';
+import { getStorage } from './storage';
+
+type CheckStatus = ValidationCheckResult['status'];
+
+export interface FileValidation {
+  // Worst status of the checks
+  status: CheckStatus;
+  checks: ValidationCheckResult[];
+}
+
+interface TableRow {
+  values: (string | null)[];
+  // Line of the row, or its position among the records of a JSON array
+  position: number;
+  // Whether the row has the columns of the headers and no others
+  aligned: boolean;
+}
+
+/**
+ * Rows of a text file as read for validation.
+ */
+interface ValidatedTable {
+  headers: string[];
+  // CSV headers are the first row of the content, ARFF attributes are declared and JSON keys are collected from records
+  headerSource: 'row' | 'declared' | 'keys';
+  unit: 'line' | 'record';
+  // Misaligned CSV rows cannot be matched with their columns, while JSON records may legitimately vary
+  misaligned: { status: CheckStatus; label: string };
+  // Encoding the content was read with, when not assumed to be UTF-8
+  encoding?: CsvEncoding;
+  rows: AsyncIterable<TableRow>;
+}
+
+// Rows remembered to find duplicates; beyond this duplicate counts are lower bounds
+const MAX_TRACKED_ROWS = 500_000;
+
+const STATUS_ORDER: CheckStatus[] = ['pass', 'warn', 'fail'];
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+const result = (check: ValidationCheckResult['check'], status: CheckStatus, message: string | null = null): ValidationCheckResult =>
+  ({ check, status, message });
+
+const summarize = (checks: ValidationCheckResult[]): FileValidation => ({
+  status: checks.reduce<CheckStatus>(
+    (worst, check) => STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst) ? check.status : worst,
+    'pass'
+  ),
+  checks
+});
+
+const unparsable = (message: string): FileValidation => summarize([result('parse', 'fail', message)]);
+
+/**
+ * Passes content through unchanged while checking that it is valid UTF-8.
+ */
+class Utf8Validator extends Transform {
+  private readonly decoder = new TextDecoder('utf-8', { fatal: true });
+  private bytes = 0;
+  // Offset of the chunk holding the first invalid sequence
+  invalidAt: number | null = null;
+
+  private check(decode: () => string): void {
+    if (this.invalidAt !== null) {
+      return;
+    }
+    try {
+      decode();
+    } catch (error) {
+      this.invalidAt = this.bytes;
+    }
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.check(() => this.decoder.decode(chunk, { stream: true }));
+    this.bytes += chunk.length;
+    callback(null, chunk);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.check(() => this.decoder.decode());
+    callback();
+  }
+}
+
+async function csvTable(stream: Readable, format: 'csv' | 'tsv'): Promise<ValidatedTable> {
+  const { dialect, records } = await openCsv(stream, { delimiter: format === 'tsv' ? '\t' : undefined });
+  const header = await records.next();
+  const headers = header.done ? [] : header.value.fields.map(name => name.trim());
+
+  async function* rows(): AsyncGenerator<TableRow> {
+    for await (const record of records) {
+      yield {
+        values: record.fields.map(field => MISSING_MARKERS.includes(field.trim().toLowerCase()) ? null : field),
+        position: record.line,
+        aligned: record.fields.length === headers.length
+      };
+    }
+  }
+
+  return {
+    headers,
+    headerSource: 'row',
+    unit: 'line',
+    misaligned: { status: 'fail', label: `Rows without the ${headers.length} columns of the header` },
+    encoding: dialect.encoding,
+    rows: rows()
+  };
+}
+
+/**
+ * Lays out JSON records like the preview does, with the flattened keys of the first records as columns.
+ * Records with keys beyond those are reported rather than rejected.
+ */
+async function jsonTable(
+  records: AsyncIterator<{ record: unknown; position: number }>,
+  unit: ValidatedTable['unit']
+): Promise<ValidatedTable> {
+  const sample: { record: Map<string, unknown>; position: number }[] = [];
+  let exhausted = false;
+  while (sample.length < JSON_SAMPLE_RECORDS) {
+    const next = await records.next();
+    if (next.done) {
+      exhausted = true;
+      break;
+    }
+    sample.push({ record: flattenRecord(next.value.record), position: next.value.position });
+  }
+
+  const headers = [...new Set(sample.flatMap(({ record }) => [...record.keys()]))];
+  const toRow = ({ record, position }: { record: Map<string, unknown>; position: number }): TableRow => ({
+    values: headers.map(header => {
+      const cell = toJSONCell(record.get(header));
+      return cell === null ? null : String(cell);
+    }),
+    position,
+    aligned: [...record.keys()].every(key => headers.includes(key))
+  });
+
+  async function* rows(): AsyncGenerator<TableRow> {
+    yield* sample.map(toRow);
+    if (exhausted) {
+      return;
+    }
+    for (let next = await records.next(); !next.done; next = await records.next()) {
+      yield toRow({ record: flattenRecord(next.value.record), position: next.value.position });
+    }
+  }
+
+  return {
+    headers,
+    headerSource: 'keys',
+    unit,
+    misaligned: { status: 'warn', label: `Records with keys not found in the first ${JSON_SAMPLE_RECORDS} records` },
+    rows: rows()
+  };
+}
+
+async function* jsonArrayRecords(stream: Readable): AsyncGenerator<{ record: unknown; position: number }> {
+  const content = await openJSON(stream);
+  if (content.kind === 'document') {
+    yield { record: content.data, position: 1 };
+    return;
+  }
+  let position = 0;
+  for await (const element of content.elements) {
+    yield { record: JSON.parse(element.value), position: ++position };
+  }
+}
+
+async function* jsonLineRecords(stream: Readable): AsyncGenerator<{ record: unknown; position: number }> {
+  let lineNumber = 0;
+  for await (const line of readLines(stream)) {
+    lineNumber++;
+    const text = line.value.trim();
+    if (text) {
+      yield { record: parseJSONLine({ text, line: lineNumber }), position: lineNumber };
+    }
+  }
+}
+
+async function arffTable(stream: Readable): Promise<ValidatedTable> {
+  const { header, lines } = await openArff(stream);
+
+  async function* rows(): AsyncGenerator<TableRow> {
+    for await (const { text, line } of lines) {
+      let values;
+      try {
+        values = parseArffRow(text, header.attributes);
+      } catch (error) {
+        throw new Error(`Line ${line}: ${errorMessage(error)}`);
+      }
+      yield { values: values.map(value => value === null ? null : String(value)), position: line, aligned: true };
+    }
+  }
+
+  return {
+    headers: header.attributes.map(attribute => attribute.name),
+    headerSource: 'declared',
+    unit: 'line',
+    misaligned: { status: 'fail', label: 'Rows without the declared attributes' },
+    rows: rows()
+  };
+}
+
+async function openTable(stream: Readable, format: TextFormat): Promise<ValidatedTable> {
+  switch (format) {
+    case 'csv':
+    case 'tsv':
+      return csvTable(stream, format);
+    case 'json':
+      return jsonTable(jsonArrayRecords(stream), 'record');
+    case 'jsonl':
+      return jsonTable(jsonLineRecords(stream), 'line');
+    case 'arff':
+      return arffTable(stream);
+  }
+}
+
+function checkHeader(table: ValidatedTable): ValidationCheckResult {
+  if (table.headerSource !== 'row') {
+    return result('header', 'pass');
+  }
+  if (table.headers.length === 0) {
+    return result('header', 'fail', 'File is empty');
+  }
+
+  const problems: string[] = [];
+  const unnamed = table.headers.flatMap((name, i) => name === '' ? [i + 1] : []);
+  if (unnamed.length > 0) {
+    problems.push(`Columns without a name: ${unnamed.join(', ')}`);
+  }
+  const duplicated = [...new Set(table.headers.filter((name, i) => name !== '' && table.headers.indexOf(name) !== i))];
+  if (duplicated.length > 0) {
+    problems.push(`Column names used more than once: ${duplicated.join(', ')}`);
+  }
+  if (table.headers.every(name => NUMBER_PATTERN.test(name))) {
+    problems.push('The first row looks like data rather than column names');
+  }
+  return problems.length > 0 ? result('header', 'warn', problems.join('; ')) : result('header', 'pass');
+}
+
+/**
+ * Reads every row of a table, checking that rows line up with the headers, that no row is repeated
+ * and that every column has values.
+ */
+async function checkRows(table: ValidatedTable): Promise<ValidationCheckResult[]> {
+  const filled = table.headers.map(() => false);
+  const seen = new Set<string>();
+  let rowCount = 0;
+  let misaligned = 0;
+  let firstMisaligned = 0;
+  let duplicates = 0;
+  let firstDuplicate = 0;
+  let capped = false;
+
+  for await (const row of table.rows) {
+    rowCount++;
+    if (!row.aligned && misaligned++ === 0) {
+      firstMisaligned = row.position;
+    }
+    row.values.forEach((value, i) => {
+      if (value !== null && i < filled.length) {
+        filled[i] = true;
+      }
+    });
+
+    const digest = createHash('sha1').update(JSON.stringify(row.values)).digest('base64');
+    if (seen.has(digest)) {
+      if (duplicates++ === 0) {
+        firstDuplicate = row.position;
+      }
+    } else if (seen.size < MAX_TRACKED_ROWS) {
+      seen.add(digest);
+    } else {
+      capped = true;
+    }
+  }
+
+  const checks: ValidationCheckResult[] = [];
+  checks.push(misaligned > 0
+    ? result('column_count', table.misaligned.status, `${table.misaligned.label}: ${misaligned}, first at ${table.unit} ${firstMisaligned}`)
+    : result('column_count', 'pass'));
+
+  const count = capped ? `at least ${duplicates}` : String(duplicates);
+  checks.push(duplicates > 0
+    ? result('duplicate_rows', 'warn', `Duplicate rows: ${count}, first at ${table.unit} ${firstDuplicate}`)
+    : result('duplicate_rows', 'pass'));
+
+  const empty = table.headers.flatMap((name, i) => filled[i] ? [] : [name || `column ${i + 1}`]);
+  if (rowCount === 0) {
+    checks.push(result('empty_columns', 'warn', 'File has no data rows'));
+  } else if (empty.length > 0) {
+    checks.push(result('empty_columns', 'warn', `Columns without values: ${empty.join(', ')}`));
+  } else {
+    checks.push(result('empty_columns', 'pass'));
+  }
+  return checks;
+}
+
+function checkEncoding(table: ValidatedTable, utf8: Utf8Validator): ValidationCheckResult {
+  if (table.encoding && table.encoding !== 'utf-8') {
+    return result('encoding', 'warn', `Content is encoded as ${table.encoding}, not UTF-8`);
+  }
+  if (utf8.invalidAt !== null) {
+    return result('encoding', 'warn', `Content is not valid UTF-8 around byte ${utf8.invalidAt}`);
+  }
+  return result('encoding', 'pass');
+}
+
+/**
+ * Checks that a stored file can be read as its format. Text files are read to the end (compressed ones fail beyond
+ * MAX_DECOMPRESSED_SIZE) and also checked for their encoding, header, column counts, duplicate rows and empty
+ * columns; Parquet files and archives are checked for readable metadata. Storage errors are thrown, everything wrong with the content is reported.
+ */
+export async function validateFile(file: DatasetFile): Promise<FileValidation> {
+  const storage = getStorage();
+  const stat = await storage.stat(file.path);
+  if (!stat) {
+    return unparsable('Content is missing from storage');
+  }
+
+  const stored = await detectStoredFormat(storage, file.path, stat.size, formatFromFilename(file.filename).format);
+  if (!stored) {
+    return unparsable(`Content is not a valid ${file.type} file`);
+  }
+
+  if (stored.format === 'parquet') {
+    try {
+      const source: PreviewSource = { size: stat.size, open: range => storage.createReadStream(file.path, range) };
+      await previewParquet(source, { offset: 0, limit: 0 });
+    } catch (error) {
+      return unparsable(`Could not read Parquet metadata: ${errorMessage(error)}`);
+    }
+    return summarize([result('parse', 'pass')]);
+  }
+
+  if (stored.format === 'zip' || stored.format === 'tar') {
+    try {
+      await listArchiveMembers({ storage, key: file.path, size: stat.size, format: stored.format, compression: stored.compression });
+    } catch (error) {
+      return unparsable(`Could not list archive members: ${errorMessage(error)}`);
+    }
+    return summarize([result('parse', 'pass')]);
+  }
+
+  const utf8 = new Utf8Validator();
+  const stream = pipeline(decompress(await storage.createReadStream(file.path), stored.compression, maxDecompressedSize()), utf8, () => undefined);
+  try {
+    const table = await openTable(stream, stored.format);
+    const header = checkHeader(table);
+    const rows = await checkRows(table);
+    return summarize([result('parse', 'pass'), checkEncoding(table, utf8), header, ...rows]);
+  } catch (error) {
+    return unparsable(`Could not parse file: ${errorMessage(error)}`);
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Validates a dataset file and stores the report on it.
+ */
+export async function recordFileValidation(file: DatasetFile): Promise<DatasetFile> {
+  const { status, checks } = await validateFile(file);
+  const updated = await db.update(datasetFilesTable)
+    .set({ validation_status: status, validation_report: checks, validated_at: new Date() })
+    .where(eq(datasetFilesTable.id, file.id))
+    .returning()
+    .execute();
+  return updated[0] ?? file;
+}
@@ -2,10 +2,23 @@ import { z } from 'zod';
 
 // Enums
 export const userRoleEnum = z.enum(['viewer', 'contributor', 'curator', 'admin']);
+export type UserRole = z.infer<typeof userRoleEnum>;
 export const profileTypeEnum = z.enum(['lecturer', 'student']);
 export const datasetAccessLevelEnum = z.enum(['public', 'private', 'restricted']);
-export const datasetStatusEnum = z.enum(['draft', 'review', 'approved', 'published']);
-export const curationReviewStatusEnum = z.enum(['pending', 'approved', 'rejected']);
+export const datasetStatusEnum = z.enum(['draft', 'review', 'approved', 'published', 'withdrawn']);
+export const curationReviewStatusEnum = z.enum(['pending', 'approved', 'changes_requested', 'rejected']);
+export const accessRequestStatusEnum = z.enum(['pending', 'approved', 'denied']);
+export const fileIntegrityStatusEnum = z.enum(['unverified', 'ok', 'mismatch', 'missing']);
+export const fileCompressionEnum = z.enum(['gzip', 'bzip2']);
+export const columnTypeEnum = z.enum(['integer', 'float', 'boolean', 'date', 'categorical', 'text']);
+export const fileValidationStatusEnum = z.enum(['pending', 'pass', 'warn', 'fail']);
+export const validationCheckEnum = z.enum(['parse', 'encoding', 'header', 'column_count', 'duplicate_rows', 'empty_columns']);
+export const reviewFieldEnum = z.enum(['title', 'description', 'domain', 'task', 'license', 'doi', 'access_level', 'publication_year']);
+
+export type DatasetStatus = z.infer<typeof datasetStatusEnum>;
+export type FileCompression = z.infer<typeof fileCompressionEnum>;
+export type ColumnType = z.infer<typeof columnTypeEnum>;
+export type FileValidationStatus = z.infer<typeof fileValidationStatusEnum>;
 
 // User schemas
 export const userSchema = z.object({
@@ -21,6 +34,11 @@ export const userSchema = z.object({
 
 export type User = z.infer<typeof userSchema>;
 
+// User as exposed to callers (never includes the password hash)
+export const authUserSchema = userSchema.omit({ password: true });
+
+export type AuthUser = z.infer<typeof authUserSchema>;
+
 // Input schema for creating users
 export const createUserInputSchema = z.object({
   email: z.string().email(),
@@ -94,12 +112,37 @@ export const datasetSchema = z.object({
   status: datasetStatusEnum,
   contributor_id: z.number(),
   publication_year: z.number().int(),
+  // Version the metadata and files belong to; published versions are frozen and later edits start the next one
+  version: z.number().int(),
+  published_version: z.number().int().nullable(),
+  // Published version still served to readers while edits to the next version await curation
+  live_version: z.number().int().nullable(),
+  // Number of times the dataset has been submitted for review; reviews belong to the round they were given in
+  review_round: z.number().int(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Dataset = z.infer<typeof datasetSchema>;
 
+// Frozen snapshot of a published dataset version
+export const datasetVersionSchema = z.object({
+  id: z.number(),
+  dataset_id: z.number(),
+  version: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  domain: z.string(),
+  task: z.string(),
+  license: z.string(),
+  doi: z.string().nullable(),
+  contributor_id: z.number(),
+  publication_year: z.number().int(),
+  published_at: z.coerce.date()
+});
+
+export type DatasetVersion = z.infer<typeof datasetVersionSchema>;
+
 // Input schema for creating datasets
 export const createDatasetInputSchema = z.object({
   title: z.string().min(1),
@@ -109,7 +152,6 @@ export const createDatasetInputSchema = z.object({
   license: z.string().min(1),
   doi: z.string().nullable(),
   access_level: datasetAccessLevelEnum,
-  status: datasetStatusEnum.default('draft'),
   contributor_id: z.number(),
   publication_year: z.number().int().min(1900).max(new Date().getFullYear() + 10)
 });
@@ -126,13 +168,47 @@ export const updateDatasetInputSchema = z.object({
   license: z.string().min(1).optional(),
   doi: z.string().nullable().optional(),
   access_level: datasetAccessLevelEnum.optional(),
-  status: datasetStatusEnum.optional(),
   contributor_id: z.number().optional(),
   publication_year: z.number().int().min(1900).max(new Date().getFullYear() + 10).optional()
 });
 
 export type UpdateDatasetInput = z.infer<typeof updateDatasetInputSchema>;
 
+// Input schema for moving datasets through the lifecycle
+export const transitionDatasetInputSchema = z.object({
+  id: z.number(),
+  status: datasetStatusEnum,
+  // Recorded in the status history; required for withdrawals
+  reason: z.string().min(1).nullable().optional()
+});
+
+export type TransitionDatasetInput = z.infer<typeof transitionDatasetInputSchema>;
+
+// One status change of a dataset
+export const datasetStatusChangeSchema = z.object({
+  id: z.number(),
+  dataset_id: z.number(),
+  version: z.number().int(),
+  from_status: datasetStatusEnum,
+  to_status: datasetStatusEnum,
+  // Null for changes made by the system or by users that have since been deleted
+  actor_id: z.number().nullable(),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type DatasetStatusChange = z.infer<typeof datasetStatusChangeSchema>;
+
+// Outcome of one check of the validation run on uploaded files
+export const validationCheckResultSchema = z.object({
+  check: validationCheckEnum,
+  status: fileValidationStatusEnum.exclude(['pending']),
+  // What was found, null when the check passed without remarks
+  message: z.string().nullable()
+});
+
+export type ValidationCheckResult = z.infer<typeof validationCheckResultSchema>;
+
 // Dataset file schemas
 export const datasetFileSchema = z.object({
   id: z.number(),
@@ -141,18 +217,74 @@ export const datasetFileSchema = z.object({
   path: z.string(),
   size: z.number().int().nonnegative(),
   type: z.string(),
+  sha256: z.string().nullable(),
+  md5: z.string().nullable(),
+  integrity_status: fileIntegrityStatusEnum,
+  integrity_checked_at: z.coerce.date().nullable(),
+  compression: fileCompressionEnum.nullable(),
+  validation_status: fileValidationStatusEnum,
+  // Null until the file has been validated
+  validation_report: z.array(validationCheckResultSchema).nullable(),
+  validated_at: z.coerce.date().nullable(),
   created_at: z.coerce.date()
 });
 
 export type DatasetFile = z.infer<typeof datasetFileSchema>;
 
+// Member of a zip or tar dataset file
+export const datasetFileMemberSchema = z.object({
+  id: z.number(),
+  file_id: z.number(),
+  path: z.string(),
+  size: z.number().int().nonnegative(),
+  format: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type DatasetFileMember = z.infer<typeof datasetFileMemberSchema>;
+
+// Inferred type and statistics of one column of a tabular file
+export const columnProfileSchema = z.object({
+  name: z.string(),
+  type: columnTypeEnum,
+  null_count: z.number().int(),
+  distinct_count: z.number().int(),
+  // Set when the column had too many distinct values to track; distinct_count and top_values are then lower bounds
+  distinct_count_capped: z.boolean(),
+  // Numbers for numeric columns, ISO strings for date columns, null otherwise
+  min: z.union([z.number(), z.string()]).nullable(),
+  max: z.union([z.number(), z.string()]).nullable(),
+  mean: z.number().nullable(),
+  std: z.number().nullable(),
+  top_values: z.array(z.object({ value: z.string(), count: z.number().int() }))
+});
+
+export type ColumnProfile = z.infer<typeof columnProfileSchema>;
+
+// File profile schemas
+export const fileProfileSchema = z.object({
+  id: z.number(),
+  file_id: z.number(),
+  row_count: z.number().int().nullable(),
+  columns: z.array(columnProfileSchema),
+  error: z.string().nullable(),
+  profiled_at: z.coerce.date()
+});
+
+export type FileProfile = z.infer<typeof fileProfileSchema>;
+
 // Input schema for creating dataset files
 export const createDatasetFileInputSchema = z.object({
   dataset_id: z.number(),
   filename: z.string().min(1),
   path: z.string().min(1),
   size: z.number().int().nonnegative(),
-  type: z.string().min(1)
+  type: z.string().min(1),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, 'Expected a lowercase hex SHA-256 digest').nullable().optional(),
+  md5: z.string().regex(/^[0-9a-f]{32}$/, 'Expected a lowercase hex MD5 digest').nullable().optional(),
+  compression: fileCompressionEnum.nullable().optional(),
+  // Listing of archive members, stored with the file
+  members: z.array(datasetFileMemberSchema.pick({ path: true, size: true, format: true })).optional()
 });
 
 export type CreateDatasetFileInput = z.infer<typeof createDatasetFileInputSchema>;
@@ -169,13 +301,86 @@ export const updateDatasetFileInputSchema = z.object({
 
 export type UpdateDatasetFileInput = z.infer<typeof updateDatasetFileInputSchema>;
 
+// Checklist schemas
+export const checklistItemSchema = z.object({
+  key: z.string().regex(/^[a-z0-9_]+$/, 'Checklist keys are lowercase letters, digits and underscores'),
+  label: z.string().min(1),
+  // Required items have to be ticked before a reviewer can approve
+  required: z.boolean()
+});
+
+export type ChecklistItem = z.infer<typeof checklistItemSchema>;
+
+export const checklistTemplateSchema = z.object({
+  id: z.number(),
+  // Null for the default template, which applies to domains without their own
+  domain: z.string().nullable(),
+  name: z.string(),
+  items: z.array(checklistItemSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ChecklistTemplate = z.infer<typeof checklistTemplateSchema>;
+
+// Input schema for creating or replacing the checklist template of a domain
+export const setChecklistTemplateInputSchema = z.object({
+  domain: z.string().min(1).nullable(),
+  name: z.string().min(1),
+  items: z.array(checklistItemSchema).min(1)
+    .refine(items => new Set(items.map(item => item.key)).size === items.length, 'Checklist keys must be unique')
+});
+
+export type SetChecklistTemplateInput = z.infer<typeof setChecklistTemplateInputSchema>;
+
+// A reviewer's answer to one checklist item
+export const checklistAnswerSchema = z.object({
+  key: z.string(),
+  checked: z.boolean(),
+  comment: z.string().nullable().optional()
+});
+
+export type ChecklistAnswer = z.infer<typeof checklistAnswerSchema>;
+
+// Checklist item as answered in a review, keeping the wording the reviewer saw
+export const checklistResultSchema = checklistItemSchema.extend({
+  checked: z.boolean(),
+  comment: z.string().nullable()
+});
+
+export type ChecklistResult = z.infer<typeof checklistResultSchema>;
+
+// Review comment schemas
+export const reviewCommentSchema = z.object({
+  id: z.number(),
+  review_id: z.number(),
+  // Each comment refers to either a metadata field or a file of the dataset
+  field: reviewFieldEnum.nullable(),
+  file_id: z.number().nullable(),
+  body: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type ReviewComment = z.infer<typeof reviewCommentSchema>;
+
+export const reviewCommentInputSchema = z.object({
+  field: reviewFieldEnum.optional(),
+  file_id: z.number().optional(),
+  body: z.string().min(1)
+}).refine(comment => (comment.field === undefined) !== (comment.file_id === undefined), 'Comments refer to either a field or a file');
+
+export type ReviewCommentInput = z.infer<typeof reviewCommentInputSchema>;
+
 // Curation review schemas
 export const curationReviewSchema = z.object({
   id: z.number(),
   dataset_id: z.number(),
   reviewer_id: z.number(),
+  round: z.number().int(),
   status: curationReviewStatusEnum,
   notes: z.string().nullable(),
+  // Null for reviews given without a checklist
+  checklist: z.array(checklistResultSchema).nullable(),
   reviewed_at: z.coerce.date(),
   created_at: z.coerce.date()
 });
@@ -188,6 +393,9 @@ export const createCurationReviewInputSchema = z.object({
   reviewer_id: z.number(),
   status: curationReviewStatusEnum,
   notes: z.string().nullable(),
+  // Answers to every item of the dataset's checklist template
+  checklist: z.array(checklistAnswerSchema).optional(),
+  comments: z.array(reviewCommentInputSchema).optional(),
   reviewed_at: z.coerce.date().optional()
 });
 
@@ -205,6 +413,200 @@ export const updateCurationReviewInputSchema = z.object({
 
 export type UpdateCurationReviewInput = z.infer<typeof updateCurationReviewInputSchema>;
 
+// Curation policy schemas
+export const curationPolicySchema = z.object({
+  id: z.number(),
+  // Null for the default policy, which applies to domains without their own
+  domain: z.string().nullable(),
+  required_approvals: z.number().int().positive(),
+  rejection_blocks: z.boolean(),
+  admin_override: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type CurationPolicy = z.infer<typeof curationPolicySchema>;
+
+// Input schema for creating or replacing the policy of a domain
+export const setCurationPolicyInputSchema = z.object({
+  domain: z.string().min(1).nullable(),
+  required_approvals: z.number().int().min(1).max(10),
+  rejection_blocks: z.boolean(),
+  admin_override: z.boolean()
+});
+
+export type SetCurationPolicyInput = z.infer<typeof setCurationPolicyInputSchema>;
+
+// Decision the reviews of the current round amount to under the dataset's policy
+export const curationOutcomeSchema = z.object({
+  decision: z.enum(['approved', 'changes_requested', 'rejected', 'pending']),
+  approvals: z.number().int(),
+  changes_requested: z.number().int(),
+  rejections: z.number().int(),
+  required_approvals: z.number().int(),
+  // Set when approvals and rejections are both present without either deciding
+  conflict: z.boolean()
+});
+
+export type CurationOutcome = z.infer<typeof curationOutcomeSchema>;
+
+// Review assignment schemas
+export const reviewAssignmentSchema = z.object({
+  id: z.number(),
+  dataset_id: z.number(),
+  reviewer_id: z.number(),
+  assigned_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type ReviewAssignment = z.infer<typeof reviewAssignmentSchema>;
+
+// Input schema for assigning and unassigning reviewers
+export const reviewAssignmentInputSchema = z.object({
+  dataset_id: z.number(),
+  reviewer_id: z.number()
+});
+
+export type ReviewAssignmentInput = z.infer<typeof reviewAssignmentInputSchema>;
+
+// Curator queue schemas
+export const curationQueueInputSchema = z.object({
+  // Datasets assigned to the caller, datasets nobody is assigned to, or all of them
+  scope: z.enum(['all', 'mine', 'unclaimed']).default('all'),
+  overdue_only: z.boolean().default(false)
+});
+
+export type CurationQueueInput = z.infer<typeof curationQueueInputSchema>;
+
+export const curationQueueItemSchema = z.object({
+  dataset_id: z.number(),
+  title: z.string(),
+  domain: z.string(),
+  contributor_id: z.number(),
+  review_round: z.number().int(),
+  submitted_at: z.coerce.date(),
+  age_days: z.number().int(),
+  sla_due_at: z.coerce.date(),
+  sla_breached: z.boolean(),
+  reviewer_ids: z.array(z.number()),
+  outcome: curationOutcomeSchema
+});
+
+export type CurationQueueItem = z.infer<typeof curationQueueItemSchema>;
+
+// Input schema for setting the domains a curator has expertise in
+export const setCuratorDomainsInputSchema = z.object({
+  user_id: z.number(),
+  domains: z.array(z.string().min(1))
+});
+
+export type SetCuratorDomainsInput = z.infer<typeof setCuratorDomainsInputSchema>;
+
+// Review conversation schemas
+export const reviewMessageSchema = z.object({
+  id: z.number(),
+  dataset_id: z.number(),
+  round: z.number().int(),
+  author_id: z.number().nullable(),
+  body: z.string(),
+  created_at: z.coerce.date()
+});
+
+export type ReviewMessage = z.infer<typeof reviewMessageSchema>;
+
+// Input schema for posting to the conversation of the current review round
+export const postReviewMessageInputSchema = z.object({
+  dataset_id: z.number(),
+  body: z.string().min(1)
+});
+
+export type PostReviewMessageInput = z.infer<typeof postReviewMessageInputSchema>;
+
+// Input schema for resubmitting a dataset after revisions
+export const resubmitDatasetInputSchema = z.object({
+  id: z.number(),
+  // Opens the conversation of the new round, e.g. to summarise the changes
+  message: z.string().min(1).nullable().optional()
+});
+
+export type ResubmitDatasetInput = z.infer<typeof resubmitDatasetInputSchema>;
+
+// Access request schemas
+export const accessRequestSchema = z.object({
+  id: z.number(),
+  dataset_id: z.number(),
+  requester_id: z.number(),
+  purpose: z.string(),
+  status: accessRequestStatusEnum,
+  reviewer_id: z.number().nullable(),
+  decision_notes: z.string().nullable(),
+  expires_at: z.coerce.date().nullable(),
+  decided_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AccessRequest = z.infer<typeof accessRequestSchema>;
+
+// Input schema for requesting access to a restricted dataset
+export const createAccessRequestInputSchema = z.object({
+  dataset_id: z.number(),
+  requester_id: z.number(),
+  purpose: z.string().min(10)
+});
+
+export type CreateAccessRequestInput = z.infer<typeof createAccessRequestInputSchema>;
+
+// Input schema for approving or denying an access request
+export const decideAccessRequestInputSchema = z.object({
+  id: z.number(),
+  reviewer_id: z.number(),
+  status: z.enum(['approved', 'denied']),
+  expires_at: z.coerce.date().nullable(),
+  decision_notes: z.string().nullable()
+});
+
+export type DecideAccessRequestInput = z.infer<typeof decideAccessRequestInputSchema>;
+
+// Resumable upload schemas
+export const uploadSessionSchema = z.object({
+  id: z.number(),
+  dataset_id: z.number(),
+  user_id: z.number(),
+  filename: z.string(),
+  type: z.string(),
+  size: z.number().int().positive(),
+  received: z.number().int().nonnegative(),
+  sha256: z.string().nullable(),
+  file_id: z.number().nullable(),
+  expires_at: z.coerce.date(),
+  completed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type UploadSession = z.infer<typeof uploadSessionSchema>;
+
+// Input schema for starting a resumable upload
+export const createUploadSessionInputSchema = z.object({
+  dataset_id: z.number(),
+  filename: z.string().min(1),
+  size: z.number().int().positive(),
+  sha256: z.string().regex(/^[0-9a-f]{64}$/, 'Expected a lowercase hex SHA-256 digest').nullable().optional()
+});
+
+export type CreateUploadSessionInput = z.infer<typeof createUploadSessionInputSchema>;
+
+// Input schema for paging through a file preview
+export const previewDatasetFileInputSchema = z.object({
+  fileId: z.number(),
+  offset: z.number().int().nonnegative().default(0),
+  limit: z.number().int().positive().max(500).default(20),
+  // Path of the member to preview when the file is a zip or tar archive
+  member: z.string().min(1).optional()
+});
+
+export type PreviewDatasetFileInput = z.infer<typeof previewDatasetFileInputSchema>;
+
 // Authentication schemas
 export const loginInputSchema = z.object({
   email: z.string().email(),
@@ -213,6 +615,26 @@ export const loginInputSchema = z.object({
 
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+// Session schemas
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  token_hash: z.string(),
+  expires_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Session = z.infer<typeof sessionSchema>;
+
+export const loginResultSchema = z.object({
+  user: authUserSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type LoginResult = z.infer<typeof loginResultSchema>;
+
 // Search and filter schemas
 export const datasetSearchInputSchema = z.object({
   query: z.string().optional(),
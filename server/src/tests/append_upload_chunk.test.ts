@@ -0,0 +1,150 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, uploadChunksTable, uploadSessionsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { appendUploadChunk } from '../handlers/append_upload_chunk';
+import { getUploadSession } from '../handlers/get_upload_session';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { createHash } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { Readable } from 'stream';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+const body = (content: string) => Readable.from([Buffer.from(content)]);
+
+describe('appendUploadChunk', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chunk-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+  // Session ids restart with every database, so stored chunks must not outlive a test
+  afterEach(() => fs.rm(path.join(storageDir, 'uploads'), { recursive: true, force: true }));
+
+  const createTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' }
+      ])
+      .returning()
+      .execute();
+
+    const [owner, other] = users.map(({ password, ...user }): AuthUser => user);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Upload Dataset',
+        description: 'Dataset for upload tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const session = await createUploadSession({ dataset_id: dataset.id, filename: 'data.csv', size: 12 }, owner);
+
+    return { owner, other, session };
+  };
+
+  it('should store chunks and advance the offset', async () => {
+    const { owner, session } = await createTestData();
+
+    const first = await appendUploadChunk({ upload_id: session.id, offset: 0, body: body('a,b\n') }, owner);
+    expect(first.received).toEqual(4);
+
+    const second = await appendUploadChunk({
+      upload_id: session.id,
+      offset: 4,
+      sha256: sha256('1,2\n3,4\n'),
+      body: body('1,2\n3,4\n')
+    }, owner);
+    expect(second.received).toEqual(12);
+    expect(second.expires_at.getTime()).toBeGreaterThanOrEqual(first.expires_at.getTime());
+
+    const chunks = await db.select().from(uploadChunksTable).execute();
+    expect(chunks.map(chunk => [chunk.offset, chunk.size])).toEqual([[0, 4], [4, 8]]);
+    expect(chunks[1].sha256).toEqual(sha256('1,2\n3,4\n'));
+    expect(await fs.readFile(storage.resolve(chunks[0].storage_key), 'utf-8')).toEqual('a,b\n');
+
+    const status = await getUploadSession(session.id, owner);
+    expect(status.received).toEqual(12);
+  });
+
+  it('should reject chunks at the wrong offset', async () => {
+    const { owner, session } = await createTestData();
+
+    await appendUploadChunk({ upload_id: session.id, offset: 0, body: body('a,b\n') }, owner);
+
+    await expect(appendUploadChunk({ upload_id: session.id, offset: 0, body: body('a,b\n') }, owner))
+      .rejects.toThrow(/expected 4, got 0/i);
+    await expect(appendUploadChunk({ upload_id: session.id, offset: 8, body: body('1,2\n') }, owner))
+      .rejects.toThrow(/expected 4, got 8/i);
+  });
+
+  it('should discard chunks that fail their checksum', async () => {
+    const { owner, session } = await createTestData();
+
+    await expect(appendUploadChunk({
+      upload_id: session.id,
+      offset: 0,
+      sha256: sha256('something else'),
+      body: body('a,b\n')
+    }, owner)).rejects.toThrow(/checksum mismatch/i);
+
+    const [row] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(row.received).toEqual(0);
+    expect(await db.select().from(uploadChunksTable).execute()).toHaveLength(0);
+
+    const stored = await fs.readdir(path.join(storageDir, 'uploads', String(session.id))).catch(() => [] as string[]);
+    expect(stored).toHaveLength(0);
+  });
+
+  it('should reject chunks beyond the declared size', async () => {
+    const { owner, session } = await createTestData();
+
+    await expect(appendUploadChunk({ upload_id: session.id, offset: 0, body: body('0123456789abc') }, owner))
+      .rejects.toThrow(/declared upload size/i);
+
+    const [row] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(row.received).toEqual(0);
+  });
+
+  it('should hide sessions of other users and expired sessions', async () => {
+    const { owner, other, session } = await createTestData();
+
+    await expect(appendUploadChunk({ upload_id: session.id, offset: 0, body: body('a,b\n') }, other))
+      .rejects.toThrow(/not found/i);
+
+    await db.update(uploadSessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+
+    await expect(appendUploadChunk({ upload_id: session.id, offset: 0, body: body('a,b\n') }, owner))
+      .rejects.toThrow(/expired/i);
+    await expect(getUploadSession(session.id, owner)).rejects.toThrow(/expired/i);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { assignReviewer } from '../handlers/assign_reviewer';
+import { unassignReviewer } from '../handlers/unassign_reviewer';
+import { getReviewAssignments } from '../handlers/get_review_assignments';
+import { eq } from 'drizzle-orm';
+
+describe('assignReviewer', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'contributor@test.com', password: 'password123', role: 'contributor', name: 'Contributor' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' },
+        { email: 'admin@test.com', password: 'password123', role: 'admin', name: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    const [contributor, curator, admin] = users.map(({ password, ...user }) => user as AuthUser);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Test Dataset',
+        description: 'A dataset for testing',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'review',
+        contributor_id: contributor.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    return { contributor, curator, admin, dataset };
+  };
+
+  it('should assign curators and admins to a dataset', async () => {
+    const { curator, admin, dataset } = await createTestData();
+
+    const first = await assignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id }, admin);
+    await assignReviewer({ dataset_id: dataset.id, reviewer_id: admin.id });
+
+    expect(first).toMatchObject({ dataset_id: dataset.id, reviewer_id: curator.id, assigned_by: admin.id });
+    expect(first.created_at).toBeInstanceOf(Date);
+
+    const assignments = await getReviewAssignments(dataset.id);
+    expect(assignments.map(assignment => [assignment.reviewer_id, assignment.assigned_by])).toEqual([
+      [curator.id, admin.id],
+      [admin.id, null]
+    ]);
+  });
+
+  it('should not assign users without curator permissions', async () => {
+    const { contributor, dataset } = await createTestData();
+
+    await expect(assignReviewer({ dataset_id: dataset.id, reviewer_id: contributor.id }))
+      .rejects.toThrow('Only curators and admins can be assigned as reviewers');
+  });
+
+  it('should not assign the same reviewer twice', async () => {
+    const { curator, dataset } = await createTestData();
+    await assignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id });
+
+    await expect(assignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id }))
+      .rejects.toThrow('Reviewer is already assigned to this dataset');
+  });
+
+  it('should not assign contributors to their own datasets', async () => {
+    const { curator, dataset } = await createTestData();
+    await db.update(datasetsTable).set({ contributor_id: curator.id }).where(eq(datasetsTable.id, dataset.id)).execute();
+
+    await expect(assignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN', message: 'Contributors cannot review their own datasets' });
+  });
+
+  it('should throw error when dataset or reviewer does not exist', async () => {
+    const { curator, dataset } = await createTestData();
+
+    await expect(assignReviewer({ dataset_id: 99999, reviewer_id: curator.id })).rejects.toThrow('Dataset with id 99999 not found');
+    await expect(assignReviewer({ dataset_id: dataset.id, reviewer_id: 99999 })).rejects.toThrow('User with id 99999 not found');
+  });
+
+  it('should unassign reviewers', async () => {
+    const { curator, dataset } = await createTestData();
+    await assignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id });
+
+    const removed = await unassignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id });
+
+    expect(removed.reviewer_id).toEqual(curator.id);
+    expect(await getReviewAssignments(dataset.id)).toEqual([]);
+    await expect(unassignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id }))
+      .rejects.toThrow('Reviewer is not assigned to this dataset');
+  });
+
+  it('should only let admins remove other reviewers', async () => {
+    const { curator, admin, dataset } = await createTestData();
+    const [other] = await db.insert(usersTable)
+      .values({ email: 'other@test.com', password: 'password123', role: 'curator', name: 'Other' })
+      .returning()
+      .execute();
+    await assignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id });
+    await assignReviewer({ dataset_id: dataset.id, reviewer_id: admin.id });
+
+    await expect(unassignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id }, { ...other, role: 'curator' } as AuthUser))
+      .rejects.toThrow('Only admins can remove other reviewers');
+    await unassignReviewer({ dataset_id: dataset.id, reviewer_id: admin.id }, admin);
+    await unassignReviewer({ dataset_id: dataset.id, reviewer_id: curator.id }, admin);
+
+    expect(await getReviewAssignments(dataset.id)).toEqual([]);
+  });
+});
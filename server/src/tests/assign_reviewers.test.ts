@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, reviewAssignmentsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { assignReviewers } from '../jobs/assign_reviewers';
+import { setCuratorDomains } from '../handlers/set_curator_domains';
+import { setCurationPolicy } from '../handlers/set_curation_policy';
+import { asc } from 'drizzle-orm';
+
+describe('assignReviewers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUsers = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'ada@test.com', password: 'password123', role: 'curator', name: 'Ada' },
+        { email: 'grace@test.com', password: 'password123', role: 'curator', name: 'Grace' },
+        { email: 'admin@test.com', password: 'password123', role: 'admin', name: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    const [owner, ada, grace, admin] = users.map(({ password, ...user }) => user as AuthUser);
+    return { owner, ada, grace, admin };
+  };
+
+  const createDatasets = async (contributorId: number, domains: string[]) => await db.insert(datasetsTable)
+    .values(domains.map((domain, index) => ({
+      title: `Dataset ${index + 1}`,
+      description: 'A dataset for testing',
+      domain,
+      task: 'Classification',
+      license: 'MIT',
+      access_level: 'public' as const,
+      status: 'review' as const,
+      contributor_id: contributorId,
+      publication_year: 2024
+    })))
+    .returning()
+    .execute();
+
+  const assignments = async () => (await db.select()
+    .from(reviewAssignmentsTable)
+    .orderBy(asc(reviewAssignmentsTable.id))
+    .execute())
+    .map(assignment => [assignment.dataset_id, assignment.reviewer_id, assignment.assigned_by]);
+
+  it('should spread datasets over curators round-robin', async () => {
+    const { owner, ada, grace } = await createUsers();
+    const datasets = await createDatasets(owner.id, ['Biology', 'Biology', 'Biology']);
+
+    expect(await assignReviewers()).toEqual({ assigned: 3 });
+
+    // Admins are not assigned automatically
+    expect(await assignments()).toEqual([
+      [datasets[0].id, ada.id, null],
+      [datasets[1].id, grace.id, null],
+      [datasets[2].id, ada.id, null]
+    ]);
+
+    // Assigned datasets are left alone
+    expect(await assignReviewers()).toEqual({ assigned: 0 });
+  });
+
+  it('should prefer curators with expertise in the domain', async () => {
+    const { owner, ada, grace } = await createUsers();
+    await setCuratorDomains({ user_id: grace.id, domains: ['Physics'] });
+    const datasets = await createDatasets(owner.id, ['Physics', 'Physics', 'Biology']);
+
+    await assignReviewers();
+
+    expect(await assignments()).toEqual([
+      [datasets[0].id, grace.id, null],
+      [datasets[1].id, grace.id, null],
+      [datasets[2].id, ada.id, null]
+    ]);
+  });
+
+  it('should assign as many reviewers as the policy requires approvals', async () => {
+    const { owner, ada, grace } = await createUsers();
+    await setCurationPolicy({ domain: null, required_approvals: 2, rejection_blocks: true, admin_override: true });
+    const [dataset] = await createDatasets(owner.id, ['Biology']);
+    await db.insert(reviewAssignmentsTable).values({ dataset_id: dataset.id, reviewer_id: grace.id }).execute();
+
+    expect(await assignReviewers()).toEqual({ assigned: 1 });
+    expect((await assignments()).map(([, reviewerId]) => reviewerId)).toEqual([grace.id, ada.id]);
+  });
+
+  it('should not assign curators to their own datasets', async () => {
+    const { ada, grace } = await createUsers();
+    const [dataset] = await createDatasets(ada.id, ['Biology']);
+
+    await assignReviewers();
+
+    expect(await assignments()).toEqual([[dataset.id, grace.id, null]]);
+  });
+});
+
+describe('setCuratorDomains', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should replace the expertise of a curator', async () => {
+    const [curator, contributor] = await db.insert(usersTable)
+      .values([
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' },
+        { email: 'contributor@test.com', password: 'password123', role: 'contributor', name: 'Contributor' }
+      ])
+      .returning()
+      .execute();
+    const actor = { ...curator, role: 'curator' } as AuthUser;
+
+    expect(await setCuratorDomains({ user_id: curator.id, domains: ['Physics', 'Biology', 'Physics'] }, actor)).toEqual(['Biology', 'Physics']);
+    expect(await setCuratorDomains({ user_id: curator.id, domains: ['Chemistry'] }, actor)).toEqual(['Chemistry']);
+
+    await expect(setCuratorDomains({ user_id: contributor.id, domains: ['Biology'] }, actor))
+      .rejects.toThrow('Only admins can set the expertise of other curators');
+    await expect(setCuratorDomains({ user_id: contributor.id, domains: ['Biology'] }))
+      .rejects.toThrow('Only curators and admins have curation expertise');
+  });
+});
@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable } from '../db/schema';
+import { usersTable, type NewUser } from '../db/schema';
 import { type LoginInput } from '../schema';
 import { authenticateUser } from '../handlers/authenticate_user';
+import { eq } from 'drizzle-orm';
+import { createHash, randomBytes } from 'crypto';
 
 // Test users data
 const testUser1 = {
@@ -22,15 +24,22 @@ const testUser2 = {
   orcid: 'https://orcid.org/0000-0000-0000-0000'
 };
 
+// Store users the way createUser does, with a bcrypt hash of the password
+const insertUsers = async (...users: NewUser[]) => {
+  const values = await Promise.all(users.map(async user => ({
+    ...user,
+    password: await Bun.password.hash(user.password, { algorithm: 'bcrypt', cost: 4 })
+  })));
+  return db.insert(usersTable).values(values).returning().execute();
+};
+
 describe('authenticateUser', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
   it('should authenticate user with correct credentials', async () => {
     // Create test user
-    await db.insert(usersTable)
-      .values(testUser1)
-      .execute();
+    await insertUsers(testUser1);
 
     const loginInput: LoginInput = {
       email: 'test@example.com',
@@ -66,9 +75,7 @@ describe('authenticateUser', () => {
 
   it('should return null for incorrect password', async () => {
     // Create test user
-    await db.insert(usersTable)
-      .values(testUser1)
-      .execute();
+    await insertUsers(testUser1);
 
     const loginInput: LoginInput = {
       email: 'test@example.com',
@@ -82,9 +89,7 @@ describe('authenticateUser', () => {
 
   it('should authenticate admin user correctly', async () => {
     // Create admin user
-    await db.insert(usersTable)
-      .values(testUser2)
-      .execute();
+    await insertUsers(testUser2);
 
     const loginInput: LoginInput = {
       email: 'admin@example.com',
@@ -103,9 +108,7 @@ describe('authenticateUser', () => {
 
   it('should be case sensitive for email', async () => {
     // Create test user
-    await db.insert(usersTable)
-      .values(testUser1)
-      .execute();
+    await insertUsers(testUser1);
 
     const loginInput: LoginInput = {
       email: 'TEST@EXAMPLE.COM', // Different case
@@ -128,9 +131,7 @@ describe('authenticateUser', () => {
     };
 
     // Create test user with null fields
-    await db.insert(usersTable)
-      .values(userWithNulls)
-      .execute();
+    await insertUsers(userWithNulls);
 
     const loginInput: LoginInput = {
       email: 'minimal@example.com',
@@ -149,9 +150,7 @@ describe('authenticateUser', () => {
 
   it('should handle empty password attempt', async () => {
     // Create test user
-    await db.insert(usersTable)
-      .values(testUser1)
-      .execute();
+    await insertUsers(testUser1);
 
     const loginInput: LoginInput = {
       email: 'test@example.com',
@@ -165,9 +164,7 @@ describe('authenticateUser', () => {
 
   it('should return correct user when multiple users exist', async () => {
     // Create multiple test users
-    await db.insert(usersTable)
-      .values([testUser1, testUser2])
-      .execute();
+    await insertUsers(testUser1, testUser2);
 
     // Authenticate first user
     const loginInput1: LoginInput = {
@@ -196,4 +193,45 @@ describe('authenticateUser', () => {
     // Verify they are different users
     expect(result1!.id).not.toEqual(result2!.id);
   });
-});
\ No newline at end of file
+
+  it('should accept and upgrade a legacy salt:sha256 hash', async () => {
+    const salt = randomBytes(16).toString('hex');
+    const hash = createHash('sha256').update('password123' + salt).digest('hex');
+    const [user] = await db.insert(usersTable)
+      .values({ ...testUser1, password: `${salt}:${hash}` })
+      .returning()
+      .execute();
+
+    const result = await authenticateUser({ email: 'test@example.com', password: 'password123' });
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(user.id);
+
+    const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(stored.password).toMatch(/^\$2[aby]\$10\$/);
+    expect(await Bun.password.verify('password123', stored.password)).toBe(true);
+  });
+
+  it('should not upgrade a legacy hash when the password is wrong', async () => {
+    const salt = randomBytes(16).toString('hex');
+    const hash = createHash('sha256').update('password123' + salt).digest('hex');
+    const [user] = await db.insert(usersTable)
+      .values({ ...testUser1, password: `${salt}:${hash}` })
+      .returning()
+      .execute();
+
+    const result = await authenticateUser({ email: 'test@example.com', password: 'wrongpassword' });
+
+    expect(result).toBeNull();
+    const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(stored.password).toEqual(`${salt}:${hash}`);
+  });
+
+  it('should reject a stored plaintext password', async () => {
+    await db.insert(usersTable).values(testUser1).execute();
+
+    const result = await authenticateUser({ email: 'test@example.com', password: 'password123' });
+
+    expect(result).toBeNull();
+  });
+});
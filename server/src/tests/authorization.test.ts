@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable } from '../db/schema';
+import { type AuthUser, type UserRole } from '../schema';
+import { appRouter } from '../index';
+import { createCallerFactory } from '../trpc';
+import { TRPCError } from '@trpc/server';
+
+const createCaller = createCallerFactory(appRouter);
+
+const callerFor = (user: AuthUser | null) => createCaller({ user, sessionToken: null });
+
+const createUser = async (role: UserRole, email = `${role}@test.com`): Promise<AuthUser> => {
+  const [user] = await db.insert(usersTable)
+    .values({ email, password: 'password123', role, name: `Test ${role}` })
+    .returning()
+    .execute();
+  const { password, ...authUser } = user;
+  return authUser;
+};
+
+const createDataset = async (contributorId: number) => {
+  const [dataset] = await db.insert(datasetsTable)
+    .values({
+      title: 'Test Dataset',
+      description: 'A dataset for testing',
+      domain: 'Computer Science',
+      task: 'Classification',
+      license: 'MIT',
+      access_level: 'public',
+      status: 'review',
+      contributor_id: contributorId,
+      publication_year: 2024
+    })
+    .returning()
+    .execute();
+  return dataset;
+};
+
+const expectTRPCError = async (promise: Promise<unknown>, code: TRPCError['code']) => {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(TRPCError);
+  expect((error as TRPCError).code).toEqual(code);
+};
+
+describe('authorization', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should allow anonymous access to public procedures', async () => {
+    const result = await callerFor(null).healthcheck();
+
+    expect(result.status).toEqual('ok');
+    expect(await callerFor(null).me()).toBeNull();
+  });
+
+  it('should reject anonymous callers with UNAUTHORIZED', async () => {
+    await expectTRPCError(callerFor(null).getProfiles(), 'UNAUTHORIZED');
+    await expectTRPCError(callerFor(null).logout(), 'UNAUTHORIZED');
+    await expectTRPCError(callerFor(null).getUsers(), 'UNAUTHORIZED');
+  });
+
+  it('should restrict admin procedures to admins', async () => {
+    const curator = await createUser('curator');
+    const admin = await createUser('admin');
+
+    await expectTRPCError(callerFor(curator).getUsers(), 'FORBIDDEN');
+    await expectTRPCError(callerFor(curator).generateReports(), 'FORBIDDEN');
+    await expectTRPCError(callerFor(curator).exportReport({ format: 'csv' }), 'FORBIDDEN');
+
+    const users = await callerFor(admin).getUsers();
+    expect(users).toHaveLength(2);
+  });
+
+  it('should restrict curation procedures to curators and admins', async () => {
+    const contributor = await createUser('contributor');
+    const curator = await createUser('curator');
+    const admin = await createUser('admin');
+
+    await expectTRPCError(callerFor(contributor).getCurationReviews({}), 'FORBIDDEN');
+    await expectTRPCError(callerFor(contributor).getDashboardStats(), 'FORBIDDEN');
+
+    expect(await callerFor(curator).getCurationReviews({})).toEqual([]);
+    expect(await callerFor(admin).getCurationReviews({})).toEqual([]);
+  });
+
+  it('should take the reviewer from the session rather than the input', async () => {
+    const contributor = await createUser('contributor');
+    const curator = await createUser('curator');
+    const dataset = await createDataset(contributor.id);
+
+    const review = await callerFor(curator).createCurationReview({
+      dataset_id: dataset.id,
+      status: 'approved',
+      notes: 'Looks good'
+    });
+
+    expect(review.reviewer_id).toEqual(curator.id);
+  });
+
+  it('should only let contributors and above create datasets', async () => {
+    const viewer = await createUser('viewer');
+    const contributor = await createUser('contributor');
+    const input = {
+      title: 'New Dataset',
+      description: 'Description',
+      domain: 'Biology',
+      task: 'Regression',
+      license: 'CC-BY-4.0',
+      doi: null,
+      access_level: 'public' as const,
+      status: 'draft' as const,
+      publication_year: 2024
+    };
+
+    await expectTRPCError(callerFor(viewer).createDataset(input), 'FORBIDDEN');
+
+    const dataset = await callerFor(contributor).createDataset(input);
+    expect(dataset.contributor_id).toEqual(contributor.id);
+  });
+
+  it('should stop contributors from editing datasets they do not own', async () => {
+    const owner = await createUser('contributor', 'owner@test.com');
+    const other = await createUser('contributor', 'other@test.com');
+    const curator = await createUser('curator');
+    const dataset = await createDataset(owner.id);
+
+    await expectTRPCError(callerFor(other).updateDataset({ id: dataset.id, title: 'Hijacked' }), 'FORBIDDEN');
+    await expectTRPCError(callerFor(other).createDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'data.csv',
+      path: '/uploads/data.csv',
+      size: 100,
+      type: 'csv'
+    }), 'FORBIDDEN');
+
+    const updated = await callerFor(owner).updateDataset({ id: dataset.id, title: 'Renamed' });
+    expect(updated.title).toEqual('Renamed');
+
+    const curated = await callerFor(curator).updateDataset({ id: dataset.id, title: 'Curated' });
+    expect(curated.title).toEqual('Curated');
+  });
+
+  it('should reserve contributor reassignment for admins', async () => {
+    const owner = await createUser('contributor', 'owner@test.com');
+    const other = await createUser('contributor', 'other@test.com');
+    const admin = await createUser('admin');
+    const dataset = await createDataset(owner.id);
+
+    await expectTRPCError(callerFor(owner).updateDataset({ id: dataset.id, contributor_id: other.id }), 'FORBIDDEN');
+
+    const updated = await callerFor(admin).updateDataset({ id: dataset.id, contributor_id: other.id });
+    expect(updated.contributor_id).toEqual(other.id);
+  });
+
+  it('should limit user updates to the own account and role changes to admins', async () => {
+    const viewer = await createUser('viewer');
+    const other = await createUser('viewer', 'other@test.com');
+    const admin = await createUser('admin');
+
+    await expectTRPCError(callerFor(viewer).updateUser({ id: other.id, name: 'Changed' }), 'FORBIDDEN');
+    await expectTRPCError(callerFor(viewer).updateUser({ id: viewer.id, role: 'admin' }), 'FORBIDDEN');
+
+    const renamed = await callerFor(viewer).updateUser({ id: viewer.id, name: 'New Name' });
+    expect(renamed.name).toEqual('New Name');
+
+    const promoted = await callerFor(admin).updateUser({ id: other.id, role: 'curator' });
+    expect(promoted.role).toEqual('curator');
+  });
+
+  it('should only let admins register privileged accounts', async () => {
+    const admin = await createUser('admin');
+    const input = {
+      email: 'new@test.com',
+      password: 'password123',
+      role: 'curator' as const,
+      name: null,
+      orcid: null
+    };
+
+    await expectTRPCError(callerFor(null).createUser(input), 'FORBIDDEN');
+
+    const created = await callerFor(admin).createUser(input);
+    expect(created.role).toEqual('curator');
+
+    const contributor = await callerFor(null).createUser({ ...input, email: 'self@test.com', role: 'contributor' });
+    expect(contributor.role).toEqual('contributor');
+  });
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { claimDataset } from '../handlers/claim_dataset';
+import { unclaimDataset } from '../handlers/unclaim_dataset';
+import { getReviewAssignments } from '../handlers/get_review_assignments';
+import { setCurationPolicy } from '../handlers/set_curation_policy';
+import { eq } from 'drizzle-orm';
+
+describe('claimDataset', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (status: 'draft' | 'review' = 'review') => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' },
+        { email: 'second@test.com', password: 'password123', role: 'curator', name: 'Second' }
+      ])
+      .returning()
+      .execute();
+    const [owner, curator, second] = users.map(({ password, ...user }) => user as AuthUser);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Test Dataset',
+        description: 'A dataset for testing',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status,
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    return { owner, curator, second, dataset };
+  };
+
+  it('should assign the claiming curator', async () => {
+    const { curator, dataset } = await createTestData();
+
+    const result = await claimDataset(dataset.id, curator);
+
+    expect(result).toMatchObject({ dataset_id: dataset.id, reviewer_id: curator.id, assigned_by: curator.id });
+    expect((await getReviewAssignments(dataset.id)).map(assignment => assignment.reviewer_id)).toEqual([curator.id]);
+  });
+
+  it('should allow as many claims as the policy requires approvals', async () => {
+    const { curator, second, dataset } = await createTestData();
+    await claimDataset(dataset.id, curator);
+
+    await expect(claimDataset(dataset.id, curator)).rejects.toThrow('You have already claimed this dataset');
+    await expect(claimDataset(dataset.id, second)).rejects.toThrow('Dataset already has the 1 reviewers its curation policy requires');
+
+    await setCurationPolicy({ domain: 'Biology', required_approvals: 2, rejection_blocks: true, admin_override: true });
+    expect((await claimDataset(dataset.id, second)).reviewer_id).toEqual(second.id);
+  });
+
+  it('should not let curators claim their own datasets', async () => {
+    const { curator, dataset } = await createTestData();
+    await db.update(datasetsTable).set({ contributor_id: curator.id }).where(eq(datasetsTable.id, dataset.id)).execute();
+
+    await expect(claimDataset(dataset.id, curator)).rejects.toThrow('You cannot claim your own dataset');
+  });
+
+  it('should let only one of two concurrent claims take the last place', async () => {
+    const { curator, second, dataset } = await createTestData();
+
+    const results = await Promise.allSettled([claimDataset(dataset.id, curator), claimDataset(dataset.id, second)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await getReviewAssignments(dataset.id)).toHaveLength(1);
+  });
+
+  it('should only claim datasets in review', async () => {
+    const { curator, dataset } = await createTestData('draft');
+
+    await expect(claimDataset(dataset.id, curator)).rejects.toThrow('Only datasets in review can be claimed');
+    await expect(claimDataset(99999, curator)).rejects.toThrow('Dataset with id 99999 not found');
+  });
+
+  it('should return unclaimed datasets to the queue', async () => {
+    const { curator, second, dataset } = await createTestData();
+    await claimDataset(dataset.id, curator);
+
+    await expect(unclaimDataset(dataset.id, second)).rejects.toThrow('You have not claimed this dataset');
+    await unclaimDataset(dataset.id, curator);
+
+    expect(await getReviewAssignments(dataset.id)).toEqual([]);
+    expect((await claimDataset(dataset.id, second)).reviewer_id).toEqual(second.id);
+  });
+});
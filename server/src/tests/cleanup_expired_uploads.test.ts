@@ -0,0 +1,149 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, uploadChunksTable, uploadSessionsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { appendUploadChunk } from '../handlers/append_upload_chunk';
+import { cleanupExpiredUploads } from '../jobs/cleanup_expired_uploads';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { eq } from 'drizzle-orm';
+import { Readable } from 'stream';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('cleanupExpiredUploads', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanup-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createSessions = async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+      .returning()
+      .execute();
+
+    const { password, ...owner } = user;
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Upload Dataset',
+        description: 'Dataset for upload tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const input = { dataset_id: dataset.id, filename: 'data.csv', size: 100 };
+    const stale = await createUploadSession(input, owner as AuthUser);
+    const active = await createUploadSession(input, owner as AuthUser);
+
+    for (const session of [stale, active]) {
+      await appendUploadChunk({
+        upload_id: session.id,
+        offset: 0,
+        body: Readable.from([Buffer.from('a,b\n')])
+      }, owner as AuthUser);
+    }
+
+    await db.update(uploadSessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(uploadSessionsTable.id, stale.id))
+      .execute();
+
+    return { stale, active };
+  };
+
+  it('should remove expired sessions and their stored chunks', async () => {
+    const { stale, active } = await createSessions();
+    const [staleChunk] = await db.select()
+      .from(uploadChunksTable)
+      .where(eq(uploadChunksTable.upload_id, stale.id))
+      .execute();
+
+    const removed = await cleanupExpiredUploads();
+
+    expect(removed).toEqual(1);
+    const sessions = await db.select().from(uploadSessionsTable).execute();
+    expect(sessions.map(session => session.id)).toEqual([active.id]);
+
+    const chunks = await db.select().from(uploadChunksTable).execute();
+    expect(chunks.map(chunk => chunk.upload_id)).toEqual([active.id]);
+    expect(await storage.stat(staleChunk.storage_key)).toBeNull();
+    expect(await storage.stat(chunks[0].storage_key)).not.toBeNull();
+  });
+
+  it('should keep finalized sessions past their expiry', async () => {
+    const { active } = await createSessions();
+    await db.update(uploadSessionsTable)
+      .set({ completed_at: new Date(), expires_at: new Date(Date.now() - 1000) })
+      .where(eq(uploadSessionsTable.id, active.id))
+      .execute();
+
+    const removed = await cleanupExpiredUploads();
+
+    expect(removed).toEqual(1);
+    const sessions = await db.select().from(uploadSessionsTable).execute();
+    expect(sessions.map(session => session.id)).toEqual([active.id]);
+  });
+
+  it('should remove expired sessions whose finalize claim was abandoned', async () => {
+    const { stale } = await createSessions();
+    await db.update(uploadSessionsTable)
+      .set({ completed_at: new Date(Date.now() - 60 * 60 * 1000) })
+      .where(eq(uploadSessionsTable.id, stale.id))
+      .execute();
+
+    expect(await cleanupExpiredUploads()).toEqual(1);
+    expect(await db.select().from(uploadChunksTable).where(eq(uploadChunksTable.upload_id, stale.id)).execute()).toEqual([]);
+  });
+
+  it('should keep sessions whose chunks could not be deleted and go on with the others', async () => {
+    const { stale, active } = await createSessions();
+    await db.update(uploadSessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(uploadSessionsTable.id, active.id))
+      .execute();
+    const [failing] = await db.select()
+      .from(uploadChunksTable)
+      .where(eq(uploadChunksTable.upload_id, stale.id))
+      .execute();
+    const remove = storage.delete.bind(storage);
+    const spy = spyOn(storage, 'delete').mockImplementation(async key =>
+      key === failing.storage_key ? Promise.reject(new Error('Storage unavailable')) : remove(key));
+
+    try {
+      expect(await cleanupExpiredUploads()).toEqual(1);
+    } finally {
+      spy.mockRestore();
+    }
+
+    const sessions = await db.select().from(uploadSessionsTable).execute();
+    expect(sessions.map(session => session.id)).toEqual([stale.id]);
+
+    // The next run removes it once storage is back
+    expect(await cleanupExpiredUploads()).toEqual(1);
+    expect(await db.select().from(uploadSessionsTable).execute()).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, accessRequestsTable } from '../db/schema';
+import { type CreateAccessRequestInput } from '../schema';
+import { createAccessRequest } from '../handlers/create_access_request';
+import { eq } from 'drizzle-orm';
+
+describe('createAccessRequest', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (accessLevel: 'public' | 'private' | 'restricted' = 'restricted') => {
+    const [contributor, viewer] = await db.insert(usersTable)
+      .values([
+        { email: 'contributor@test.com', password: 'password123', role: 'contributor', name: 'Test Contributor' },
+        { email: 'viewer@test.com', password: 'password123', role: 'viewer', name: 'Test Viewer' }
+      ])
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Clinical Dataset',
+        description: 'Patient records',
+        domain: 'Medical',
+        task: 'Classification',
+        license: 'Custom',
+        access_level: accessLevel,
+        status: 'published',
+        contributor_id: contributor.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    return { contributor, viewer, dataset };
+  };
+
+  it('should create a pending access request', async () => {
+    const { viewer, dataset } = await createTestData();
+
+    const input: CreateAccessRequestInput = {
+      dataset_id: dataset.id,
+      requester_id: viewer.id,
+      purpose: 'Replicating the results of a published study'
+    };
+
+    const result = await createAccessRequest(input);
+
+    expect(result.id).toBeDefined();
+    expect(result.dataset_id).toEqual(dataset.id);
+    expect(result.requester_id).toEqual(viewer.id);
+    expect(result.purpose).toEqual('Replicating the results of a published study');
+    expect(result.status).toEqual('pending');
+    expect(result.reviewer_id).toBeNull();
+    expect(result.expires_at).toBeNull();
+    expect(result.created_at).toBeInstanceOf(Date);
+
+    const saved = await db.select()
+      .from(accessRequestsTable)
+      .where(eq(accessRequestsTable.id, result.id))
+      .execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should reject a second pending request from the same user', async () => {
+    const { viewer, dataset } = await createTestData();
+    const input: CreateAccessRequestInput = {
+      dataset_id: dataset.id,
+      requester_id: viewer.id,
+      purpose: 'Replicating the results of a published study'
+    };
+
+    await createAccessRequest(input);
+
+    await expect(createAccessRequest(input)).rejects.toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/already pending/i) });
+  });
+
+  it('should reject requests for users with an active grant', async () => {
+    const { contributor, viewer, dataset } = await createTestData();
+
+    await db.insert(accessRequestsTable)
+      .values({
+        dataset_id: dataset.id,
+        requester_id: viewer.id,
+        purpose: 'Earlier request',
+        status: 'approved',
+        reviewer_id: contributor.id,
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        decided_at: new Date()
+      })
+      .execute();
+
+    await expect(createAccessRequest({
+      dataset_id: dataset.id,
+      requester_id: viewer.id,
+      purpose: 'Replicating the results of a published study'
+    })).rejects.toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/already has access/i) });
+  });
+
+  it('should reject requests for public datasets', async () => {
+    const { viewer, dataset } = await createTestData('public');
+
+    await expect(createAccessRequest({
+      dataset_id: dataset.id,
+      requester_id: viewer.id,
+      purpose: 'Replicating the results of a published study'
+    })).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/only needed for restricted/i) });
+  });
+
+  it('should treat private datasets as missing', async () => {
+    const { viewer, dataset } = await createTestData('private');
+
+    await expect(createAccessRequest({
+      dataset_id: dataset.id,
+      requester_id: viewer.id,
+      purpose: 'Replicating the results of a published study'
+    })).rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/dataset not found/i) });
+  });
+
+  it('should reject requests from unknown users', async () => {
+    const { dataset } = await createTestData();
+
+    await expect(createAccessRequest({
+      dataset_id: dataset.id,
+      requester_id: 99999,
+      purpose: 'Replicating the results of a published study'
+    })).rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/requester not found/i) });
+  });
+
+  it('should reject requests from the dataset contributor', async () => {
+    const { contributor, dataset } = await createTestData();
+
+    await expect(createAccessRequest({
+      dataset_id: dataset.id,
+      requester_id: contributor.id,
+      purpose: 'Replicating the results of a published study'
+    })).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/own datasets/i) });
+  });
+});
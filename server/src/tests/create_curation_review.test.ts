@@ -1,10 +1,15 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, datasetsTable, curationReviewsTable } from '../db/schema';
+import { usersTable, datasetsTable, datasetFilesTable, curationReviewsTable, datasetStatusHistoryTable, reviewAssignmentsTable, reviewCommentsTable } from '../db/schema';
 import { type CreateCurationReviewInput } from '../schema';
 import { createCurationReview } from '../handlers/create_curation_review';
+import { setCurationPolicy } from '../handlers/set_curation_policy';
+import { getCurationOutcome } from '../handlers/get_curation_outcome';
+import { setChecklistTemplate } from '../handlers/set_checklist_template';
+import * as lifecycle from '../lib/lifecycle';
 import { eq, and } from 'drizzle-orm';
+import { TRPCError } from '@trpc/server';
 
 describe('createCurationReview', () => {
   beforeEach(createDB);
@@ -192,6 +197,20 @@ describe('createCurationReview', () => {
       .execute();
 
     expect(updatedDataset[0].status).toEqual('draft');
+
+    // The rejection is recorded with the review notes as the reason
+    const history = await db.select()
+      .from(datasetStatusHistoryTable)
+      .where(eq(datasetStatusHistoryTable.dataset_id, testData.dataset.id))
+      .execute();
+
+    expect(history).toHaveLength(1);
+    expect(history[0]).toMatchObject({
+      from_status: 'review',
+      to_status: 'draft',
+      actor_id: testData.curator.id,
+      reason: 'Dataset needs revisions'
+    });
   });
 
   it('should not update dataset status for pending reviews', async () => {
@@ -263,7 +282,7 @@ describe('createCurationReview', () => {
       reviewed_at: new Date()
     };
 
-    expect(createCurationReview(input)).rejects.toThrow(/reviewer not found/i);
+    await expect(createCurationReview(input)).rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/reviewer not found/i) });
   });
 
   it('should throw error when reviewer lacks curator permissions', async () => {
@@ -277,7 +296,7 @@ describe('createCurationReview', () => {
       reviewed_at: new Date()
     };
 
-    expect(createCurationReview(input)).rejects.toThrow(/does not have curator permissions/i);
+    await expect(createCurationReview(input)).rejects.toMatchObject({ code: 'FORBIDDEN', message: expect.stringMatching(/does not have curator permissions/i) });
   });
 
   it('should throw error when dataset does not exist', async () => {
@@ -291,7 +310,7 @@ describe('createCurationReview', () => {
       reviewed_at: new Date()
     };
 
-    expect(createCurationReview(input)).rejects.toThrow(/dataset not found/i);
+    await expect(createCurationReview(input)).rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/dataset not found/i) });
   });
 
   it('should throw error when review already exists for dataset and reviewer', async () => {
@@ -317,7 +336,7 @@ describe('createCurationReview', () => {
       reviewed_at: new Date()
     };
 
-    expect(createCurationReview(duplicateInput)).rejects.toThrow(/review already exists/i);
+    await expect(createCurationReview(duplicateInput)).rejects.toMatchObject({ code: 'CONFLICT', message: expect.stringMatching(/review already exists/i) });
   });
 
   it('should allow different reviewers to review the same dataset', async () => {
@@ -327,7 +346,7 @@ describe('createCurationReview', () => {
     const curatorInput: CreateCurationReviewInput = {
       dataset_id: testData.dataset.id,
       reviewer_id: testData.curator.id,
-      status: 'approved',
+      status: 'pending',
       notes: 'Curator review',
       reviewed_at: new Date()
     };
@@ -349,4 +368,251 @@ describe('createCurationReview', () => {
     expect(adminReview.id).toBeDefined();
     expect(curatorReview.id).not.toEqual(adminReview.id);
   });
-});
\ No newline at end of file
+
+  describe('curation policies', () => {
+    const createCurator = async (email: string) => {
+      const result = await db.insert(usersTable)
+        .values({ email, password: 'password123', role: 'curator', name: email })
+        .returning()
+        .execute();
+      return result[0];
+    };
+
+    const review = (datasetId: number, reviewerId: number, status: 'approved' | 'rejected' | 'pending') =>
+      createCurationReview({ dataset_id: datasetId, reviewer_id: reviewerId, status, notes: null });
+
+    // A second dataset under review by the same contributor
+    const createOtherDataset = async (contributorId: number) => {
+      const result = await db.insert(datasetsTable)
+        .values({
+          title: 'Second Dataset',
+          description: 'Another dataset for testing',
+          domain: 'Biology',
+          task: 'Regression',
+          license: 'MIT',
+          access_level: 'public',
+          status: 'review',
+          contributor_id: contributorId,
+          publication_year: 2024
+        })
+        .returning()
+        .execute();
+      return result[0];
+    };
+
+    const datasetStatus = async (datasetId: number) => {
+      const datasets = await db.select().from(datasetsTable).where(eq(datasetsTable.id, datasetId)).execute();
+      return datasets[0].status;
+    };
+
+    it('should wait for the required number of approvals', async () => {
+      const testData = await createTestData();
+      const second = await createCurator('second@test.com');
+      await setCurationPolicy({ domain: 'Computer Science', required_approvals: 2, rejection_blocks: true, admin_override: true });
+
+      await review(testData.dataset.id, testData.curator.id, 'approved');
+      expect(await datasetStatus(testData.dataset.id)).toEqual('review');
+      expect(await getCurationOutcome(testData.dataset.id)).toEqual({
+        decision: 'pending',
+        approvals: 1,
+        changes_requested: 0,
+        rejections: 0,
+        required_approvals: 2,
+        conflict: false
+      });
+
+      await review(testData.dataset.id, second.id, 'approved');
+      expect(await datasetStatus(testData.dataset.id)).toEqual('approved');
+    });
+
+    it('should let rejections outweigh approvals when they do not block', async () => {
+      const testData = await createTestData();
+      const second = await createCurator('second@test.com');
+      const third = await createCurator('third@test.com');
+      await setCurationPolicy({ domain: null, required_approvals: 2, rejection_blocks: false, admin_override: false });
+
+      await review(testData.dataset.id, testData.curator.id, 'rejected');
+      await review(testData.dataset.id, second.id, 'approved');
+      expect(await datasetStatus(testData.dataset.id)).toEqual('review');
+      expect((await getCurationOutcome(testData.dataset.id)).conflict).toBe(true);
+
+      // A third opinion settles the conflict
+      await review(testData.dataset.id, third.id, 'approved');
+      expect(await datasetStatus(testData.dataset.id)).toEqual('approved');
+    });
+
+    it('should let an admin decision override other reviews', async () => {
+      const testData = await createTestData();
+      await setCurationPolicy({ domain: null, required_approvals: 3, rejection_blocks: true, admin_override: true });
+
+      await review(testData.dataset.id, testData.curator.id, 'rejected');
+      expect(await datasetStatus(testData.dataset.id)).toEqual('draft');
+
+      // Without the override, an admin is one more reviewer
+      const other = await createOtherDataset(testData.contributor.id);
+      await setCurationPolicy({ domain: null, required_approvals: 2, rejection_blocks: true, admin_override: false });
+      await review(other.id, testData.admin.id, 'approved');
+      await review(other.id, testData.curator.id, 'rejected');
+      expect((await getCurationOutcome(other.id)).decision).toEqual('rejected');
+
+      await setCurationPolicy({ domain: null, required_approvals: 2, rejection_blocks: true, admin_override: true });
+      expect((await getCurationOutcome(other.id)).decision).toEqual('approved');
+    });
+
+    it('should only review datasets in review', async () => {
+      const testData = await createTestData();
+      await db.update(datasetsTable).set({ status: 'draft' }).where(eq(datasetsTable.id, testData.dataset.id)).execute();
+
+      await expect(review(testData.dataset.id, testData.curator.id, 'approved')).rejects.toThrow('Only datasets in review can be reviewed');
+    });
+
+    it('should discard the review when the status change fails', async () => {
+      const testData = await createTestData();
+      // As if a curator returned the dataset at the same moment
+      const spy = spyOn(lifecycle, 'transitionDataset')
+        .mockRejectedValue(new TRPCError({ code: 'CONFLICT', message: 'Dataset changed status concurrently' }));
+
+      try {
+        await expect(review(testData.dataset.id, testData.curator.id, 'approved')).rejects.toThrow('changed status concurrently');
+      } finally {
+        spy.mockRestore();
+      }
+
+      expect(await db.select().from(curationReviewsTable).execute()).toEqual([]);
+      expect(await datasetStatus(testData.dataset.id)).toEqual('review');
+    });
+
+    it('should not let contributors review their own datasets', async () => {
+      const testData = await createTestData();
+      await db.update(datasetsTable).set({ contributor_id: testData.curator.id }).where(eq(datasetsTable.id, testData.dataset.id)).execute();
+
+      await expect(review(testData.dataset.id, testData.curator.id, 'approved'))
+        .rejects.toMatchObject({ code: 'FORBIDDEN', message: 'Contributors cannot review their own datasets' });
+      expect(await datasetStatus(testData.dataset.id)).toEqual('review');
+    });
+
+    it('should only accept reviews from assigned reviewers and admins', async () => {
+      const testData = await createTestData();
+      const assigned = await createCurator('assigned@test.com');
+      await db.insert(reviewAssignmentsTable)
+        .values({ dataset_id: testData.dataset.id, reviewer_id: assigned.id })
+        .execute();
+
+      await expect(review(testData.dataset.id, testData.curator.id, 'approved'))
+        .rejects.toThrow('Only reviewers assigned to this dataset can review it');
+
+      await review(testData.dataset.id, assigned.id, 'pending');
+      await review(testData.dataset.id, testData.admin.id, 'approved');
+      expect(await datasetStatus(testData.dataset.id)).toEqual('approved');
+    });
+  });
+
+  describe('checklists and comments', () => {
+    const checklistItems = [
+      { key: 'license_valid', label: 'License is valid', required: true },
+      { key: 'citation_given', label: 'Citation is given', required: false }
+    ];
+
+    it('should record checklist answers with the wording of the template', async () => {
+      const testData = await createTestData();
+      await setChecklistTemplate({ domain: 'Computer Science', name: 'CS checklist', items: checklistItems });
+
+      const result = await createCurationReview({
+        dataset_id: testData.dataset.id,
+        reviewer_id: testData.curator.id,
+        status: 'approved',
+        notes: null,
+        checklist: [
+          { key: 'citation_given', checked: false, comment: 'Please add a citation' },
+          { key: 'license_valid', checked: true }
+        ]
+      });
+
+      expect(result.checklist).toEqual([
+        { key: 'license_valid', label: 'License is valid', required: true, checked: true, comment: null },
+        { key: 'citation_given', label: 'Citation is given', required: false, checked: false, comment: 'Please add a citation' }
+      ]);
+    });
+
+    it('should not approve with required checklist items unticked', async () => {
+      const testData = await createTestData();
+      await setChecklistTemplate({ domain: null, name: 'Default', items: checklistItems });
+
+      const input: CreateCurationReviewInput = {
+        dataset_id: testData.dataset.id,
+        reviewer_id: testData.curator.id,
+        status: 'approved',
+        notes: null,
+        checklist: [{ key: 'license_valid', checked: false }, { key: 'citation_given', checked: true }]
+      };
+
+      await expect(createCurationReview(input)).rejects.toThrow('Required checklist items are not ticked: license_valid');
+      await expect(createCurationReview({ ...input, checklist: [{ key: 'license_valid', checked: true }] }))
+        .rejects.toThrow('Checklist items not answered: citation_given');
+      await expect(createCurationReview({ ...input, checklist: [...input.checklist!, { key: 'extra', checked: true }] }))
+        .rejects.toThrow('Unknown checklist items: extra');
+
+      // Rejections may leave required items unticked
+      const rejected = await createCurationReview({ ...input, status: 'rejected' });
+      expect(rejected.checklist!.map(result => result.checked)).toEqual([false, true]);
+    });
+
+    it('should use the built-in checklist when no template is configured', async () => {
+      const testData = await createTestData();
+
+      await expect(createCurationReview({
+        dataset_id: testData.dataset.id,
+        reviewer_id: testData.curator.id,
+        status: 'rejected',
+        notes: null,
+        checklist: []
+      })).rejects.toThrow('Checklist items not answered: license_valid, description_adequate, files_validated, personal_data_removed');
+    });
+
+    it('should save comments on fields and files of the dataset', async () => {
+      const testData = await createTestData();
+      const [file] = await db.insert(datasetFilesTable)
+        .values({ dataset_id: testData.dataset.id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+        .returning()
+        .execute();
+
+      const result = await createCurationReview({
+        dataset_id: testData.dataset.id,
+        reviewer_id: testData.curator.id,
+        status: 'rejected',
+        notes: 'See comments',
+        comments: [
+          { field: 'description', body: 'Explain how the samples were collected' },
+          { file_id: file.id, body: 'Column 3 contains email addresses' }
+        ]
+      });
+
+      const comments = await db.select()
+        .from(reviewCommentsTable)
+        .where(eq(reviewCommentsTable.review_id, result.id))
+        .orderBy(reviewCommentsTable.id)
+        .execute();
+
+      expect(comments.map(comment => [comment.field, comment.file_id, comment.body])).toEqual([
+        ['description', null, 'Explain how the samples were collected'],
+        [null, file.id, 'Column 3 contains email addresses']
+      ]);
+    });
+
+    it('should reject comments on files of other datasets', async () => {
+      const testData = await createTestData();
+
+      await expect(createCurationReview({
+        dataset_id: testData.dataset.id,
+        reviewer_id: testData.curator.id,
+        status: 'rejected',
+        notes: null,
+        comments: [{ file_id: 99999, body: 'Wrong file' }]
+      })).rejects.toThrow('Files not in this dataset: 99999');
+
+      // Nothing is saved when a comment is refused
+      const reviews = await db.select().from(curationReviewsTable).execute();
+      expect(reviews).toHaveLength(0);
+    });
+  });
+});
@@ -34,7 +34,6 @@ describe('createDataset', () => {
     license: 'MIT',
     doi: '10.1234/test.dataset',
     access_level: 'public',
-    status: 'draft', // Include even though it has a Zod default
     contributor_id: contributorId,
     publication_year: 2024
   });
@@ -85,6 +85,22 @@ describe('createDatasetFile', () => {
     expect(files[0].type).toEqual('csv');
   });
 
+  it('should store checksums when given and leave them empty otherwise', async () => {
+    const withoutChecksums = await createDatasetFile({ ...validInput, dataset_id: testDatasetId });
+    expect(withoutChecksums.sha256).toBeNull();
+    expect(withoutChecksums.md5).toBeNull();
+    expect(withoutChecksums.integrity_status).toEqual('unverified');
+
+    const withChecksums = await createDatasetFile({
+      ...validInput,
+      dataset_id: testDatasetId,
+      sha256: 'a'.repeat(64),
+      md5: 'b'.repeat(32)
+    });
+    expect(withChecksums.sha256).toEqual('a'.repeat(64));
+    expect(withChecksums.md5).toEqual('b'.repeat(32));
+  });
+
   it('should accept CSV file type', async () => {
     const input = { ...validInput, dataset_id: testDatasetId, type: 'csv' };
     const result = await createDatasetFile(input);
@@ -106,7 +122,7 @@ describe('createDatasetFile', () => {
   it('should reject invalid file type', async () => {
     const input = { ...validInput, dataset_id: testDatasetId, type: 'txt' };
     
-    await expect(createDatasetFile(input)).rejects.toThrow(/invalid file type.*txt/i);
+    await expect(createDatasetFile(input)).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/invalid file type.*txt/i) });
   });
 
   it('should reject file type with different case if not in allowed list', async () => {
@@ -124,7 +140,7 @@ describe('createDatasetFile', () => {
   it('should reject file size exceeding 100MB limit', async () => {
     const input = { ...validInput, dataset_id: testDatasetId, size: 101 * 1024 * 1024 }; // 101MB
     
-    await expect(createDatasetFile(input)).rejects.toThrow(/file size.*exceeds maximum/i);
+    await expect(createDatasetFile(input)).rejects.toMatchObject({ code: 'PAYLOAD_TOO_LARGE', message: expect.stringMatching(/file size.*exceeds maximum/i) });
   });
 
   it('should accept file size at 100MB limit', async () => {
@@ -148,7 +164,7 @@ describe('createDatasetFile', () => {
   it('should reject non-existent dataset_id', async () => {
     const input = { ...validInput, dataset_id: 99999 };
     
-    await expect(createDatasetFile(input)).rejects.toThrow(/dataset with id 99999 does not exist/i);
+    await expect(createDatasetFile(input)).rejects.toMatchObject({ code: 'NOT_FOUND', message: expect.stringMatching(/dataset with id 99999 does not exist/i) });
   });
 
   it('should handle different filename extensions', async () => {
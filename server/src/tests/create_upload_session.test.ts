@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, uploadSessionsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { MAX_FILE_SIZE } from '../lib/uploads';
+
+describe('createUploadSession', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' }
+      ])
+      .returning()
+      .execute();
+
+    const [owner, other] = users.map(({ password, ...user }): AuthUser => user);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Upload Dataset',
+        description: 'Dataset for upload tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    return { owner, other, dataset };
+  };
+
+  it('should create a session with nothing received yet', async () => {
+    const { owner, dataset } = await createTestData();
+
+    const result = await createUploadSession({
+      dataset_id: dataset.id,
+      filename: 'big/Measurements.CSV',
+      size: 5000
+    }, owner);
+
+    expect(result.dataset_id).toEqual(dataset.id);
+    expect(result.user_id).toEqual(owner.id);
+    expect(result.filename).toEqual('Measurements.CSV');
+    expect(result.type).toEqual('csv');
+    expect(result.size).toEqual(5000);
+    expect(result.received).toEqual(0);
+    expect(result.sha256).toBeNull();
+    expect(result.completed_at).toBeNull();
+    expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const rows = await db.select().from(uploadSessionsTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should honour the configured session lifetime', async () => {
+    const { owner, dataset } = await createTestData();
+    process.env['UPLOAD_SESSION_TTL_HOURS'] = '2';
+
+    try {
+      const result = await createUploadSession({ dataset_id: dataset.id, filename: 'data.json', size: 10 }, owner);
+      const ttl = result.expires_at.getTime() - Date.now();
+      expect(ttl).toBeGreaterThan(1.9 * 60 * 60 * 1000);
+      expect(ttl).toBeLessThanOrEqual(2 * 60 * 60 * 1000);
+    } finally {
+      delete process.env['UPLOAD_SESSION_TTL_HOURS'];
+    }
+  });
+
+  it('should reject files larger than the maximum size up front', async () => {
+    const { owner, dataset } = await createTestData();
+
+    await expect(createUploadSession({
+      dataset_id: dataset.id,
+      filename: 'huge.csv',
+      size: MAX_FILE_SIZE + 1
+    }, owner)).rejects.toThrow(/exceeds maximum allowed size/i);
+  });
+
+  it('should reject unsupported file types', async () => {
+    const { owner, dataset } = await createTestData();
+
+    await expect(createUploadSession({
+      dataset_id: dataset.id,
+      filename: 'notes.txt',
+      size: 10
+    }, owner)).rejects.toThrow(/invalid file type/i);
+  });
+
+  it('should reject sessions for datasets the user does not own', async () => {
+    const { other, dataset } = await createTestData();
+
+    await expect(createUploadSession({
+      dataset_id: dataset.id,
+      filename: 'data.csv',
+      size: 10
+    }, other)).rejects.toThrow(/your own datasets/i);
+  });
+});
@@ -137,4 +137,16 @@ describe('createUser', () => {
     expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(beforeCreation.getTime());
     expect(result.updated_at.getTime()).toBeLessThanOrEqual(afterCreation.getTime());
   });
-});
\ No newline at end of file
+
+  it('should reject passwords that violate the password policy', async () => {
+    const input: CreateUserInput = {
+      ...minimalUserInput,
+      password: 'short'
+    };
+
+    await expect(createUser(input)).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/at least 8 characters/i) });
+
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(0);
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, accessRequestsTable } from '../db/schema';
+import { type DecideAccessRequestInput } from '../schema';
+import { decideAccessRequest } from '../handlers/decide_access_request';
+import { canAccessDatasetFiles } from '../lib/dataset_access';
+
+const inOneWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+describe('decideAccessRequest', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const [contributor, viewer, curator, otherContributor] = await db.insert(usersTable)
+      .values([
+        { email: 'contributor@test.com', password: 'password123', role: 'contributor', name: 'Test Contributor' },
+        { email: 'viewer@test.com', password: 'password123', role: 'viewer', name: 'Test Viewer' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Test Curator' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other Contributor' }
+      ])
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Clinical Dataset',
+        description: 'Patient records',
+        domain: 'Medical',
+        task: 'Classification',
+        license: 'Custom',
+        access_level: 'restricted',
+        status: 'published',
+        contributor_id: contributor.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const [request] = await db.insert(accessRequestsTable)
+      .values({
+        dataset_id: dataset.id,
+        requester_id: viewer.id,
+        purpose: 'Replicating the results of a published study'
+      })
+      .returning()
+      .execute();
+
+    return { contributor, viewer, curator, otherContributor, dataset, request };
+  };
+
+  it('should let the contributor approve a request with an expiry date', async () => {
+    const { contributor, request } = await createTestData();
+    const expiresAt = inOneWeek();
+
+    const input: DecideAccessRequestInput = {
+      id: request.id,
+      reviewer_id: contributor.id,
+      status: 'approved',
+      expires_at: expiresAt,
+      decision_notes: 'Approved for replication'
+    };
+
+    const result = await decideAccessRequest(input);
+
+    expect(result.status).toEqual('approved');
+    expect(result.reviewer_id).toEqual(contributor.id);
+    expect(result.expires_at!.getTime()).toEqual(expiresAt.getTime());
+    expect(result.decision_notes).toEqual('Approved for replication');
+    expect(result.decided_at).toBeInstanceOf(Date);
+  });
+
+  it('should grant file access until the approval expires', async () => {
+    const { curator, viewer, dataset, request } = await createTestData();
+    const { password, ...viewerUser } = viewer;
+
+    expect(await canAccessDatasetFiles(viewerUser, dataset)).toBe(false);
+
+    await decideAccessRequest({
+      id: request.id,
+      reviewer_id: curator.id,
+      status: 'approved',
+      expires_at: inOneWeek(),
+      decision_notes: null
+    });
+
+    expect(await canAccessDatasetFiles(viewerUser, dataset)).toBe(true);
+    expect(await canAccessDatasetFiles(null, dataset)).toBe(false);
+
+    await db.update(accessRequestsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .execute();
+
+    expect(await canAccessDatasetFiles(viewerUser, dataset)).toBe(false);
+  });
+
+  it('should deny a request without granting access', async () => {
+    const { contributor, viewer, dataset, request } = await createTestData();
+
+    const result = await decideAccessRequest({
+      id: request.id,
+      reviewer_id: contributor.id,
+      status: 'denied',
+      expires_at: inOneWeek(),
+      decision_notes: 'Purpose is too vague'
+    });
+
+    expect(result.status).toEqual('denied');
+    expect(result.expires_at).toBeNull();
+
+    const { password, ...viewerUser } = viewer;
+    expect(await canAccessDatasetFiles(viewerUser, dataset)).toBe(false);
+  });
+
+  it('should require a future expiry date for approvals', async () => {
+    const { contributor, request } = await createTestData();
+
+    await expect(decideAccessRequest({
+      id: request.id,
+      reviewer_id: contributor.id,
+      status: 'approved',
+      expires_at: null,
+      decision_notes: null
+    })).rejects.toThrow(/expiry date in the future/i);
+
+    await expect(decideAccessRequest({
+      id: request.id,
+      reviewer_id: contributor.id,
+      status: 'approved',
+      expires_at: new Date(Date.now() - 1000),
+      decision_notes: null
+    })).rejects.toThrow(/expiry date in the future/i);
+  });
+
+  it('should reject decisions from unrelated contributors', async () => {
+    const { otherContributor, request } = await createTestData();
+
+    await expect(decideAccessRequest({
+      id: request.id,
+      reviewer_id: otherContributor.id,
+      status: 'approved',
+      expires_at: inOneWeek(),
+      decision_notes: null
+    })).rejects.toMatchObject({ code: 'FORBIDDEN', message: expect.stringMatching(/only the dataset contributor or a curator/i) });
+  });
+
+  it('should not decide a request twice', async () => {
+    const { contributor, request } = await createTestData();
+
+    await decideAccessRequest({
+      id: request.id,
+      reviewer_id: contributor.id,
+      status: 'denied',
+      expires_at: null,
+      decision_notes: null
+    });
+
+    await expect(decideAccessRequest({
+      id: request.id,
+      reviewer_id: contributor.id,
+      status: 'approved',
+      expires_at: inOneWeek(),
+      decision_notes: null
+    })).rejects.toThrow(/already been denied/i);
+  });
+
+  it('should let only one of two concurrent decisions through', async () => {
+    const { contributor, curator, request } = await createTestData();
+
+    const results = await Promise.allSettled([
+      decideAccessRequest({ id: request.id, reviewer_id: contributor.id, status: 'denied', expires_at: null, decision_notes: null }),
+      decideAccessRequest({ id: request.id, reviewer_id: curator.id, status: 'approved', expires_at: inOneWeek(), decision_notes: null })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const [rejected] = results.filter(result => result.status === 'rejected');
+    expect((rejected as PromiseRejectedResult).reason).toMatchObject({ code: 'CONFLICT' });
+  });
+
+  it('should throw for a missing request', async () => {
+    const { contributor } = await createTestData();
+
+    await expect(decideAccessRequest({
+      id: 99999,
+      reviewer_id: contributor.id,
+      status: 'denied',
+      expires_at: null,
+      decision_notes: null
+    })).rejects.toThrow(/not found/i);
+  });
+});
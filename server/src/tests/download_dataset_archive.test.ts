@@ -0,0 +1,152 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, fileDownloadsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { downloadDatasetArchive } from '../handlers/download_dataset_archive';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { Readable } from 'stream';
+import { buffer } from 'stream/consumers';
+import { inflateRawSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+// Reads entry names and contents through the central directory of a ZIP archive
+const readZip = (zip: Buffer): Map<string, string> => {
+  const eocd = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, (method === 8 ? inflateRawSync(data) : data).toString('utf-8'));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+describe('downloadDatasetArchive', () => {
+  let storageDir: string;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'archive-test-'));
+    const storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+    await storage.put('datasets/train.csv', Readable.from([Buffer.from('x,y\n1,2\n')]));
+    await storage.put('datasets/test.csv', Readable.from([Buffer.from('x,y\n3,4\n')]));
+    await storage.put('datasets/meta.json', Readable.from([Buffer.from('{"rows":2}')]));
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (accessLevel: 'public' | 'private' | 'restricted' = 'public') => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Ada Lovelace' },
+        { email: 'reader@test.com', password: 'password123', role: 'viewer', name: 'Reader' }
+      ])
+      .returning()
+      .execute();
+
+    const [owner, reader] = users.map(({ password, ...user }): AuthUser => user);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Iris Measurements',
+        description: 'Petal and sepal measurements.',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        doi: '10.1234/iris',
+        access_level: accessLevel,
+        status: 'published',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    await db.insert(datasetFilesTable)
+      .values([
+        { dataset_id: dataset.id, filename: 'data.csv', path: 'datasets/train.csv', size: 8, type: 'csv' },
+        { dataset_id: dataset.id, filename: 'data.csv', path: 'datasets/test.csv', size: 8, type: 'csv' },
+        { dataset_id: dataset.id, filename: 'meta.json', path: 'datasets/meta.json', size: 10, type: 'json' }
+      ])
+      .execute();
+
+    return { owner, reader, dataset };
+  };
+
+  it('should stream all files with a README', async () => {
+    const { reader, dataset } = await createTestData();
+
+    const archive = await downloadDatasetArchive(dataset.id, reader);
+    expect(archive.filename).toEqual(`iris-measurements-${dataset.id}.zip`);
+
+    const entries = readZip(await buffer(archive.body));
+    expect([...entries.keys()]).toEqual(['README.md', 'data.csv', 'data (2).csv', 'meta.json']);
+    expect(entries.get('data.csv')).toEqual('x,y\n1,2\n');
+    expect(entries.get('data (2).csv')).toEqual('x,y\n3,4\n');
+    expect(entries.get('meta.json')).toEqual('{"rows":2}');
+
+    const readme = entries.get('README.md')!;
+    expect(readme).toStartWith('# Iris Measurements');
+    expect(readme).toContain('- Contributor: Ada Lovelace');
+    expect(readme).toContain('- DOI: 10.1234/iris');
+    expect(readme).toContain('- data (2).csv (CSV, 8 B)');
+    expect(readme).toContain('Ada Lovelace. (2024). Iris Measurements (Version 1) [Dataset]. https://doi.org/10.1234/iris.');
+    expect(readme).toContain('Copyright (c) 2024 Ada Lovelace');
+    expect(readme).toContain('Permission is hereby granted, free of charge');
+  });
+
+  it('should record a download for every included file', async () => {
+    const { reader, dataset } = await createTestData();
+
+    const archive = await downloadDatasetArchive(dataset.id, reader);
+    await buffer(archive.body);
+
+    const downloads = await db.select().from(fileDownloadsTable).execute();
+    expect(downloads).toHaveLength(3);
+    expect(downloads.every(download => download.user_id === reader.id && download.range_start === null)).toBe(true);
+  });
+
+  it('should enforce access to the dataset files', async () => {
+    const { owner, reader, dataset } = await createTestData('restricted');
+
+    await expect(downloadDatasetArchive(dataset.id, reader)).rejects.toThrow(/restricted/i);
+    await expect(downloadDatasetArchive(dataset.id, null)).rejects.toThrow(/restricted/i);
+
+    const archive = await downloadDatasetArchive(dataset.id, owner);
+    expect(readZip(await buffer(archive.body)).size).toEqual(4);
+  });
+
+  it('should fail before streaming when a file is missing from storage', async () => {
+    const { reader, dataset } = await createTestData();
+    await db.insert(datasetFilesTable)
+      .values({ dataset_id: dataset.id, filename: 'gone.csv', path: 'datasets/gone.csv', size: 1, type: 'csv' })
+      .execute();
+
+    await expect(downloadDatasetArchive(dataset.id, reader)).rejects.toThrow(/missing from storage/i);
+    expect(await db.select().from(fileDownloadsTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,243 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, accessRequestsTable, fileDownloadsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { downloadDatasetFile, fileETag } from '../handlers/download_dataset_file';
+import { RangeNotSatisfiableError } from '../lib/byte_range';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { text } from 'stream/consumers';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const content = 'name,age\nAlice,30\nBob,25\n';
+
+describe('downloadDatasetFile', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'download-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+    await storage.put('datasets/people.csv', Readable.from([Buffer.from(content)]));
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (accessLevel: 'public' | 'private' | 'restricted' = 'public') => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'reader@test.com', password: 'password123', role: 'viewer', name: 'Reader' }
+      ])
+      .returning()
+      .execute();
+
+    const [owner, reader] = users.map(({ password, ...user }): AuthUser => user);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Download Dataset',
+        description: 'Dataset for download tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: accessLevel,
+        status: 'published',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const [file] = await db.insert(datasetFilesTable)
+      .values({
+        dataset_id: dataset.id,
+        filename: 'people.csv',
+        path: 'datasets/people.csv',
+        size: Buffer.byteLength(content),
+        type: 'csv',
+        sha256: createHash('sha256').update(content).digest('hex')
+      })
+      .returning()
+      .execute();
+
+    return { owner, reader, dataset, file };
+  };
+
+  it('should stream the whole file and record the download', async () => {
+    const { reader, file } = await createTestData();
+
+    const download = await downloadDatasetFile({ file_id: file.id }, reader);
+
+    expect(download.file.id).toEqual(file.id);
+    expect(download.size).toEqual(Buffer.byteLength(content));
+    expect(download.range).toBeNull();
+    expect(await text(download.body)).toEqual(content);
+
+    const downloads = await db.select().from(fileDownloadsTable).execute();
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].user_id).toEqual(reader.id);
+    expect(downloads[0].dataset_id).toEqual(file.dataset_id);
+    expect(downloads[0].range_start).toBeNull();
+  });
+
+  it('should serve byte ranges', async () => {
+    const { file } = await createTestData();
+
+    const first = await downloadDatasetFile({ file_id: file.id, range: 'bytes=0-8' }, null);
+    expect(first.range).toEqual({ start: 0, end: 8 });
+    expect(await text(first.body)).toEqual('name,age\n');
+
+    const rest = await downloadDatasetFile({ file_id: file.id, range: 'bytes=9-' }, null);
+    expect(rest.range).toEqual({ start: 9, end: 24 });
+    expect(await text(rest.body)).toEqual('Alice,30\nBob,25\n');
+
+    const suffix = await downloadDatasetFile({ file_id: file.id, range: 'bytes=-3' }, null);
+    expect(await text(suffix.body)).toEqual('25\n');
+
+    const downloads = await db.select().from(fileDownloadsTable).execute();
+    expect(downloads.map(row => [row.range_start, row.range_end, row.user_id])).toEqual([
+      [0, 8, null],
+      [9, 24, null],
+      [22, 24, null]
+    ]);
+  });
+
+  it('should only resume while If-Range matches the file', async () => {
+    const { file } = await createTestData();
+    const etag = fileETag(file);
+    expect(etag).toEqual(`"${file.sha256}"`);
+
+    const resumed = await downloadDatasetFile({ file_id: file.id, range: 'bytes=9-', if_range: etag! }, null);
+    expect(resumed.range).toEqual({ start: 9, end: 24 });
+    resumed.body.destroy();
+
+    const changed = await downloadDatasetFile({ file_id: file.id, range: 'bytes=9-', if_range: '"stale"' }, null);
+    expect(changed.range).toBeNull();
+    expect(await text(changed.body)).toEqual(content);
+  });
+
+  it('should ignore malformed and multi-part ranges', async () => {
+    const { file } = await createTestData();
+
+    const malformed = await downloadDatasetFile({ file_id: file.id, range: 'lines=1-2' }, null);
+    expect(malformed.range).toBeNull();
+    malformed.body.destroy();
+
+    const multipart = await downloadDatasetFile({ file_id: file.id, range: 'bytes=0-1,4-5' }, null);
+    expect(multipart.range).toBeNull();
+    multipart.body.destroy();
+  });
+
+  it('should reject ranges beyond the end of the file', async () => {
+    const { file } = await createTestData();
+
+    const error = await downloadDatasetFile({ file_id: file.id, range: 'bytes=100-' }, null)
+      .then(() => null, (err: unknown) => err);
+
+    expect(error).toBeInstanceOf(RangeNotSatisfiableError);
+    expect((error as RangeNotSatisfiableError).size).toEqual(Buffer.byteLength(content));
+    expect(await db.select().from(fileDownloadsTable).execute()).toHaveLength(0);
+  });
+
+  it('should enforce access to restricted datasets', async () => {
+    const { reader, dataset, file } = await createTestData('restricted');
+
+    await expect(downloadDatasetFile({ file_id: file.id }, reader)).rejects.toThrow(/restricted/i);
+
+    await db.insert(accessRequestsTable)
+      .values({
+        dataset_id: dataset.id,
+        requester_id: reader.id,
+        purpose: 'Reproducing published results',
+        status: 'approved',
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      })
+      .execute();
+
+    const download = await downloadDatasetFile({ file_id: file.id }, reader);
+    expect(await text(download.body)).toEqual(content);
+  });
+
+  it('should hide files of private datasets', async () => {
+    const { owner, reader, file } = await createTestData('private');
+
+    await expect(downloadDatasetFile({ file_id: file.id }, reader)).rejects.toThrow(/file with id \d+ not found/i);
+    await expect(downloadDatasetFile({ file_id: file.id }, null)).rejects.toThrow(/file with id \d+ not found/i);
+
+    const download = await downloadDatasetFile({ file_id: file.id }, owner);
+    expect(await text(download.body)).toEqual(content);
+  });
+
+  it('should report missing files and missing content', async () => {
+    const { dataset } = await createTestData();
+
+    await expect(downloadDatasetFile({ file_id: 99999 }, null)).rejects.toThrow(/not found/i);
+
+    const [orphan] = await db.insert(datasetFilesTable)
+      .values({
+        dataset_id: dataset.id,
+        filename: 'gone.csv',
+        path: 'datasets/gone.csv',
+        size: 10,
+        type: 'csv'
+      })
+      .returning()
+      .execute();
+
+    await expect(downloadDatasetFile({ file_id: orphan.id }, null)).rejects.toThrow(/missing from storage/i);
+  });
+
+  it('should not read outside the storage root', async () => {
+    const { dataset } = await createTestData();
+    const outside = path.join(path.dirname(storageDir), 'people.csv');
+
+    for (const key of ['/etc/passwd', '../people.csv', 'datasets/../../people.csv', outside]) {
+      const [file] = await db.insert(datasetFilesTable)
+        .values({ dataset_id: dataset.id, filename: 'escape.csv', path: key, size: 10, type: 'csv' })
+        .returning()
+        .execute();
+
+      await expect(downloadDatasetFile({ file_id: file.id }, null)).rejects.toThrow(/missing from storage/i);
+    }
+
+    expect(() => storage.resolve('/etc/passwd')).toThrow('Invalid storage key');
+    expect(() => storage.resolve('datasets/../people.csv')).toThrow('Invalid storage key');
+  });
+
+  it('should read absolute paths inside legacy directories', async () => {
+    const legacy = new LocalDiskStorage(path.join(storageDir, 'other'), [path.join(storageDir, 'datasets')]);
+    const { dataset } = await createTestData();
+    const [file] = await db.insert(datasetFilesTable)
+      .values({
+        dataset_id: dataset.id,
+        filename: 'people.csv',
+        path: path.join(storageDir, 'datasets', 'people.csv'),
+        size: Buffer.byteLength(content),
+        type: 'csv'
+      })
+      .returning()
+      .execute();
+
+    setStorage(legacy);
+    try {
+      const download = await downloadDatasetFile({ file_id: file.id }, null);
+      expect(await text(download.body)).toEqual(content);
+      expect(() => legacy.resolve(path.join(storageDir, 'elsewhere.csv'))).toThrow('Invalid storage key');
+    } finally {
+      setStorage(storage);
+    }
+  });
+});
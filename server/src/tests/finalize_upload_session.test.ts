@@ -0,0 +1,185 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, uploadChunksTable, uploadSessionsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { createUploadSession } from '../handlers/create_upload_session';
+import { appendUploadChunk } from '../handlers/append_upload_chunk';
+import { finalizeUploadSession } from '../handlers/finalize_upload_session';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import * as uploads from '../lib/uploads';
+import { createHash } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { Readable } from 'stream';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const content = 'name,age\nAlice,30\nBob,25\n';
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+describe('finalizeUploadSession', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'finalize-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (fileSha256: string | null = null) => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+      .returning()
+      .execute();
+
+    const { password, ...owner } = user;
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Upload Dataset',
+        description: 'Dataset for upload tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const session = await createUploadSession({
+      dataset_id: dataset.id,
+      filename: 'people.csv',
+      size: Buffer.byteLength(content),
+      sha256: fileSha256
+    }, owner);
+
+    return { owner: owner as AuthUser, session };
+  };
+
+  const uploadInChunks = async (uploadId: number, owner: AuthUser, chunkSize: number) => {
+    for (let offset = 0; offset < content.length; offset += chunkSize) {
+      await appendUploadChunk({
+        upload_id: uploadId,
+        offset,
+        body: Readable.from([Buffer.from(content.slice(offset, offset + chunkSize))])
+      }, owner);
+    }
+  };
+
+  it('should assemble the chunks into a dataset file', async () => {
+    const { owner, session } = await createTestData(sha256(content));
+    await uploadInChunks(session.id, owner, 7);
+
+    const file = await finalizeUploadSession(session.id, owner);
+
+    expect(file.dataset_id).toEqual(session.dataset_id);
+    expect(file.filename).toEqual('people.csv');
+    expect(file.type).toEqual('csv');
+    expect(file.size).toEqual(Buffer.byteLength(content));
+    expect(file.sha256).toEqual(sha256(content));
+    expect(file.md5).toEqual(createHash('md5').update(content).digest('hex'));
+    expect(file.validation_status).toEqual('pass');
+    expect(await fs.readFile(storage.resolve(file.path), 'utf-8')).toEqual(content);
+
+    const [row] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(row.completed_at).toBeInstanceOf(Date);
+    expect(row.file_id).toEqual(file.id);
+
+    // Chunks are removed once assembled
+    expect(await db.select().from(uploadChunksTable).execute()).toHaveLength(0);
+    const leftovers = await fs.readdir(path.join(storageDir, 'uploads', String(session.id))).catch(() => [] as string[]);
+    expect(leftovers).toHaveLength(0);
+  });
+
+  it('should return the same file when finalized again', async () => {
+    const { owner, session } = await createTestData();
+    await uploadInChunks(session.id, owner, 10);
+
+    const first = await finalizeUploadSession(session.id, owner);
+    const second = await finalizeUploadSession(session.id, owner);
+
+    expect(second.id).toEqual(first.id);
+    expect(await db.select().from(datasetFilesTable).execute()).toHaveLength(1);
+  });
+
+  it('should refuse to finalize incomplete uploads', async () => {
+    const { owner, session } = await createTestData();
+    await appendUploadChunk({
+      upload_id: session.id,
+      offset: 0,
+      body: Readable.from([Buffer.from(content.slice(0, 5))])
+    }, owner);
+
+    await expect(finalizeUploadSession(session.id, owner)).rejects.toThrow(/received 5 of 25 bytes/i);
+    expect(await db.select().from(datasetFilesTable).execute()).toHaveLength(0);
+  });
+
+  it('should reject a file that does not match the declared checksum', async () => {
+    const { owner, session } = await createTestData(sha256('different content'));
+    await uploadInChunks(session.id, owner, 10);
+
+    await expect(finalizeUploadSession(session.id, owner)).rejects.toThrow(/checksum mismatch/i);
+    expect(await db.select().from(datasetFilesTable).execute()).toHaveLength(0);
+
+    // The claim is released so the session is not left half finalized
+    const [row] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(row.completed_at).toBeNull();
+  });
+
+  it('should take over a finalize claim that was abandoned', async () => {
+    const { owner, session } = await createTestData();
+    await uploadInChunks(session.id, owner, 10);
+    const claim = (completedAt: Date) => db.update(uploadSessionsTable)
+      .set({ completed_at: completedAt })
+      .where(eq(uploadSessionsTable.id, session.id))
+      .execute();
+
+    await claim(new Date());
+    await expect(finalizeUploadSession(session.id, owner)).rejects.toThrow('Upload is already being finalized');
+
+    await claim(new Date(Date.now() - 60 * 60 * 1000));
+    const file = await finalizeUploadSession(session.id, owner);
+
+    const [row] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(row.file_id).toEqual(file.id);
+  });
+
+  it('should leave a claim alone that was taken over while assembling', async () => {
+    const { owner, session } = await createTestData();
+    await uploadInChunks(session.id, owner, 10);
+    const takenOver = new Date(Date.now() + 1000);
+    // As if the lease passed and another finalize call claimed the session meanwhile
+    const inspect = uploads.inspectUpload;
+    const spy = spyOn(uploads, 'inspectUpload').mockImplementation(async (...args) => {
+      await db.update(uploadSessionsTable)
+        .set({ completed_at: takenOver })
+        .where(eq(uploadSessionsTable.id, session.id))
+        .execute();
+      return inspect(...args);
+    });
+
+    try {
+      await expect(finalizeUploadSession(session.id, owner)).rejects.toMatchObject({ code: 'CONFLICT' });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await db.select().from(datasetFilesTable).execute()).toHaveLength(0);
+    const [row] = await db.select().from(uploadSessionsTable).where(eq(uploadSessionsTable.id, session.id)).execute();
+    expect(row).toMatchObject({ file_id: null, completed_at: takenOver });
+  });
+});
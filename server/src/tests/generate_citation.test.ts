@@ -47,12 +47,12 @@ describe('generateCitation', () => {
 
     // Check APA format
     expect(citation.apa).toBe(
-      'John Doe. (2023). Machine Learning Dataset [Dataset]. https://doi.org/10.1234/example.doi.'
+      'John Doe. (2023). Machine Learning Dataset (Version 1) [Dataset]. https://doi.org/10.1234/example.doi.'
     );
 
     // Check IEEE format
     expect(citation.ieee).toBe(
-      'John Doe, "Machine Learning Dataset," Dataset, 2023. [Online]. Available: https://doi.org/10.1234/example.doi'
+      'John Doe, "Machine Learning Dataset," Dataset, version 1, 2023. [Online]. Available: https://doi.org/10.1234/example.doi'
     );
   });
 
@@ -94,12 +94,12 @@ describe('generateCitation', () => {
 
     // Check APA format without DOI
     expect(citation.apa).toBe(
-      'Jane Smith. (2022). Research Data Collection [Dataset]. Unimus Repository.'
+      'Jane Smith. (2022). Research Data Collection (Version 1) [Dataset]. Unimus Repository.'
     );
 
     // Check IEEE format without DOI
     expect(citation.ieee).toBe(
-      'Jane Smith, "Research Data Collection," Dataset, 2022. [Database]'
+      'Jane Smith, "Research Data Collection," Dataset, version 1, 2022. [Database]'
     );
   });
 
@@ -182,10 +182,10 @@ describe('generateCitation', () => {
 
     // Should properly handle special characters
     expect(citation.apa).toBe(
-      'Dr. María González. (2023). COVID-19 Data: Analysis & Trends (2020-2023) [Dataset]. Unimus Repository.'
+      'Dr. María González. (2023). COVID-19 Data: Analysis & Trends (2020-2023) (Version 1) [Dataset]. Unimus Repository.'
     );
     expect(citation.ieee).toBe(
-      'Dr. María González, "COVID-19 Data: Analysis & Trends (2020-2023)," Dataset, 2023. [Database]'
+      'Dr. María González, "COVID-19 Data: Analysis & Trends (2020-2023)," Dataset, version 1, 2023. [Database]'
     );
   });
 
@@ -227,7 +227,7 @@ describe('generateCitation', () => {
 
     // Should correctly format older publication years
     expect(citation.apa).toContain('(1950)');
-    expect(citation.ieee).toContain('Dataset, 1950.');
+    expect(citation.ieee).toContain('Dataset, version 1, 1950.');
   });
 
   it('should handle long dataset titles appropriately', async () => {
@@ -272,6 +272,6 @@ describe('generateCitation', () => {
     expect(citation.apa).toContain(longTitle);
     expect(citation.ieee).toContain(`"${longTitle},"`);
     expect(citation.apa).toContain('[Dataset]');
-    expect(citation.ieee).toContain('Dataset, 2024');
+    expect(citation.ieee).toContain('Dataset, version 1, 2024');
   });
 });
\ No newline at end of file
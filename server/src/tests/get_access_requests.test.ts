@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, accessRequestsTable } from '../db/schema';
+import { getAccessRequests } from '../handlers/get_access_requests';
+
+describe('getAccessRequests', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const [contributor, firstViewer, secondViewer, curator] = await db.insert(usersTable)
+      .values([
+        { email: 'contributor@test.com', password: 'password123', role: 'contributor', name: 'Test Contributor' },
+        { email: 'first@test.com', password: 'password123', role: 'viewer', name: 'First Viewer' },
+        { email: 'second@test.com', password: 'password123', role: 'viewer', name: null },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Test Curator' }
+      ])
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Clinical Dataset',
+        description: 'Patient records',
+        domain: 'Medical',
+        task: 'Classification',
+        license: 'Custom',
+        access_level: 'restricted',
+        status: 'published',
+        contributor_id: contributor.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    await db.insert(accessRequestsTable)
+      .values([
+        { dataset_id: dataset.id, requester_id: firstViewer.id, purpose: 'Teaching a course on clinical ML' },
+        { dataset_id: dataset.id, requester_id: secondViewer.id, purpose: 'Thesis research', status: 'denied', decided_at: new Date() }
+      ])
+      .execute();
+
+    const strip = <T extends { password: string }>({ password, ...user }: T) => user;
+
+    return {
+      contributor: strip(contributor),
+      firstViewer: strip(firstViewer),
+      secondViewer: strip(secondViewer),
+      curator: strip(curator),
+      dataset
+    };
+  };
+
+  it('should list pending requests for a dataset with requester details', async () => {
+    const { contributor, firstViewer, dataset } = await createTestData();
+
+    const results = await getAccessRequests({ datasetId: dataset.id, status: 'pending' }, contributor);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].requester_id).toEqual(firstViewer.id);
+    expect(results[0].requester_name).toEqual('First Viewer');
+    expect(results[0].requester_email).toEqual('first@test.com');
+    expect(results[0].dataset_title).toEqual('Clinical Dataset');
+    expect(results[0].status).toEqual('pending');
+  });
+
+  it('should list all requests for a dataset without a status filter', async () => {
+    const { curator, dataset } = await createTestData();
+
+    const results = await getAccessRequests({ datasetId: dataset.id }, curator);
+
+    expect(results).toHaveLength(2);
+  });
+
+  it('should let requesters list only their own requests', async () => {
+    const { firstViewer, secondViewer } = await createTestData();
+
+    const results = await getAccessRequests({ requesterId: secondViewer.id }, secondViewer);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].status).toEqual('denied');
+
+    await expect(getAccessRequests({ requesterId: secondViewer.id }, firstViewer)).rejects.toThrow(/your own access requests/i);
+  });
+
+  it('should keep dataset listings from other users', async () => {
+    const { firstViewer, dataset } = await createTestData();
+
+    await expect(getAccessRequests({ datasetId: dataset.id }, firstViewer)).rejects.toThrow(/your own datasets/i);
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, datasetStatusHistoryTable, reviewAssignmentsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { getCurationQueue } from '../handlers/get_curation_queue';
+import { getDashboardStats } from '../handlers/get_dashboard_stats';
+import { createCurationReview } from '../handlers/create_curation_review';
+import { setCurationPolicy } from '../handlers/set_curation_policy';
+import { transitionDataset } from '../lib/lifecycle';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getCurationQueue', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' },
+        { email: 'second@test.com', password: 'password123', role: 'curator', name: 'Second' }
+      ])
+      .returning()
+      .execute();
+    const [owner, curator, second] = users.map(({ password, ...user }) => user as AuthUser);
+
+    // Submits a dataset for review the given number of days ago
+    const submit = async (title: string, daysAgo: number) => {
+      const [dataset] = await db.insert(datasetsTable)
+        .values({
+          title,
+          description: 'A dataset for testing',
+          domain: 'Biology',
+          task: 'Classification',
+          license: 'MIT',
+          access_level: 'public',
+          status: 'draft',
+          contributor_id: owner.id,
+          publication_year: 2024
+        })
+        .returning()
+        .execute();
+      await db.insert(datasetFilesTable)
+        .values({ dataset_id: dataset.id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+        .execute();
+      await transitionDataset(dataset.id, 'review');
+      await db.update(datasetStatusHistoryTable)
+        .set({ created_at: new Date(Date.now() - daysAgo * DAY_MS) })
+        .where(eq(datasetStatusHistoryTable.dataset_id, dataset.id))
+        .execute();
+      return dataset;
+    };
+
+    return { owner, curator, second, submit };
+  };
+
+  it('should list datasets waiting for a decision, longest waiting first', async () => {
+    const { curator, submit } = await createTestData();
+    const recent = await submit('Recent', 1);
+    const old = await submit('Old', 20);
+    const decided = await submit('Decided', 5);
+    await createCurationReview({ dataset_id: decided.id, reviewer_id: curator.id, status: 'approved', notes: null });
+
+    const queue = await getCurationQueue({ scope: 'all', overdue_only: false }, curator);
+
+    expect(queue.map(item => item.dataset_id)).toEqual([old.id, recent.id]);
+    expect(queue[0]).toMatchObject({ title: 'Old', domain: 'Biology', review_round: 1, age_days: 20, sla_breached: true, reviewer_ids: [] });
+    expect(queue[0].outcome.decision).toEqual('pending');
+    expect(queue[1]).toMatchObject({ age_days: 1, sla_breached: false });
+    expect(queue[1].sla_due_at.getTime() - queue[1].submitted_at.getTime()).toEqual(14 * DAY_MS);
+  });
+
+  it('should keep datasets with a pending review in the queue', async () => {
+    const { curator, submit } = await createTestData();
+    const dataset = await submit('Pending', 2);
+    await createCurationReview({ dataset_id: dataset.id, reviewer_id: curator.id, status: 'pending', notes: null });
+
+    const queue = await getCurationQueue({ scope: 'all', overdue_only: false });
+    expect(queue.map(item => item.dataset_id)).toEqual([dataset.id]);
+  });
+
+  it('should decide each dataset under the policy of its domain', async () => {
+    const { curator, second, submit } = await createTestData();
+    await setCurationPolicy({ domain: 'Biology', required_approvals: 2, rejection_blocks: true, admin_override: true });
+    const dataset = await submit('Needs two', 2);
+    await createCurationReview({ dataset_id: dataset.id, reviewer_id: curator.id, status: 'approved', notes: null });
+
+    const [item] = await getCurationQueue({ scope: 'all', overdue_only: false });
+    expect(item.outcome).toMatchObject({ decision: 'pending', approvals: 1, required_approvals: 2 });
+
+    await createCurationReview({ dataset_id: dataset.id, reviewer_id: second.id, status: 'approved', notes: null });
+    expect(await getCurationQueue({ scope: 'all', overdue_only: false })).toEqual([]);
+  });
+
+  it('should filter by assignment and SLA', async () => {
+    const { curator, second, submit } = await createTestData();
+    const mine = await submit('Mine', 3);
+    const theirs = await submit('Theirs', 30);
+    const open = await submit('Open', 15);
+    await db.insert(reviewAssignmentsTable)
+      .values([
+        { dataset_id: mine.id, reviewer_id: curator.id },
+        { dataset_id: theirs.id, reviewer_id: second.id }
+      ])
+      .execute();
+
+    const ids = async (scope: 'all' | 'mine' | 'unclaimed', overdueOnly = false) =>
+      (await getCurationQueue({ scope, overdue_only: overdueOnly }, curator)).map(item => item.dataset_id);
+
+    expect(await ids('mine')).toEqual([mine.id]);
+    expect(await ids('unclaimed')).toEqual([open.id]);
+    expect(await ids('all', true)).toEqual([theirs.id, open.id]);
+  });
+
+  it('should honour the configured SLA', async () => {
+    const { submit } = await createTestData();
+    await submit('Waiting', 3);
+
+    process.env['REVIEW_SLA_DAYS'] = '2';
+    try {
+      const [item] = await getCurationQueue({ scope: 'all', overdue_only: false });
+      expect(item.sla_breached).toBe(true);
+    } finally {
+      delete process.env['REVIEW_SLA_DAYS'];
+    }
+  });
+
+  it('should feed the queue counts of the dashboard', async () => {
+    const { curator, submit } = await createTestData();
+    const claimed = await submit('Claimed', 1);
+    await submit('Overdue', 20);
+    await db.insert(reviewAssignmentsTable)
+      .values({ dataset_id: claimed.id, reviewer_id: curator.id })
+      .execute();
+
+    const stats = await getDashboardStats();
+
+    expect(stats.queuedDatasets).toEqual(2);
+    expect(stats.unclaimedDatasets).toEqual(1);
+    expect(stats.overdueDatasets).toEqual(1);
+  });
+});
@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, datasetsTable, curationReviewsTable } from '../db/schema';
+import { usersTable, datasetsTable, datasetFilesTable, curationReviewsTable, fileDownloadsTable } from '../db/schema';
 import { getDashboardStats } from '../handlers/get_dashboard_stats';
 import { sql } from 'drizzle-orm';
 
@@ -19,6 +19,11 @@ describe('getDashboardStats', () => {
     expect(stats.totalCurators).toEqual(0);
     expect(stats.recentSubmissions).toEqual(0);
     expect(stats.pendingReviews).toEqual(0);
+    expect(stats.queuedDatasets).toEqual(0);
+    expect(stats.unclaimedDatasets).toEqual(0);
+    expect(stats.overdueDatasets).toEqual(0);
+    expect(stats.totalDownloads).toEqual(0);
+    expect(stats.recentDownloads).toEqual(0);
   });
 
   it('should count datasets by status correctly', async () => {
@@ -445,4 +450,96 @@ describe('getDashboardStats', () => {
     expect(stats.recentSubmissions).toEqual(5); // All created within last 30 days
     expect(stats.pendingReviews).toEqual(2);
   });
-});
\ No newline at end of file
+
+  it('should only count datasets visible to the viewer', async () => {
+    const [contributor, curator] = await db.insert(usersTable).values([
+      {
+        email: 'contributor@test.com',
+        password: 'password123',
+        role: 'contributor',
+        name: 'Test Contributor',
+        orcid: null
+      },
+      {
+        email: 'curator@test.com',
+        password: 'password123',
+        role: 'curator',
+        name: 'Test Curator',
+        orcid: null
+      }
+    ]).returning().execute();
+
+    const baseDataset = {
+      description: 'A dataset',
+      domain: 'ML',
+      task: 'classification',
+      license: 'MIT',
+      doi: null,
+      status: 'published' as const,
+      contributor_id: contributor.id,
+      publication_year: 2024
+    };
+
+    await db.insert(datasetsTable).values([
+      { ...baseDataset, title: 'Public Dataset', access_level: 'public' },
+      { ...baseDataset, title: 'Restricted Dataset', access_level: 'restricted' },
+      { ...baseDataset, title: 'Private Dataset', access_level: 'private' }
+    ]).execute();
+
+    const anonymousStats = await getDashboardStats(null);
+    expect(anonymousStats.totalDatasets).toEqual(2);
+    expect(anonymousStats.publishedDatasets).toEqual(2);
+    expect(anonymousStats.recentSubmissions).toEqual(2);
+
+    const { password, ...curatorViewer } = curator;
+    const curatorStats = await getDashboardStats(curatorViewer);
+    expect(curatorStats.totalDatasets).toEqual(3);
+    expect(curatorStats.publishedDatasets).toEqual(3);
+  });
+
+  it('should count downloads once per download rather than per range request', async () => {
+    const [contributor] = await db.insert(usersTable).values({
+      email: 'contributor@test.com',
+      password: 'password123',
+      role: 'contributor',
+      name: 'Test Contributor',
+      orcid: null
+    }).returning().execute();
+
+    const [dataset] = await db.insert(datasetsTable).values({
+      title: 'Downloaded Dataset',
+      description: 'A dataset',
+      domain: 'ML',
+      task: 'classification',
+      license: 'MIT',
+      doi: null,
+      access_level: 'public',
+      status: 'published',
+      contributor_id: contributor.id,
+      publication_year: 2024
+    }).returning().execute();
+
+    const [file] = await db.insert(datasetFilesTable).values({
+      dataset_id: dataset.id,
+      filename: 'data.csv',
+      path: 'datasets/1/data.csv',
+      size: 1000,
+      type: 'csv'
+    }).returning().execute();
+
+    const fortyDaysAgo = new Date();
+    fortyDaysAgo.setDate(fortyDaysAgo.getDate() - 40);
+
+    const download = { file_id: file.id, dataset_id: dataset.id, user_id: null };
+    await db.insert(fileDownloadsTable).values([
+      download,
+      { ...download, range_start: 0, range_end: 499 },
+      { ...download, range_start: 500, range_end: 999 },
+      { ...download, created_at: fortyDaysAgo }
+    ]).execute();
+
+    const stats = await getDashboardStats();
+    expect(stats.totalDownloads).toEqual(3);
+    expect(stats.recentDownloads).toEqual(2);
+  });
+});
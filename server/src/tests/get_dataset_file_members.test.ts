@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable } from '../db/schema';
+import { createDatasetFile } from '../handlers/create_dataset_file';
+import { getDatasetFileMembers } from '../handlers/get_dataset_file_members';
+
+describe('getDatasetFileMembers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createArchive = async (accessLevel: 'public' | 'private') => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Archive Dataset',
+        description: 'Dataset with an archive',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: accessLevel,
+        status: 'published',
+        contributor_id: user.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const file = await createDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'bundle.tar.gz',
+      path: `datasets/${dataset.id}/bundle.tar.gz`,
+      size: 2048,
+      type: 'tar',
+      compression: 'gzip',
+      members: [
+        { path: 'train.csv', size: 4096, format: 'csv' },
+        { path: 'docs/README.md', size: 120, format: null }
+      ]
+    });
+
+    return { user, file };
+  };
+
+  it('should list the members of an archive in archive order', async () => {
+    const { file } = await createArchive('public');
+
+    const members = await getDatasetFileMembers(file.id, null);
+
+    expect(file.compression).toEqual('gzip');
+    expect(members.map(({ path, size, format }) => ({ path, size, format }))).toEqual([
+      { path: 'train.csv', size: 4096, format: 'csv' },
+      { path: 'docs/README.md', size: 120, format: null }
+    ]);
+    expect(members.every(member => member.file_id === file.id)).toBe(true);
+  });
+
+  it('should return no members for files that are not archives', async () => {
+    const { file } = await createArchive('public');
+    const [plain] = await db.insert(datasetFilesTable)
+      .values({ dataset_id: file.dataset_id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+      .returning()
+      .execute();
+
+    expect(await getDatasetFileMembers(plain.id, null)).toEqual([]);
+  });
+
+  it('should hide members of private datasets from other viewers', async () => {
+    const { user, file } = await createArchive('private');
+    const { password, ...owner } = user;
+
+    await expect(getDatasetFileMembers(file.id, null)).rejects.toThrow(/not found/i);
+    expect(await getDatasetFileMembers(file.id, owner)).toHaveLength(2);
+    await expect(getDatasetFileMembers(9999)).rejects.toThrow(/not found/i);
+  });
+});
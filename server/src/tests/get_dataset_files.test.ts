@@ -1,8 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, datasetsTable, datasetFilesTable } from '../db/schema';
-import { type CreateUserInput, type CreateDatasetInput, type CreateDatasetFileInput } from '../schema';
+import { usersTable, datasetsTable, datasetFilesTable, type NewDataset } from '../db/schema';
+import { type CreateUserInput, type CreateDatasetFileInput } from '../schema';
 import { getDatasetFiles } from '../handlers/get_dataset_files';
 
 // Test data
@@ -14,7 +14,7 @@ const testUser: CreateUserInput = {
   orcid: null
 };
 
-const testDataset: CreateDatasetInput = {
+const testDataset: NewDataset = {
   title: 'Test Dataset',
   description: 'A dataset for testing file retrieval',
   domain: 'computer_science',
@@ -265,4 +265,46 @@ describe('getDatasetFiles', () => {
     expect(file.created_at).toBeInstanceOf(Date);
     expect(typeof file.id).toEqual('number');
   });
-});
\ No newline at end of file
+
+  it('should treat private datasets as missing for other viewers', async () => {
+    const [owner] = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({ ...testDataset, access_level: 'private', contributor_id: owner.id })
+      .returning()
+      .execute();
+
+    await db.insert(datasetFilesTable)
+      .values({ ...testFiles[0], dataset_id: dataset.id })
+      .execute();
+
+    await expect(getDatasetFiles(dataset.id, null)).rejects.toThrow(/not found/i);
+
+    const { password, ...ownerViewer } = owner;
+    const files = await getDatasetFiles(dataset.id, ownerViewer);
+    expect(files).toHaveLength(1);
+  });
+
+  it('should list files of restricted datasets for anonymous viewers', async () => {
+    const [owner] = await db.insert(usersTable)
+      .values(testUser)
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({ ...testDataset, access_level: 'restricted', contributor_id: owner.id })
+      .returning()
+      .execute();
+
+    await db.insert(datasetFilesTable)
+      .values({ ...testFiles[0], dataset_id: dataset.id })
+      .execute();
+
+    const files = await getDatasetFiles(dataset.id, null);
+    expect(files).toHaveLength(1);
+    expect(files[0].filename).toEqual('data.csv');
+  });
+});
@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, curationReviewsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { getDatasetVersions } from '../handlers/get_dataset_versions';
+import { getDatasetById } from '../handlers/get_dataset_by_id';
+import { getDatasetFiles } from '../handlers/get_dataset_files';
+import { updateDataset } from '../handlers/update_dataset';
+import { createDatasetFile } from '../handlers/create_dataset_file';
+import { citeDataset } from '../handlers/generate_citation';
+import { transitionDataset } from '../lib/lifecycle';
+
+describe('getDatasetVersions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (accessLevel: 'public' | 'private' = 'public') => {
+    const [owner] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Ada Lovelace' })
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Iris Measurements',
+        description: 'Sepal and petal sizes',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        doi: '10.1234/iris',
+        access_level: accessLevel,
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const addFile = (filename: string) => createDatasetFile({
+      dataset_id: dataset.id,
+      filename,
+      path: `datasets/${filename}`,
+      size: 10,
+      type: 'csv'
+    });
+
+    const [curator] = await db.insert(usersTable)
+      .values({ email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' })
+      .returning()
+      .execute();
+
+    // Takes the current draft through review and curation
+    const publish = async () => {
+      const submitted = await transitionDataset(dataset.id, 'review');
+      await db.insert(curationReviewsTable)
+        .values({ dataset_id: dataset.id, reviewer_id: curator.id, round: submitted.review_round, status: 'approved', notes: null })
+        .execute();
+      await transitionDataset(dataset.id, 'approved');
+      return await transitionDataset(dataset.id, 'published');
+    };
+
+    return { owner: { ...owner, role: 'contributor' } as AuthUser, dataset, addFile, publish };
+  };
+
+  it('should freeze metadata and files when a dataset is published', async () => {
+    const { dataset, addFile, publish } = await createTestData();
+    const file = await addFile('data.csv');
+
+    const published = await publish();
+
+    expect(published).toMatchObject({ version: 1, published_version: 1 });
+    const versions = await getDatasetVersions(dataset.id, null);
+    expect(versions).toHaveLength(1);
+    expect(versions[0]).toMatchObject({ version: 1, title: 'Iris Measurements', doi: '10.1234/iris' });
+    expect(versions[0].published_at).toBeInstanceOf(Date);
+    expect((await getDatasetFiles(dataset.id, null, 1)).map(f => f.id)).toEqual([file.id]);
+
+    // Withdrawing and reinstating keeps the same version
+    await transitionDataset(dataset.id, 'withdrawn', undefined, 'Licence under review');
+    await transitionDataset(dataset.id, 'published', undefined, 'Licence confirmed');
+    expect(await getDatasetVersions(dataset.id, null)).toHaveLength(1);
+  });
+
+  it('should start a new draft version when a published dataset is edited', async () => {
+    const { owner, dataset, addFile, publish } = await createTestData();
+    const first = await addFile('data.csv');
+    await publish();
+
+    const draft = await updateDataset({ id: dataset.id, title: 'Iris Measurements, revised' }, owner);
+    const second = await addFile('more.csv');
+
+    expect(draft).toMatchObject({ status: 'draft', version: 2, published_version: 1 });
+
+    // Version 1 is unchanged
+    const frozen = await getDatasetById(dataset.id, null, 1);
+    expect(frozen).toMatchObject({ title: 'Iris Measurements', status: 'published', version: 1 });
+    expect((await getDatasetFiles(dataset.id, null, 1)).map(f => f.id)).toEqual([first.id]);
+    expect((await getDatasetFiles(dataset.id, owner)).map(f => f.id)).toEqual([first.id, second.id]);
+    // Other viewers get the published files until the revision is published
+    expect((await getDatasetFiles(dataset.id, null)).map(f => f.id)).toEqual([first.id]);
+
+    // Citations keep referencing the published version until the draft is published
+    expect((await citeDataset(dataset.id, undefined, null)).apa).toContain('Iris Measurements (Version 1)');
+
+    await publish();
+    const versions = await getDatasetVersions(dataset.id, null);
+    expect(versions.map(v => [v.version, v.title])).toEqual([
+      [2, 'Iris Measurements, revised'],
+      [1, 'Iris Measurements']
+    ]);
+    expect((await getDatasetFiles(dataset.id, null, 2)).map(f => f.id)).toEqual([first.id, second.id]);
+    expect((await citeDataset(dataset.id, undefined, null)).apa).toContain('Iris Measurements, revised (Version 2)');
+    expect((await citeDataset(dataset.id, 1, null)).apa).toContain('Iris Measurements (Version 1)');
+  });
+
+  it('should start a new version when files are added to a published dataset', async () => {
+    const { dataset, addFile, publish } = await createTestData();
+    await addFile('data.csv');
+    await publish();
+
+    await addFile('late.csv');
+
+    const current = await getDatasetById(dataset.id);
+    expect(current).toMatchObject({ status: 'draft', version: 2, published_version: 1 });
+    expect(await getDatasetFiles(dataset.id, null, 1)).toHaveLength(1);
+  });
+
+  it('should report unknown versions as missing', async () => {
+    const { dataset } = await createTestData();
+
+    expect(await getDatasetById(dataset.id, null, 1)).toBeNull();
+    await expect(getDatasetFiles(dataset.id, null, 3)).rejects.toThrow('Version 3 of dataset');
+    await expect(citeDataset(dataset.id, 3, null)).rejects.toThrow('Version 3 of dataset');
+  });
+
+  it('should hide versions of private datasets', async () => {
+    const { owner, dataset, addFile, publish } = await createTestData('private');
+    await addFile('data.csv');
+    await publish();
+
+    await expect(getDatasetVersions(dataset.id, null)).rejects.toThrow('not found');
+    expect(await getDatasetVersions(dataset.id, owner)).toHaveLength(1);
+  });
+});
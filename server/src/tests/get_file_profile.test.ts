@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, fileProfilesTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { getFileProfile } from '../handlers/get_file_profile';
+
+describe('getFileProfile', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createFile = async (accessLevel: 'public' | 'restricted') => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'reader@test.com', password: 'password123', role: 'contributor', name: 'Reader' }
+      ])
+      .returning()
+      .execute();
+    const [owner, reader] = users.map(({ password, ...user }): AuthUser => user);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Profiled Dataset',
+        description: 'Dataset for profile tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: accessLevel,
+        status: 'published',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const [file] = await db.insert(datasetFilesTable)
+      .values({ dataset_id: dataset.id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+      .returning()
+      .execute();
+
+    return { owner, reader, file };
+  };
+
+  it('should return the stored profile of a file', async () => {
+    const { file } = await createFile('public');
+    const column = {
+      name: 'x',
+      type: 'integer' as const,
+      null_count: 0,
+      distinct_count: 2,
+      distinct_count_capped: false,
+      min: 1,
+      max: 2,
+      mean: 1.5,
+      std: Math.SQRT1_2,
+      top_values: [{ value: '1', count: 1 }, { value: '2', count: 1 }]
+    };
+    await db.insert(fileProfilesTable).values({ file_id: file.id, row_count: 2, columns: [column] }).execute();
+
+    const profile = await getFileProfile(file.id, null);
+
+    expect(profile).toMatchObject({ file_id: file.id, row_count: 2, columns: [column], error: null });
+    expect(profile!.profiled_at).toBeInstanceOf(Date);
+  });
+
+  it('should return null for files that have not been profiled yet', async () => {
+    const { file } = await createFile('public');
+
+    expect(await getFileProfile(file.id, null)).toBeNull();
+  });
+
+  it('should gate profiles of restricted files like their contents', async () => {
+    const { owner, reader, file } = await createFile('restricted');
+
+    await expect(getFileProfile(file.id, reader)).rejects.toThrow(/restricted/i);
+    expect(await getFileProfile(file.id, owner)).toBeNull();
+    await expect(getFileProfile(9999, owner)).rejects.toThrow(/not found/i);
+  });
+});
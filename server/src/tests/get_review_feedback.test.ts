@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { createCurationReview } from '../handlers/create_curation_review';
+import { getReviewFeedback } from '../handlers/get_review_feedback';
+
+describe('getReviewFeedback', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (accessLevel: 'public' | 'private' = 'public') => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' },
+        { email: 'admin@test.com', password: 'password123', role: 'admin', name: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    const [owner, other, curator, admin] = users.map(({ password, ...user }) => user as AuthUser);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Test Dataset',
+        description: 'A dataset for testing',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: accessLevel,
+        status: 'review',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    return { owner, other, curator, admin, dataset };
+  };
+
+  it('should show contributors the reviews with their comments', async () => {
+    const { owner, curator, admin, dataset } = await createTestData();
+    const first = await createCurationReview({
+      dataset_id: dataset.id,
+      reviewer_id: curator.id,
+      status: 'pending',
+      notes: null,
+      comments: [{ field: 'license', body: 'MIT does not cover the images' }],
+      reviewed_at: new Date('2024-01-01')
+    });
+    const second = await createCurationReview({
+      dataset_id: dataset.id,
+      reviewer_id: admin.id,
+      status: 'rejected',
+      notes: 'Fix the license',
+      comments: [{ field: 'title', body: 'Too generic' }, { field: 'license', body: 'Use CC-BY-4.0' }],
+      reviewed_at: new Date('2024-01-02')
+    });
+
+    const feedback = await getReviewFeedback(dataset.id, owner);
+
+    expect(feedback.map(review => review.id)).toEqual([second.id, first.id]);
+    expect(feedback[0].notes).toEqual('Fix the license');
+    expect(feedback[0].comments.map(comment => [comment.field, comment.body])).toEqual([
+      ['title', 'Too generic'],
+      ['license', 'Use CC-BY-4.0']
+    ]);
+    expect(feedback[1].comments).toHaveLength(1);
+  });
+
+  it('should return an empty list for datasets without reviews', async () => {
+    const { curator, dataset } = await createTestData();
+
+    expect(await getReviewFeedback(dataset.id, curator)).toEqual([]);
+  });
+
+  it('should keep feedback from other users', async () => {
+    const { other, dataset } = await createTestData();
+
+    await expect(getReviewFeedback(dataset.id, other)).rejects.toThrow('Only the contributor and curators can see review feedback');
+  });
+
+  it('should hide private datasets', async () => {
+    const { other, dataset } = await createTestData('private');
+
+    await expect(getReviewFeedback(dataset.id, other)).rejects.toThrow(`Dataset with id ${dataset.id} not found`);
+    await expect(getReviewFeedback(99999)).rejects.toThrow('Dataset with id 99999 not found');
+  });
+});
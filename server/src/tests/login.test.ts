@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import { login } from '../handlers/login';
+import { resolveSession } from '../lib/session';
+import { eq } from 'drizzle-orm';
+
+const testUser = {
+  email: 'test@example.com',
+  password: 'password123',
+  role: 'contributor' as const,
+  name: 'Test User',
+  orcid: null
+};
+
+describe('login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const insertTestUser = async () => {
+    const password = await Bun.password.hash(testUser.password, { algorithm: 'bcrypt', cost: 4 });
+    const [user] = await db.insert(usersTable).values({ ...testUser, password }).returning().execute();
+    return user;
+  };
+
+  it('should issue a session for valid credentials', async () => {
+    const user = await insertTestUser();
+
+    const input: LoginInput = { email: 'test@example.com', password: 'password123' };
+    const result = await login(input);
+
+    expect(result).not.toBeNull();
+    expect(result!.user.id).toEqual(user.id);
+    expect(result!.user.email).toEqual('test@example.com');
+    expect((result!.user as any).password).toBeUndefined();
+    expect(result!.token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(result!.expires_at).toBeInstanceOf(Date);
+    expect(result!.expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should store only a hash of the session token', async () => {
+    const user = await insertTestUser();
+
+    const result = await login({ email: 'test@example.com', password: 'password123' });
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).not.toContain(result!.token.split('.')[0]);
+    expect(sessions[0].revoked_at).toBeNull();
+  });
+
+  it('should issue a token that resolves to the user', async () => {
+    const user = await insertTestUser();
+
+    const result = await login({ email: 'test@example.com', password: 'password123' });
+    const resolved = await resolveSession(result!.token);
+
+    expect(resolved).not.toBeNull();
+    expect(resolved!.user.id).toEqual(user.id);
+    expect(resolved!.user.role).toEqual('contributor');
+    expect((resolved!.user as any).password).toBeUndefined();
+  });
+
+  it('should return null and create no session for a wrong password', async () => {
+    await insertTestUser();
+
+    const result = await login({ email: 'test@example.com', password: 'wrongpassword' });
+
+    expect(result).toBeNull();
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should return null for an unknown email', async () => {
+    const result = await login({ email: 'nobody@example.com', password: 'password123' });
+
+    expect(result).toBeNull();
+  });
+
+  it('should reject tampered and expired tokens', async () => {
+    const user = await insertTestUser();
+
+    const result = await login({ email: 'test@example.com', password: 'password123' });
+    const [value] = result!.token.split('.');
+
+    expect(await resolveSession(`${value}.forged`)).toBeNull();
+    expect(await resolveSession('not-a-token')).toBeNull();
+
+    await db.update(sessionsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+
+    expect(await resolveSession(result!.token)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { logout } from '../handlers/logout';
+import { issueSession, resolveSession } from '../lib/session';
+import { eq } from 'drizzle-orm';
+
+describe('logout', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createUser = async () => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password: 'password123',
+        role: 'viewer',
+        name: 'Test User'
+      })
+      .returning()
+      .execute();
+    return user;
+  };
+
+  it('should revoke the session', async () => {
+    const user = await createUser();
+    const { token } = await issueSession(user.id);
+
+    const result = await logout(token);
+
+    expect(result.success).toBe(true);
+    expect(await resolveSession(token)).toBeNull();
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+    expect(sessions[0].revoked_at).toBeInstanceOf(Date);
+  });
+
+  it('should leave other sessions of the same user active', async () => {
+    const user = await createUser();
+    const first = await issueSession(user.id);
+    const second = await issueSession(user.id);
+
+    await logout(first.token);
+
+    expect(await resolveSession(first.token)).toBeNull();
+    expect(await resolveSession(second.token)).not.toBeNull();
+  });
+
+  it('should report failure for an already revoked session', async () => {
+    const user = await createUser();
+    const { token } = await issueSession(user.id);
+
+    await logout(token);
+    const result = await logout(token);
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should report failure for an unsigned token', async () => {
+    const result = await logout('garbage');
+
+    expect(result.success).toBe(false);
+  });
+});
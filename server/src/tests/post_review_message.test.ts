@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { postReviewMessage } from '../handlers/post_review_message';
+import { getReviewThread } from '../handlers/get_review_thread';
+
+describe('postReviewMessage', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (reviewRound: number) => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' }
+      ])
+      .returning()
+      .execute();
+    const [owner, other, curator] = users.map(({ password, ...user }) => user as AuthUser);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Test Dataset',
+        description: 'A dataset for testing',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'review',
+        contributor_id: owner.id,
+        publication_year: 2024,
+        review_round: reviewRound
+      })
+      .returning()
+      .execute();
+
+    return { owner, other, curator, dataset };
+  };
+
+  it('should add messages to the current round in order', async () => {
+    const { owner, curator, dataset } = await createTestData(1);
+
+    const question = await postReviewMessage({ dataset_id: dataset.id, body: 'Where do the labels come from?' }, curator);
+    await postReviewMessage({ dataset_id: dataset.id, body: 'Annotated by two experts' }, owner);
+
+    expect(question).toMatchObject({ dataset_id: dataset.id, round: 1, author_id: curator.id });
+    expect(question.created_at).toBeInstanceOf(Date);
+
+    const thread = await getReviewThread(dataset.id, undefined, owner);
+    expect(thread.map(message => message.body)).toEqual(['Where do the labels come from?', 'Annotated by two experts']);
+  });
+
+  it('should keep other users out of the conversation', async () => {
+    const { other, dataset } = await createTestData(1);
+
+    await expect(postReviewMessage({ dataset_id: dataset.id, body: 'Hello' }, other))
+      .rejects.toThrow('Only the contributor and curators can take part in the review conversation');
+    await expect(getReviewThread(dataset.id, undefined, other))
+      .rejects.toThrow('Only the contributor and curators can see the review conversation');
+  });
+
+  it('should require the dataset to have been submitted', async () => {
+    const { owner, dataset } = await createTestData(0);
+
+    await expect(postReviewMessage({ dataset_id: dataset.id, body: 'Hello' }, owner))
+      .rejects.toThrow('Dataset has not been submitted for review');
+  });
+
+  it('should report unknown rounds as missing', async () => {
+    const { owner, dataset } = await createTestData(2);
+
+    expect(await getReviewThread(dataset.id, 1, owner)).toEqual([]);
+    await expect(getReviewThread(dataset.id, 3, owner)).rejects.toThrow(`Review round 3 of dataset ${dataset.id} not found`);
+    await expect(getReviewThread(99999)).rejects.toThrow('Dataset with id 99999 not found');
+  });
+});
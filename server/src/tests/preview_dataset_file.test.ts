@@ -1,14 +1,56 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
-import { previewDatasetFile, type DatasetPreview } from '../handlers/preview_dataset_file';
+import { previewDatasetFile, type DatasetPreview, type DatasetPreviewResult } from '../handlers/preview_dataset_file';
 import { type DatasetFile } from '../schema';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable } from '../db/schema';
+import { appRouter } from '../index';
+import { createCallerFactory } from '../trpc';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import archiver from 'archiver';
+import { buffer } from 'stream/consumers';
+import { gzipSync } from 'zlib';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
 // Test directory for temporary files
 const testDataDir = 'test_data';
 
+const expectPreview = (result: DatasetPreviewResult): DatasetPreview => {
+  expect(result.ok).toBe(true);
+  return (result as Extract<DatasetPreviewResult, { ok: true }>).preview;
+};
+
+const writeFile = async (filename: string, content: string | Buffer): Promise<DatasetFile> => {
+  const filePath = path.join(testDataDir, filename);
+  await fs.writeFile(filePath, content);
+
+  return {
+    id: 17,
+    dataset_id: 1,
+    filename,
+    path: filePath,
+    size: Buffer.byteLength(content),
+    type: path.extname(filename).slice(1),
+    sha256: null,
+    md5: null,
+    integrity_status: 'unverified',
+    integrity_checked_at: null,
+    compression: null,
+    validation_status: 'pending',
+    validation_report: null,
+    validated_at: null,
+    created_at: new Date()
+  };
+};
+
 describe('previewDatasetFile', () => {
+  // File paths in these tests are relative to the working directory
+  beforeAll(() => setStorage(new LocalDiskStorage('.')));
+  afterAll(() => setStorage(null));
+
   beforeEach(async () => {
     await createDB();
     // Create test data directory
@@ -42,20 +84,27 @@ Bob,35,Chicago`;
         path: filePath,
         size: csvContent.length,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual(['name', 'age', 'city']);
-      expect(result!.rows).toEqual([
+      expect(result.headers).toEqual(['name', 'age', 'city']);
+      expect(result.rows).toEqual([
         ['John', 25, 'New York'],
         ['Jane', 30, 'Boston'],
         ['Bob', 35, 'Chicago']
       ]);
-      expect(result!.totalRows).toBe(3);
-      expect(result!.fileType).toBe('csv');
+      expect(result.totalRows).toBe(3);
+      expect(result.fileType).toBe('csv');
     });
 
     it('should handle CSV with quoted fields', async () => {
@@ -73,15 +122,22 @@ Bob,35,Chicago`;
         path: filePath,
         size: csvContent.length,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual(['name', 'description', 'price']);
-      expect(result!.rows[0]).toEqual(['Product A', 'High quality, durable', 19.99]);
-      expect(result!.rows[1]).toEqual(['Product B', 'Affordable option', 9.5]);
+      expect(result.headers).toEqual(['name', 'description', 'price']);
+      expect(result.rows[0]).toEqual(['Product A', 'High quality, durable', 19.99]);
+      expect(result.rows[1]).toEqual(['Product B', 'Affordable option', 9.5]);
     });
 
     it('should handle CSV with null values', async () => {
@@ -100,15 +156,22 @@ Bob,35,null`;
         path: filePath,
         size: csvContent.length,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.rows[0]).toEqual(['John', 25, 'john@example.com']);
-      expect(result!.rows[1]).toEqual(['Jane', null, 'jane@example.com']);
-      expect(result!.rows[2]).toEqual(['Bob', 35, null]);
+      expect(result.rows[0]).toEqual(['John', 25, 'john@example.com']);
+      expect(result.rows[1]).toEqual(['Jane', null, 'jane@example.com']);
+      expect(result.rows[2]).toEqual(['Bob', 35, null]);
     });
 
     it('should limit to 20 rows', async () => {
@@ -126,19 +189,87 @@ Bob,35,null`;
         path: filePath,
         size: csvContent.length,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.rows).toHaveLength(20);
+      expect(result.totalRows).toBe(25);
+      expect(result.rows[19]).toEqual([20, 'value20']); // Last preview row
+    });
+
+    it('should handle quoted line breaks and escaped quotes', async () => {
+      const file = await writeFile('rfc.csv', 'id,comment\r\n1,"first line\r\nsecond line"\r\n2,"she said ""hi"""\r\n3,plain\r\n');
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.rows).toEqual([
+        [1, 'first line\r\nsecond line'],
+        [2, 'she said "hi"'],
+        [3, 'plain']
+      ]);
+      expect(result.totalRows).toBe(3);
+    });
+
+    it('should detect semicolon, tab and pipe delimiters', async () => {
+      for (const delimiter of [';', '\t', '|']) {
+        const lines = [['name,full', 'price'], ['a,b', '1.5'], ['c', '2']];
+        const file = await writeFile('delimited.csv', lines.map(line => line.join(delimiter)).join('\n'));
+
+        const result = expectPreview(await previewDatasetFile(file));
+
+        expect(result.headers).toEqual(['name,full', 'price']);
+        expect(result.rows).toEqual([['a,b', 1.5], ['c', 2]]);
+      }
+    });
+
+    it('should strip a byte order mark from the first header', async () => {
+      const file = await writeFile('bom.csv', '\uFEFFid,name\n1,Ann\n');
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.headers).toEqual(['id', 'name']);
+      expect(result.rows).toEqual([[1, 'Ann']]);
+    });
+
+    it('should decode Latin-1 files', async () => {
+      const file = await writeFile('latin1.csv', Buffer.from('city;country\nZürich;Schweiz\nSão Paulo;Brasil\n', 'latin1'));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.headers).toEqual(['city', 'country']);
+      expect(result.rows).toEqual([['Zürich', 'Schweiz'], ['São Paulo', 'Brasil']]);
+    });
+
+    it('should report an unterminated quoted field as a parse error', async () => {
+      const file = await writeFile('unterminated.csv', 'id,comment\n1,"never closed\n2,x\n');
+
       const result = await previewDatasetFile(file);
 
-      expect(result).not.toBeNull();
-      expect(result!.rows).toHaveLength(20);
-      expect(result!.totalRows).toBe(25);
-      expect(result!.rows[19]).toEqual([20, 'value20']); // Last preview row
+      expect(result).toEqual({ ok: false, reason: 'parse_error', message: expect.stringContaining('line 2') });
     });
   });
 
   describe('JSON parsing', () => {
+    it('should preview empty and blank JSON files as having no records', async () => {
+      for (const [filename, content] of [['empty.json', ''], ['blank.json', ' \n\t\n']]) {
+        const result = expectPreview(await previewDatasetFile(await writeFile(filename, content)));
+
+        expect(result.format).toBe('json');
+        expect(result.rows).toEqual([]);
+        expect(result.totalRows).toBe(0);
+      }
+    });
+
     it('should parse array of objects JSON correctly', async () => {
       const jsonData = [
         { name: 'John', age: 25, city: 'New York' },
@@ -157,20 +288,27 @@ Bob,35,null`;
         path: filePath,
         size: jsonContent.length,
         type: 'json',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual(['name', 'age', 'city']);
-      expect(result!.rows).toEqual([
+      expect(result.headers).toEqual(['name', 'age', 'city']);
+      expect(result.rows).toEqual([
         ['John', 25, 'New York'],
         ['Jane', 30, 'Boston'],
         ['Bob', 35, 'Chicago']
       ]);
-      expect(result!.totalRows).toBe(3);
-      expect(result!.fileType).toBe('json');
+      expect(result.totalRows).toBe(3);
+      expect(result.fileType).toBe('json');
     });
 
     it('should parse single object JSON', async () => {
@@ -187,15 +325,22 @@ Bob,35,null`;
         path: filePath,
         size: jsonContent.length,
         type: 'json',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual(['name', 'age', 'active']);
-      expect(result!.rows).toEqual([['John', 25, 'true']]);
-      expect(result!.totalRows).toBe(1);
+      expect(result.headers).toEqual(['name', 'age', 'active']);
+      expect(result.rows).toEqual([['John', 25, 'true']]);
+      expect(result.totalRows).toBe(1);
     });
 
     it('should handle JSON with null values', async () => {
@@ -215,14 +360,97 @@ Bob,35,null`;
         path: filePath,
         size: jsonContent.length,
         type: 'json',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.rows[0]).toEqual(['John', 25, null]);
-      expect(result!.rows[1]).toEqual(['Jane', null, 'jane@example.com']);
+      expect(result.rows[0]).toEqual(['John', 25, null]);
+      expect(result.rows[1]).toEqual(['Jane', null, 'jane@example.com']);
+    });
+
+    it('should flatten nested objects into dotted columns and render arrays as JSON', async () => {
+      const file = await writeFile('nested.json', JSON.stringify([
+        { id: 1, owner: { name: 'Ann', address: { city: 'Oslo' } }, tags: ['a', 'b'], extra: {} },
+        { id: 2, owner: { name: 'Ben', address: { city: 'Rome' } }, tags: [], extra: {} }
+      ]));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.headers).toEqual(['id', 'owner.name', 'owner.address.city', 'tags', 'extra']);
+      expect(result.rows).toEqual([
+        [1, 'Ann', 'Oslo', '["a","b"]', '{}'],
+        [2, 'Ben', 'Rome', '[]', '{}']
+      ]);
+    });
+
+    it('should union the keys of sampled records', async () => {
+      const items = [{ id: 1 }, { id: 2, score: 0.5 }, { id: 3, meta: { source: 'x' } }];
+      const file = await writeFile('union.json', JSON.stringify(items));
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 0, limit: 1 }));
+
+      expect(result.headers).toEqual(['id', 'score', 'meta.source']);
+      expect(result.rows).toEqual([[1, null, null]]);
+    });
+
+    it('should read records wrapped in a top-level object', async () => {
+      const content = JSON.stringify({
+        meta: { version: 2, fields: ['id', 'name'] },
+        data: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }],
+        next: null
+      });
+      const file = await writeFile('wrapped.json', content);
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 1, limit: 5 }));
+
+      expect(result.headers).toEqual(['id', 'name']);
+      expect(result.rows).toEqual([[2, 'b'], [3, 'c']]);
+      expect(result.totalRows).toBe(3);
+      expect(result.json?.recordsPath).toBe('$.data');
+    });
+
+    it('should report the structure of the sampled records', async () => {
+      const file = await writeFile('shape.json', JSON.stringify([
+        { id: 1, tags: ['x'], owner: { name: 'Ann' } },
+        { id: null, tags: [2], owner: { name: 'Ben', age: 40 } }
+      ]));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.json).toEqual({
+        recordsPath: '$',
+        sampledRecords: 2,
+        shape: {
+          types: ['object'],
+          properties: {
+            id: { types: ['number', 'null'] },
+            tags: { types: ['array'], items: { types: ['string', 'number'] } },
+            owner: {
+              types: ['object'],
+              properties: { name: { types: ['string'] }, age: { types: ['number'] } }
+            }
+          }
+        }
+      });
+    });
+
+    it('should show objects without arrays of records as a single document', async () => {
+      const file = await writeFile('document.json', JSON.stringify({ name: 'x', values: [1, 2], nested: { a: true } }));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.headers).toEqual(['name', 'values', 'nested.a']);
+      expect(result.rows).toEqual([['x', '[1,2]', 'true']]);
+      expect(result.json?.recordsPath).toBeNull();
     });
   });
 
@@ -251,20 +479,27 @@ overcast,83,86,FALSE,yes`;
         path: filePath,
         size: arffContent.length,
         type: 'arff',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual(['outlook', 'temperature', 'humidity', 'windy', 'play']);
-      expect(result!.rows).toEqual([
+      expect(result.headers).toEqual(['outlook', 'temperature', 'humidity', 'windy', 'play']);
+      expect(result.rows).toEqual([
         ['sunny', 85, 85, 'FALSE', 'no'],
         ['sunny', 80, 90, 'TRUE', 'no'],
         ['overcast', 83, 86, 'FALSE', 'yes']
       ]);
-      expect(result!.totalRows).toBe(3);
-      expect(result!.fileType).toBe('arff');
+      expect(result.totalRows).toBe(3);
+      expect(result.fileType).toBe('arff');
     });
 
     it('should handle ARFF with missing values', async () => {
@@ -289,15 +524,22 @@ Bob,35,?`;
         path: filePath,
         size: arffContent.length,
         type: 'arff',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.rows[0]).toEqual(['John', 25, 'yes']);
-      expect(result!.rows[1]).toEqual(['Jane', null, 'no']);
-      expect(result!.rows[2]).toEqual(['Bob', 35, null]);
+      expect(result.rows[0]).toEqual(['John', 25, 'yes']);
+      expect(result.rows[1]).toEqual(['Jane', null, 'no']);
+      expect(result.rows[2]).toEqual(['Bob', 35, null]);
     });
 
     it('should skip comments in ARFF data', async () => {
@@ -322,22 +564,92 @@ Jane,30`;
         path: filePath,
         size: arffContent.length,
         type: 'arff',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.rows).toEqual([
+      expect(result.rows).toEqual([
         ['John', 25],
         ['Jane', 30]
       ]);
-      expect(result!.totalRows).toBe(2);
+      expect(result.totalRows).toBe(2);
+    });
+
+    it('should expose the relation and typed attributes', async () => {
+      const file = await writeFile('typed.arff', [
+        '@RELATION \'bank loans\'',
+        '@ATTRIBUTE \'customer name\' STRING',
+        '@attribute age integer',
+        '@attribute grade { A , \'B+\', C}',
+        '@attribute opened date "yyyy-MM-dd HH:mm:ss"',
+        '@attribute closed date',
+        '@data',
+        '\'Smith, Jane\',41,\'B+\',"2020-01-02 10:00:00",?',
+        '"O\\\'Brien",35,A,"2021-05-06 08:30:00",2022-01-01T00:00:00, {2}'
+      ].join('\n'));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.arff).toEqual({
+        relation: 'bank loans',
+        attributes: [
+          { name: 'customer name', type: { kind: 'string' } },
+          { name: 'age', type: { kind: 'numeric' } },
+          { name: 'grade', type: { kind: 'nominal', values: ['A', 'B+', 'C'] } },
+          { name: 'opened', type: { kind: 'date', format: 'yyyy-MM-dd HH:mm:ss' } },
+          { name: 'closed', type: { kind: 'date', format: null } }
+        ]
+      });
+      expect(result.headers).toEqual(['customer name', 'age', 'grade', 'opened', 'closed']);
+      expect(result.rows).toEqual([
+        ['Smith, Jane', 41, 'B+', '2020-01-02 10:00:00', null],
+        ['O\'Brien', 35, 'A', '2021-05-06 08:30:00', '2022-01-01T00:00:00']
+      ]);
+    });
+
+    it('should expand sparse rows', async () => {
+      const file = await writeFile('sparse.arff', [
+        '@relation sparse',
+        '@attribute a numeric',
+        '@attribute b numeric',
+        '@attribute label {neg, pos}',
+        '@attribute note string',
+        '@data',
+        '{0 1.5, 3 \'x, y\'}',
+        '{1 2, 2 pos}',
+        '{}'
+      ].join('\n'));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.rows).toEqual([
+        [1.5, 0, 'neg', 'x, y'],
+        [0, 2, 'pos', null],
+        [0, 0, 'neg', null]
+      ]);
+      expect(result.totalRows).toBe(3);
+    });
+
+    it('should report values outside the declared nominal values', async () => {
+      const file = await writeFile('invalid.arff', '@relation r\n@attribute c {a, b}\n@data\na\nz\n');
+
+      const result = await previewDatasetFile(file);
+
+      expect(result).toEqual({ ok: false, reason: 'parse_error', message: expect.stringContaining('Line 5') });
     });
   });
 
   describe('Error handling', () => {
-    it('should return null for non-existent files', async () => {
+    it('should report files missing from storage', async () => {
       const file: DatasetFile = {
         id: 11,
         dataset_id: 1,
@@ -345,15 +657,23 @@ Jane,30`;
         path: 'path/to/nonexistent.csv',
         size: 100,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
       const result = await previewDatasetFile(file);
 
-      expect(result).toBeNull();
+      expect(result).toEqual({ ok: false, reason: 'missing_file', message: expect.stringContaining('missing') });
     });
 
-    it('should return null for unsupported file types', async () => {
+    it('should report unsupported file types', async () => {
       const content = 'Some binary content';
       const filePath = path.join(testDataDir, 'test.bin');
       await fs.writeFile(filePath, content);
@@ -365,15 +685,23 @@ Jane,30`;
         path: filePath,
         size: content.length,
         type: 'binary',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
       const result = await previewDatasetFile(file);
 
-      expect(result).toBeNull();
+      expect(result).toEqual({ ok: false, reason: 'unsupported_format', message: expect.stringContaining('.bin') });
     });
 
-    it('should handle malformed JSON gracefully', async () => {
+    it('should report malformed JSON as a parse error', async () => {
       const malformedJson = '{ "name": "John", "age": }';
       const filePath = path.join(testDataDir, 'malformed.json');
       await fs.writeFile(filePath, malformedJson);
@@ -385,15 +713,21 @@ Jane,30`;
         path: filePath,
         size: malformedJson.length,
         type: 'json',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
       const result = await previewDatasetFile(file);
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual([]);
-      expect(result!.rows).toEqual([]);
-      expect(result!.totalRows).toBe(0);
+      expect(result.ok).toBe(false);
+      expect(result).toMatchObject({ reason: 'parse_error' });
     });
 
     it('should handle empty files', async () => {
@@ -407,15 +741,22 @@ Jane,30`;
         path: filePath,
         size: 0,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.headers).toEqual([]);
-      expect(result!.rows).toEqual([]);
-      expect(result!.totalRows).toBe(0);
+      expect(result.headers).toEqual([]);
+      expect(result.rows).toEqual([]);
+      expect(result.totalRows).toBe(0);
     });
   });
 
@@ -432,14 +773,21 @@ Jane,30`;
         path: filePath,
         size: csvContent.length,
         type: 'text', // Different type, but extension should be used
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
-      const result = await previewDatasetFile(file);
+      const result = expectPreview(await previewDatasetFile(file));
 
-      expect(result).not.toBeNull();
-      expect(result!.fileType).toBe('text'); // Should preserve original type
-      expect(result!.headers).toEqual(['name', 'age']);
+      expect(result.fileType).toBe('text'); // Should preserve original type
+      expect(result.headers).toEqual(['name', 'age']);
     });
 
     it('should fallback to type field when no extension', async () => {
@@ -454,14 +802,330 @@ Jane,30`;
         path: filePath,
         size: csvContent.length,
         type: 'csv',
+        sha256: null,
+        md5: null,
+        integrity_status: 'unverified',
+        integrity_checked_at: null,
+        compression: null,
+        validation_status: 'pending',
+        validation_report: null,
+        validated_at: null,
         created_at: new Date()
       };
 
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.fileType).toBe('csv');
+      expect(result.headers).toEqual(['name', 'age']);
+    });
+  });
+
+  describe('Other formats', () => {
+    it('should preview tab-separated files', async () => {
+      const file = await writeFile('scores.tsv', 'name\tscore\nAnn, Lee\t9.5\nBo\t7\n');
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.format).toBe('tsv');
+      expect(result.headers).toEqual(['name', 'score']);
+      expect(result.rows).toEqual([['Ann, Lee', 9.5], ['Bo', 7]]);
+    });
+
+    it('should page through JSON Lines files', async () => {
+      const lines = Array.from({ length: 8 }, (_, i) => JSON.stringify({ id: i, tag: i % 2 ? 'odd' : 'even' }));
+      const file = await writeFile('events.ndjson', lines.join('\n') + '\n\n');
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 6, limit: 5 }));
+
+      expect(result.format).toBe('jsonl');
+      expect(result.headers).toEqual(['id', 'tag']);
+      expect(result.rows).toEqual([[6, 'even'], [7, 'odd']]);
+      expect(result.totalRows).toBe(8);
+    });
+
+    it('should report the line of invalid JSON Lines records', async () => {
+      const file = await writeFile('broken.jsonl', '{"id": 1}\n{"id": 2}\n{"id": \n');
+
       const result = await previewDatasetFile(file);
 
-      expect(result).not.toBeNull();
-      expect(result!.fileType).toBe('csv');
-      expect(result!.headers).toEqual(['name', 'age']);
+      expect(result).toEqual({ ok: false, reason: 'parse_error', message: expect.stringContaining('Line 3') });
+    });
+
+    it('should read the schema and requested rows of Parquet files', async () => {
+      const ids = Array.from({ length: 250 }, (_, i) => i);
+      const content = parquetWriteBuffer({
+        columnData: [
+          { name: 'id', data: ids, type: 'INT32' },
+          { name: 'label', data: ids.map(i => (i % 3 === 0 ? null : `label ${i}`)), type: 'STRING' },
+          { name: 'score', data: ids.map(i => i / 4), type: 'DOUBLE' }
+        ],
+        rowGroupSize: 100
+      });
+      const file = await writeFile('table.parquet', Buffer.from(content));
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 98, limit: 4 }));
+
+      expect(result.format).toBe('parquet');
+      expect(result.parquet).toEqual({
+        columns: [
+          { name: 'id', type: 'INT32' },
+          { name: 'label', type: 'UTF8' },
+          { name: 'score', type: 'DOUBLE' }
+        ],
+        rowGroups: 3
+      });
+      expect(result.headers).toEqual(['id', 'label', 'score']);
+      expect(result.rows).toEqual([
+        [98, 'label 98', 24.5],
+        [99, null, 24.75],
+        [100, 'label 100', 25],
+        [101, 'label 101', 25.25]
+      ]);
+      expect(result.totalRows).toBe(250);
+      expect(result.totalRowsEstimated).toBe(false);
+    });
+
+    it('should detect the format from the content rather than the name', async () => {
+      const file = await writeFile('records.json', '{"a": 1}\n{"a": 2}\n');
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.format).toBe('jsonl');
+      expect(result.rows).toEqual([[1], [2]]);
+    });
+
+    it('should refuse content that does not match a supported format', async () => {
+      const binary = await writeFile('binary.csv', Buffer.from([0x00, 0x01, 0x02, 0xff, 0x00]));
+      const fakeParquet = await writeFile('fake.parquet', 'a,b\n1,2\n');
+
+      expect(await previewDatasetFile(binary)).toMatchObject({ ok: false, reason: 'unsupported_format' });
+      expect(await previewDatasetFile(fakeParquet)).toMatchObject({ ok: false, reason: 'unsupported_format' });
+    });
+  });
+
+  describe('Compressed files and archives', () => {
+    // bz2.compress(b'name,value\na,1\nb,2\n')
+    const BZIP2_CSV = 'QlpoOTFBWSZTWd+DdXgAAAhZgAAQAAQwADIHAwAgADEDQNAgDQaCJoSEB5ycSDfi7kinChIb8G6vAA==';
+
+    const archive = async (format: 'zip' | 'tar', entries: Record<string, string>, gzip = false): Promise<Buffer> => {
+      const output = archiver(format, { gzip });
+      for (const [name, content] of Object.entries(entries)) {
+        output.append(content, { name });
+      }
+      output.finalize();
+      return buffer(output);
+    };
+
+    it('should preview gzip and bzip2 compressed files', async () => {
+      const gzipped = await writeFile('scores.tsv.gz', gzipSync('name\tscore\nAnn\t9.5\nBo\t7\n'));
+      const bzipped = await writeFile('values.csv.bz2', Buffer.from(BZIP2_CSV, 'base64'));
+
+      const tsv = expectPreview(await previewDatasetFile(gzipped));
+      const csv = expectPreview(await previewDatasetFile(bzipped));
+
+      expect(tsv.format).toBe('tsv');
+      expect(tsv.rows).toEqual([['Ann', 9.5], ['Bo', 7]]);
+      expect(csv.format).toBe('csv');
+      expect(csv.rows).toEqual([['a', 1], ['b', 2]]);
+    });
+
+    it('should estimate the total of large compressed files from the compression ratio', async () => {
+      // Over 10 MB once decompressed, so the total is extrapolated
+      const row = 'abcdefghij,0123456789\n';
+      const count = Math.ceil(11 * 1024 * 1024 / row.length);
+      const file = await writeFile('large.csv.gz', gzipSync('name,value\n' + row.repeat(count)));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.rows).toHaveLength(20);
+      expect(result.totalRowsEstimated).toBe(true);
+      expect(Math.abs(result.totalRows - count) / count).toBeLessThan(0.2);
+    });
+
+    it('should preview members of zip archives', async () => {
+      const file = await writeFile('bundle.zip', await archive('zip', {
+        'data/train.csv': 'x,y\n1,2\n3,4\n',
+        'data/events.jsonl': '{"id":1}\n{"id":2}\n',
+        'README.md': '# Bundle\n'
+      }));
+
+      const csv = expectPreview(await previewDatasetFile(file, undefined, 'data/train.csv'));
+      const jsonl = expectPreview(await previewDatasetFile(file, { offset: 1, limit: 5 }, 'data/events.jsonl'));
+
+      expect(csv).toMatchObject({ member: 'data/train.csv', format: 'csv', headers: ['x', 'y'], rows: [[1, 2], [3, 4]] });
+      expect(jsonl).toMatchObject({ member: 'data/events.jsonl', format: 'jsonl', rows: [[2]], totalRows: 2 });
+      expect(await previewDatasetFile(file, undefined, 'README.md')).toMatchObject({ ok: false, reason: 'unsupported_format' });
+    });
+
+    it('should preview members of compressed tar archives', async () => {
+      const file = await writeFile('bundle.tgz', await archive('tar', {
+        'first.csv': 'a\n1\n',
+        'second.arff': '@relation r\n@attribute n numeric\n@data\n5\n6\n'
+      }, true));
+
+      const result = expectPreview(await previewDatasetFile(file, undefined, 'second.arff'));
+
+      expect(result.format).toBe('arff');
+      expect(result.rows).toEqual([[5], [6]]);
+    });
+
+    it('should require a member for archives and report unknown members', async () => {
+      const file = await writeFile('bundle.tar', await archive('tar', { 'table.csv': 'a\n1\n' }));
+
+      expect(await previewDatasetFile(file)).toMatchObject({ ok: false, reason: 'member_required' });
+      expect(await previewDatasetFile(file, undefined, 'other.csv')).toMatchObject({ ok: false, reason: 'missing_file' });
+    });
+
+    it('should refuse members of files that are not archives', async () => {
+      const file = await writeFile('table.csv', 'a\n1\n');
+
+      expect(await previewDatasetFile(file, undefined, 'table.csv')).toEqual({
+        ok: false,
+        reason: 'not_archive',
+        message: `File ${file.id} is not an archive`
+      });
+    });
+  });
+
+  describe('Paging', () => {
+    it('should return the requested window of CSV rows', async () => {
+      const lines = Array.from({ length: 50 }, (_, i) => `row${i},${i}`);
+      const file = await writeFile('paged.csv', `name,value\r\n${lines.join('\r\n')}\r\n`);
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 30, limit: 5 }));
+
+      expect(result.headers).toEqual(['name', 'value']);
+      expect(result.rows).toEqual([['row30', 30], ['row31', 31], ['row32', 32], ['row33', 33], ['row34', 34]]);
+      expect(result.offset).toBe(30);
+      expect(result.limit).toBe(5);
+      expect(result.totalRows).toBe(50);
+      expect(result.totalRowsEstimated).toBe(false);
+    });
+
+    it('should return no rows past the end of the file', async () => {
+      const file = await writeFile('short.csv', 'name,value\na,1\nb,2\n');
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 10, limit: 20 }));
+
+      expect(result.rows).toEqual([]);
+      expect(result.totalRows).toBe(2);
+    });
+
+    it('should page through JSON arrays keeping the headers of the first element', async () => {
+      const items = Array.from({ length: 30 }, (_, i) => ({ id: i, label: `item, "${i}" ]` }));
+      const file = await writeFile('paged.json', JSON.stringify(items, null, 2));
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 25, limit: 10 }));
+
+      expect(result.headers).toEqual(['id', 'label']);
+      expect(result.rows).toEqual(items.slice(25).map(item => [item.id, item.label]));
+      expect(result.totalRows).toBe(30);
+    });
+
+    it('should page through ARFF data rows', async () => {
+      const rows = Array.from({ length: 12 }, (_, i) => `${i},'v${i}'`);
+      const file = await writeFile('paged.arff', `@relation r\n@attribute n numeric\n@attribute s string\n@data\n% comment\n${rows.join('\n')}\n`);
+
+      const result = expectPreview(await previewDatasetFile(file, { offset: 10, limit: 5 }));
+
+      expect(result.headers).toEqual(['n', 's']);
+      expect(result.rows).toEqual([[10, 'v10'], [11, 'v11']]);
+      expect(result.totalRows).toBe(12);
+    });
+
+    it('should estimate the total of large files without reading them to the end', async () => {
+      // 11 MB of fixed-width rows, above the exact counting threshold
+      const row = 'abcdefghij,0123456789\n';
+      const count = Math.ceil(11 * 1024 * 1024 / row.length);
+      const file = await writeFile('large.csv', 'name,value\n' + row.repeat(count));
+
+      const result = expectPreview(await previewDatasetFile(file));
+
+      expect(result.rows).toHaveLength(20);
+      expect(result.totalRowsEstimated).toBe(true);
+      expect(result.totalRows).toBe(count);
+    });
+
+    it('should report truncated JSON arrays as a parse error', async () => {
+      const file = await writeFile('truncated.json', '[{"a": 1}, {"a": 2}');
+
+      const result = await previewDatasetFile(file);
+
+      expect(result).toMatchObject({ ok: false, reason: 'parse_error' });
+    });
+  });
+
+  describe('previewDatasetFile route', () => {
+    const createCaller = createCallerFactory(appRouter);
+
+    const createFile = async (accessLevel: 'public' | 'private' | 'restricted') => {
+      const [user] = await db.insert(usersTable)
+        .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+        .returning()
+        .execute();
+
+      const [dataset] = await db.insert(datasetsTable)
+        .values({
+          title: 'Preview Dataset',
+          description: 'Dataset for preview tests',
+          domain: 'Testing',
+          task: 'Classification',
+          license: 'MIT',
+          access_level: accessLevel,
+          status: 'published',
+          contributor_id: user.id,
+          publication_year: 2024
+        })
+        .returning()
+        .execute();
+
+      const filePath = path.join(testDataDir, 'route.csv');
+      await fs.writeFile(filePath, 'name,age\nJohn,25');
+
+      const [file] = await db.insert(datasetFilesTable)
+        .values({ dataset_id: dataset.id, filename: 'route.csv', path: filePath, size: 16, type: 'csv' })
+        .returning()
+        .execute();
+
+      const { password, ...owner } = user;
+      return { owner, file };
+    };
+
+    it('should preview the requested file', async () => {
+      const { file } = await createFile('public');
+
+      const result = expectPreview(await createCaller({ user: null, sessionToken: null }).previewDatasetFile({ fileId: file.id }));
+
+      expect(result.headers).toEqual(['name', 'age']);
+      expect(result.rows).toEqual([['John', 25]]);
+    });
+
+    it('should pass the paging window through', async () => {
+      const { file } = await createFile('public');
+      const caller = createCaller({ user: null, sessionToken: null });
+
+      const result = expectPreview(await caller.previewDatasetFile({ fileId: file.id, offset: 1, limit: 5 }));
+      expect(result).toMatchObject({ offset: 1, limit: 5, rows: [], totalRows: 1 });
+
+      await expect(caller.previewDatasetFile({ fileId: file.id, limit: 10000 })).rejects.toThrow();
+    });
+
+    it('should return NOT_FOUND for unknown and hidden files', async () => {
+      const { owner, file } = await createFile('private');
+      const anonymous = createCaller({ user: null, sessionToken: null });
+
+      await expect(anonymous.previewDatasetFile({ fileId: 99999 })).rejects.toThrow(/not found/i);
+      await expect(anonymous.previewDatasetFile({ fileId: file.id })).rejects.toThrow(/not found/i);
+
+      const result = await createCaller({ user: owner, sessionToken: null }).previewDatasetFile({ fileId: file.id });
+      expect(result.ok).toBe(true);
+    });
+
+    it('should deny previews of restricted files without a grant', async () => {
+      const { file } = await createFile('restricted');
+
+      await expect(createCaller({ user: null, sessionToken: null }).previewDatasetFile({ fileId: file.id }))
+        .rejects.toThrow(/restricted/i);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,156 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, fileProfilesTable } from '../db/schema';
+import { profileDatasetFiles } from '../jobs/profile_dataset_files';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { asc } from 'drizzle-orm';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const CSV = [
+  'id,score,active,joined,city,note',
+  '1,2.5,true,2024-01-05,Oslo,first',
+  '2,3.5,false,2024-02-10,Oslo,',
+  '3,,true,2023-12-31,Bergen,third row',
+  '4,6,TRUE,2024-03-01,Oslo,null'
+].join('\n') + '\n';
+
+const ARFF = `@relation weather
+@attribute outlook {sunny,rainy}
+@attribute temperature numeric
+@attribute observed date "yyyy-MM-dd"
+@data
+sunny,20,2024-05-01
+rainy,?,2024-05-02
+`;
+
+describe('profileDatasetFiles', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createFiles = async (files: Record<string, string | Buffer>) => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Profiled Dataset',
+        description: 'Dataset for profiling tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'published',
+        contributor_id: user.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    for (const [filename, content] of Object.entries(files)) {
+      await storage.put(`datasets/${filename}`, Readable.from([Buffer.from(content)]));
+    }
+
+    return db.insert(datasetFilesTable)
+      .values(Object.entries(files).map(([filename, content]) => ({
+        dataset_id: dataset.id,
+        filename,
+        path: `datasets/${filename}`,
+        size: Buffer.byteLength(content),
+        type: filename.split('.')[1]
+      })))
+      .returning()
+      .execute();
+  };
+
+  const profiles = () => db.select().from(fileProfilesTable).orderBy(asc(fileProfilesTable.file_id)).execute();
+
+  it('should infer column types and compute statistics of CSV files', async () => {
+    await createFiles({ 'people.csv': CSV });
+
+    const summary = await profileDatasetFiles();
+
+    expect(summary).toEqual({ profiled: 1, failed: 0 });
+    const [profile] = await profiles();
+    expect(profile.row_count).toEqual(4);
+    expect(profile.error).toBeNull();
+
+    const column = (name: string) => profile.columns.find(candidate => candidate.name === name)!;
+    expect(profile.columns.map(({ name, type }) => [name, type])).toEqual([
+      ['id', 'integer'],
+      ['score', 'float'],
+      ['active', 'boolean'],
+      ['joined', 'date'],
+      ['city', 'categorical'],
+      ['note', 'text']
+    ]);
+    expect(column('id')).toMatchObject({ null_count: 0, distinct_count: 4, min: 1, max: 4, mean: 2.5 });
+    expect(column('id').std).toBeCloseTo(Math.sqrt(5 / 3));
+    expect(column('score')).toMatchObject({ null_count: 1, min: 2.5, max: 6, mean: 4 });
+    expect(column('joined')).toMatchObject({ min: '2023-12-31', max: '2024-03-01', mean: null });
+    expect(column('city').top_values).toEqual([{ value: 'Oslo', count: 3 }, { value: 'Bergen', count: 1 }]);
+    expect(column('note')).toMatchObject({ null_count: 2, distinct_count: 2, distinct_count_capped: false, min: null });
+  });
+
+  it('should profile JSON, compressed and ARFF files', async () => {
+    const records = [{ id: 1, tags: ['a'], ok: true }, { id: 2, tags: [], ok: false }];
+    await createFiles({
+      'records.json': JSON.stringify(records),
+      'events.jsonl.gz': gzipSync(records.map(record => JSON.stringify(record)).join('\n')),
+      'weather.arff': ARFF
+    });
+
+    await profileDatasetFiles();
+
+    const [json, jsonl, arff] = await profiles();
+    expect(json.columns.map(column => column.type)).toEqual(['integer', 'text', 'boolean']);
+    expect(json.columns[1].top_values).toEqual([{ value: '["a"]', count: 1 }, { value: '[]', count: 1 }]);
+    expect(jsonl).toMatchObject({ row_count: 2, error: null });
+    expect(jsonl.columns).toEqual(json.columns);
+    expect(arff.columns.map(column => [column.name, column.type, column.null_count])).toEqual([
+      ['outlook', 'categorical', 0],
+      ['temperature', 'integer', 1],
+      ['observed', 'date', 0]
+    ]);
+  });
+
+  it('should record why a file could not be profiled and not retry it', async () => {
+    await createFiles({ 'broken.jsonl': '{"id": 1}\n{"id": \n', 'empty.csv': '' });
+    await db.insert(datasetFilesTable)
+      .values({ dataset_id: 1, filename: 'gone.csv', path: 'datasets/gone.csv', size: 10, type: 'csv' })
+      .execute();
+
+    const summary = await profileDatasetFiles();
+
+    expect(summary).toEqual({ profiled: 1, failed: 2 });
+    const rows = await profiles();
+    expect(rows.map(row => [row.row_count, row.error])).toEqual([
+      [null, expect.stringContaining('Line 2')],
+      [0, null],
+      [null, 'Content is missing from storage']
+    ]);
+
+    expect(await profileDatasetFiles()).toEqual({ profiled: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { resubmitDataset } from '../handlers/resubmit_dataset';
+import { createCurationReview } from '../handlers/create_curation_review';
+import { transitionDataset } from '../handlers/transition_dataset';
+import { getCurationReviews } from '../handlers/get_curation_reviews';
+import { getReviewThread } from '../handlers/get_review_thread';
+import { eq } from 'drizzle-orm';
+
+describe('resubmitDataset', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' }
+      ])
+      .returning()
+      .execute();
+    const [owner, other, curator] = users.map(({ password, ...user }) => user as AuthUser);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Test Dataset',
+        description: 'A dataset for testing',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    await db.insert(datasetFilesTable)
+      .values({ dataset_id: dataset.id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+      .execute();
+
+    return { owner, other, curator, dataset };
+  };
+
+  const datasetStatus = async (datasetId: number) => {
+    const datasets = await db.select().from(datasetsTable).where(eq(datasetsTable.id, datasetId)).execute();
+    return datasets[0].status;
+  };
+
+  it('should let the same curator review again after changes were requested', async () => {
+    const { owner, curator, dataset } = await createTestData();
+    await transitionDataset({ id: dataset.id, status: 'review' }, owner);
+
+    const first = await createCurationReview({
+      dataset_id: dataset.id,
+      reviewer_id: curator.id,
+      status: 'changes_requested',
+      notes: 'Describe the sampling'
+    });
+    expect(first.round).toBe(1);
+    expect(await datasetStatus(dataset.id)).toBe('draft');
+
+    const resubmitted = await resubmitDataset({ id: dataset.id, message: 'Added a sampling section' }, owner);
+    expect(resubmitted).toMatchObject({ status: 'review', review_round: 2 });
+
+    const second = await createCurationReview({ dataset_id: dataset.id, reviewer_id: curator.id, status: 'approved', notes: null });
+    expect(second.round).toBe(2);
+    expect(await datasetStatus(dataset.id)).toBe('approved');
+
+    const reviews = await getCurationReviews({ datasetId: dataset.id, round: 1 });
+    expect(reviews.map(review => review.status)).toEqual(['changes_requested']);
+  });
+
+  it('should open the conversation of the new round with the message', async () => {
+    const { owner, curator, dataset } = await createTestData();
+    await transitionDataset({ id: dataset.id, status: 'review' }, owner);
+    await createCurationReview({ dataset_id: dataset.id, reviewer_id: curator.id, status: 'changes_requested', notes: null });
+
+    await resubmitDataset({ id: dataset.id, message: 'Fixed the license' }, owner);
+
+    const thread = await getReviewThread(dataset.id, undefined, curator);
+    expect(thread.map(message => [message.round, message.author_id, message.body])).toEqual([[2, owner.id, 'Fixed the license']]);
+    expect(await getReviewThread(dataset.id, 1, owner)).toEqual([]);
+  });
+
+  it('should only resubmit datasets that have been reviewed', async () => {
+    const { owner, dataset } = await createTestData();
+
+    await expect(resubmitDataset({ id: dataset.id }, owner))
+      .rejects.toThrow('Dataset has not been reviewed yet; submit it for review instead');
+  });
+
+  it('should only let the contributor and curators resubmit', async () => {
+    const { owner, other, curator, dataset } = await createTestData();
+    await transitionDataset({ id: dataset.id, status: 'review' }, owner);
+    await createCurationReview({ dataset_id: dataset.id, reviewer_id: curator.id, status: 'rejected', notes: null });
+
+    await expect(resubmitDataset({ id: dataset.id }, other))
+      .rejects.toThrow('Only the contributor and curators can move datasets from draft to review');
+    expect((await resubmitDataset({ id: dataset.id }, owner)).review_round).toBe(2);
+  });
+
+  it('should throw error when dataset does not exist', async () => {
+    await expect(resubmitDataset({ id: 99999 })).rejects.toThrow('Dataset with id 99999 not found');
+  });
+});
@@ -358,4 +358,35 @@ describe('searchDatasets', () => {
     expect(input.limit).toBe(20);
     expect(input.offset).toBe(0);
   });
-});
\ No newline at end of file
+
+  it('should hide private datasets from anonymous viewers', async () => {
+    const input: DatasetSearchInput = { limit: 20, offset: 0 };
+
+    const results = await searchDatasets(input, null);
+
+    expect(results).toHaveLength(3);
+    expect(results.some(dataset => dataset.access_level === 'private')).toBe(false);
+    expect(results.some(dataset => dataset.access_level === 'restricted')).toBe(true);
+  });
+
+  it('should show private datasets to their contributor and to curators only', async () => {
+    const [owner] = await db.select().from(usersTable).execute();
+    const [otherUser, curator] = await db.insert(usersTable)
+      .values([
+        { ...testUser, email: 'other@example.com' },
+        { ...testUser, email: 'curator@example.com', role: 'curator' as const }
+      ])
+      .returning()
+      .execute();
+    const input: DatasetSearchInput = { query: 'private', limit: 20, offset: 0 };
+
+    const { password, ...ownerViewer } = owner;
+    expect(await searchDatasets(input, ownerViewer)).toHaveLength(1);
+
+    const { password: _, ...otherViewer } = otherUser;
+    expect(await searchDatasets(input, otherViewer)).toHaveLength(0);
+
+    const { password: __, ...curatorViewer } = curator;
+    expect(await searchDatasets(input, curatorViewer)).toHaveLength(1);
+  });
+});
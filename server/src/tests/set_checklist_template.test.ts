@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable } from '../db/schema';
+import { setChecklistTemplateInputSchema } from '../schema';
+import { setChecklistTemplate } from '../handlers/set_checklist_template';
+import { getChecklistTemplates } from '../handlers/get_checklist_templates';
+import { getReviewChecklist } from '../handlers/get_review_checklist';
+import { DEFAULT_CHECKLIST } from '../lib/checklists';
+
+describe('setChecklistTemplate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const items = [
+    { key: 'license_valid', label: 'License is valid', required: true },
+    { key: 'units_documented', label: 'Units of measurement are documented', required: false }
+  ];
+
+  it('should create and replace the template of a domain', async () => {
+    const first = await setChecklistTemplate({ domain: 'Physics', name: 'Physics', items });
+    const second = await setChecklistTemplate({ domain: 'Physics', name: 'Physics v2', items: items.slice(0, 1) });
+
+    expect(second.id).toEqual(first.id);
+    expect(second).toMatchObject({ domain: 'Physics', name: 'Physics v2', items: items.slice(0, 1) });
+    expect(second.updated_at >= first.updated_at).toBe(true);
+  });
+
+  it('should list the default template first', async () => {
+    await setChecklistTemplate({ domain: 'Physics', name: 'Physics', items });
+    await setChecklistTemplate({ domain: null, name: 'Default', items });
+
+    expect((await getChecklistTemplates()).map(template => template.name)).toEqual(['Default', 'Physics']);
+  });
+
+  it('should reject templates with repeated or malformed keys', () => {
+    expect(setChecklistTemplateInputSchema.safeParse({ domain: null, name: 'Dupes', items: [items[0], items[0]] }).success).toBe(false);
+    expect(setChecklistTemplateInputSchema.safeParse({
+      domain: null,
+      name: 'Spaces',
+      items: [{ key: 'License valid', label: 'License is valid', required: true }]
+    }).success).toBe(false);
+  });
+
+  it('should give reviewers the checklist of the dataset domain', async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'contributor@test.com', password: 'password123', role: 'contributor', name: 'Contributor' })
+      .returning()
+      .execute();
+    const datasets = await db.insert(datasetsTable)
+      .values(['Physics', 'Biology'].map(domain => ({
+        title: `${domain} Dataset`,
+        description: 'A dataset for testing',
+        domain,
+        task: 'Regression',
+        license: 'MIT',
+        access_level: 'public' as const,
+        contributor_id: user.id,
+        publication_year: 2024
+      })))
+      .returning()
+      .execute();
+
+    expect(await getReviewChecklist(datasets[1].id)).toEqual(DEFAULT_CHECKLIST);
+
+    await setChecklistTemplate({ domain: 'Physics', name: 'Physics', items });
+    expect(await getReviewChecklist(datasets[0].id)).toEqual(items);
+    expect(await getReviewChecklist(datasets[1].id)).toEqual(DEFAULT_CHECKLIST);
+    await expect(getReviewChecklist(99999)).rejects.toThrow('Dataset with id 99999 not found');
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { setCurationPolicy } from '../handlers/set_curation_policy';
+import { getCurationPolicies } from '../handlers/get_curation_policies';
+import { DEFAULT_CURATION_POLICY, findCurationPolicy } from '../lib/curation';
+
+describe('setCurationPolicy', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a policy for a domain', async () => {
+    const result = await setCurationPolicy({ domain: 'Biology', required_approvals: 2, rejection_blocks: true, admin_override: false });
+
+    expect(result).toMatchObject({ domain: 'Biology', required_approvals: 2, rejection_blocks: true, admin_override: false });
+    expect(result.id).toBeDefined();
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should replace the existing policy of a domain', async () => {
+    const first = await setCurationPolicy({ domain: null, required_approvals: 2, rejection_blocks: true, admin_override: true });
+    const second = await setCurationPolicy({ domain: null, required_approvals: 3, rejection_blocks: false, admin_override: true });
+
+    expect(second.id).toEqual(first.id);
+    expect(second.required_approvals).toEqual(3);
+    expect(await getCurationPolicies()).toHaveLength(1);
+  });
+
+  it('should list the default policy first', async () => {
+    await setCurationPolicy({ domain: 'Physics', required_approvals: 2, rejection_blocks: true, admin_override: true });
+    await setCurationPolicy({ domain: null, required_approvals: 1, rejection_blocks: true, admin_override: true });
+    await setCurationPolicy({ domain: 'Biology', required_approvals: 3, rejection_blocks: true, admin_override: true });
+
+    expect((await getCurationPolicies()).map(policy => policy.domain)).toEqual([null, 'Biology', 'Physics']);
+  });
+
+  it('should fall back to the default policy for domains without their own', async () => {
+    expect(await findCurationPolicy('Biology')).toEqual(DEFAULT_CURATION_POLICY);
+
+    await setCurationPolicy({ domain: null, required_approvals: 2, rejection_blocks: false, admin_override: true });
+    await setCurationPolicy({ domain: 'Biology', required_approvals: 3, rejection_blocks: true, admin_override: false });
+
+    expect(await findCurationPolicy('Biology')).toMatchObject({ required_approvals: 3, admin_override: false });
+    expect(await findCurationPolicy('Physics')).toMatchObject({ required_approvals: 2, rejection_blocks: false });
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, curationReviewsTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { transitionDataset } from '../handlers/transition_dataset';
+import { getDatasetStatusHistory } from '../handlers/get_dataset_status_history';
+import { eq } from 'drizzle-orm';
+
+describe('transitionDataset', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async (accessLevel: 'public' | 'private' = 'public') => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' },
+        { email: 'curator@test.com', password: 'password123', role: 'curator', name: 'Curator' },
+        { email: 'admin@test.com', password: 'password123', role: 'admin', name: 'Admin' }
+      ])
+      .returning()
+      .execute();
+    const [owner, other, curator, admin] = users.map(({ password, ...user }) => user as AuthUser);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Test Dataset',
+        description: 'A dataset for testing',
+        domain: 'Biology',
+        task: 'Classification',
+        license: 'MIT',
+        doi: null,
+        access_level: accessLevel,
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const addFile = (filename: string, validationStatus: 'pass' | 'fail' = 'pass') => db.insert(datasetFilesTable)
+      .values({ dataset_id: dataset.id, filename, path: filename, size: 10, type: 'csv', validation_status: validationStatus })
+      .execute();
+
+    // Reviews belong to the review round the dataset is in
+    const review = async (status: 'approved' | 'rejected') => {
+      const [current] = await db.select().from(datasetsTable).where(eq(datasetsTable.id, dataset.id)).execute();
+      await db.insert(curationReviewsTable)
+        .values({ dataset_id: dataset.id, reviewer_id: curator.id, round: current.review_round, status, notes: null })
+        .execute();
+    };
+
+    return { owner, other, curator, admin, dataset, addFile, review };
+  };
+
+  it('should take a dataset from draft to published and record each step', async () => {
+    const { owner, curator, dataset, addFile, review } = await createTestData();
+    await addFile('data.csv');
+
+    const submitted = await transitionDataset({ id: dataset.id, status: 'review', reason: 'Ready for curation' }, owner);
+    expect(submitted.status).toBe('review');
+
+    await review('approved');
+    await transitionDataset({ id: dataset.id, status: 'approved' }, curator);
+    const published = await transitionDataset({ id: dataset.id, status: 'published' }, curator);
+
+    expect(published).toMatchObject({ status: 'published', version: 1, published_version: 1 });
+
+    const history = await getDatasetStatusHistory(dataset.id, null);
+    expect(history.map(change => [change.from_status, change.to_status, change.actor_id])).toEqual([
+      ['draft', 'review', owner.id],
+      ['review', 'approved', curator.id],
+      ['approved', 'published', curator.id]
+    ]);
+    expect(history[0].reason).toBe('Ready for curation');
+    expect(history[1].reason).toBeNull();
+    expect(history[0].version).toBe(1);
+    expect(history[0].created_at).toBeInstanceOf(Date);
+  });
+
+  it('should reject transitions that are not part of the lifecycle', async () => {
+    const { dataset, addFile } = await createTestData();
+    await addFile('data.csv');
+
+    await expect(transitionDataset({ id: dataset.id, status: 'published' })).rejects.toThrow('Cannot move dataset from draft to published');
+    await expect(transitionDataset({ id: dataset.id, status: 'draft' })).rejects.toThrow('Cannot move dataset from draft to draft');
+
+    const [unchanged] = await db.select().from(datasetsTable).where(eq(datasetsTable.id, dataset.id)).execute();
+    expect(unchanged.status).toBe('draft');
+    expect(await getDatasetStatusHistory(dataset.id)).toEqual([]);
+  });
+
+  it('should only let allowed roles make each transition', async () => {
+    const { owner, other, curator, dataset, addFile, review } = await createTestData();
+    await addFile('data.csv');
+
+    // Only the contributor and curators may submit
+    await expect(transitionDataset({ id: dataset.id, status: 'review' }, other))
+      .rejects.toThrow('Only the contributor and curators can move datasets from draft to review');
+    await transitionDataset({ id: dataset.id, status: 'review' }, owner);
+
+    // Contributors cannot approve their own datasets
+    await review('approved');
+    await expect(transitionDataset({ id: dataset.id, status: 'approved' }, owner))
+      .rejects.toThrow('Only curators can move datasets from review to approved');
+    await transitionDataset({ id: dataset.id, status: 'approved' }, curator);
+    await transitionDataset({ id: dataset.id, status: 'published' }, curator);
+
+    // Reinstating a withdrawn dataset is admin-only
+    await transitionDataset({ id: dataset.id, status: 'withdrawn', reason: 'Licence dispute' }, curator);
+    await expect(transitionDataset({ id: dataset.id, status: 'published', reason: 'Resolved' }, curator))
+      .rejects.toThrow('Only admins can move datasets from withdrawn to published');
+  });
+
+  it('should check files and metadata before review', async () => {
+    const { dataset, addFile } = await createTestData();
+
+    await expect(transitionDataset({ id: dataset.id, status: 'review' })).rejects.toThrow('Dataset has no files');
+
+    await addFile('ok.csv');
+    await addFile('ragged.csv', 'fail');
+    await db.update(datasetsTable).set({ license: ' ' }).where(eq(datasetsTable.id, dataset.id)).execute();
+
+    await expect(transitionDataset({ id: dataset.id, status: 'review' }))
+      .rejects.toThrow('Missing required metadata: license; Files failed validation: ragged.csv');
+  });
+
+  it('should require an approved review since the last submission', async () => {
+    const { curator, dataset, addFile, review } = await createTestData();
+    await addFile('data.csv');
+    await review('approved');
+
+    // Reviews from before the dataset entered review do not count
+    await transitionDataset({ id: dataset.id, status: 'review' });
+    await expect(transitionDataset({ id: dataset.id, status: 'approved' }, curator))
+      .rejects.toThrow('Dataset has 0 of 1 required curation approvals');
+
+    await review('rejected');
+    await review('approved');
+    await expect(transitionDataset({ id: dataset.id, status: 'approved' }, curator))
+      .rejects.toThrow('Curation rejected the dataset');
+
+    // Resubmitting starts a fresh round
+    await transitionDataset({ id: dataset.id, status: 'draft' });
+    await transitionDataset({ id: dataset.id, status: 'review' });
+    await review('approved');
+    const approved = await transitionDataset({ id: dataset.id, status: 'approved' }, curator);
+    expect(approved).toMatchObject({ status: 'approved', review_round: 2 });
+  });
+
+  it('should require a reason to withdraw a published dataset', async () => {
+    const { curator, dataset, addFile, review } = await createTestData();
+    await addFile('data.csv');
+    await transitionDataset({ id: dataset.id, status: 'review' });
+    await review('approved');
+    await transitionDataset({ id: dataset.id, status: 'approved' });
+    await transitionDataset({ id: dataset.id, status: 'published' });
+
+    await expect(transitionDataset({ id: dataset.id, status: 'withdrawn' }, curator))
+      .rejects.toThrow('A reason is required to move a dataset from published to withdrawn');
+
+    const withdrawn = await transitionDataset({ id: dataset.id, status: 'withdrawn', reason: 'Contains personal data' }, curator);
+    expect(withdrawn).toMatchObject({ status: 'withdrawn', published_version: 1 });
+
+    const history = await getDatasetStatusHistory(dataset.id);
+    expect(history.at(-1)).toMatchObject({ to_status: 'withdrawn', actor_id: curator.id, reason: 'Contains personal data' });
+  });
+
+  it('should hide private datasets from other users', async () => {
+    const { owner, other, dataset, addFile } = await createTestData('private');
+    await addFile('data.csv');
+
+    await expect(transitionDataset({ id: dataset.id, status: 'review' }, other)).rejects.toThrow(`Dataset with id ${dataset.id} not found`);
+    await transitionDataset({ id: dataset.id, status: 'review' }, owner);
+
+    await expect(getDatasetStatusHistory(dataset.id, null)).rejects.toThrow('not found');
+    expect(await getDatasetStatusHistory(dataset.id, owner)).toHaveLength(1);
+  });
+
+  it('should throw error when dataset does not exist', async () => {
+    await expect(transitionDataset({ id: 99999, status: 'review' })).rejects.toThrow('Dataset with id 99999 not found');
+  });
+});
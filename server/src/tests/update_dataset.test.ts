@@ -1,9 +1,13 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { usersTable, datasetsTable } from '../db/schema';
+import { usersTable, datasetsTable, datasetFilesTable, curationReviewsTable, datasetStatusHistoryTable } from '../db/schema';
 import { type UpdateDatasetInput } from '../schema';
 import { updateDataset } from '../handlers/update_dataset';
+import { getDatasetById } from '../handlers/get_dataset_by_id';
+import { searchDatasets } from '../handlers/search_datasets';
+import { getDashboardStats } from '../handlers/get_dashboard_stats';
+import { transitionDataset } from '../lib/lifecycle';
 import { eq } from 'drizzle-orm';
 
 describe('updateDataset', () => {
@@ -85,20 +89,84 @@ describe('updateDataset', () => {
     expect(result.publication_year).toBe(2024);
   });
 
-  it('should update status and access level', async () => {
+  it('should update access level', async () => {
     const input: UpdateDatasetInput = {
       id: testDataset.id,
-      status: 'review',
       access_level: 'restricted'
     };
 
     const result = await updateDataset(input);
 
-    expect(result.status).toBe('review');
     expect(result.access_level).toBe('restricted');
+    expect(result.status).toBe('draft'); // Status only changes through transitions
     expect(result.title).toBe('Original Dataset'); // Should remain unchanged
   });
 
+  it('should start a new draft version when a published dataset is edited', async () => {
+    await db.insert(datasetFilesTable)
+      .values({ dataset_id: testDataset.id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+      .execute();
+    const submitted = await transitionDataset(testDataset.id, 'review');
+    await db.insert(curationReviewsTable)
+      .values({ dataset_id: testDataset.id, reviewer_id: testUser.id, round: submitted.review_round, status: 'approved', notes: null })
+      .execute();
+    await transitionDataset(testDataset.id, 'approved');
+    await transitionDataset(testDataset.id, 'published');
+
+    // Access changes alone keep the published version
+    const restricted = await updateDataset({ id: testDataset.id, access_level: 'restricted' });
+    expect(restricted).toMatchObject({ status: 'published', version: 1, access_level: 'restricted' });
+
+    const draft = await updateDataset({ id: testDataset.id, title: 'Changed' }, { ...testUser, role: 'contributor' });
+    expect(draft).toMatchObject({ status: 'draft', version: 2, published_version: 1, title: 'Changed' });
+
+    const history = await db.select()
+      .from(datasetStatusHistoryTable)
+      .where(eq(datasetStatusHistoryTable.dataset_id, testDataset.id))
+      .orderBy(datasetStatusHistoryTable.id)
+      .execute();
+    expect(history.at(-1)).toMatchObject({
+      from_status: 'published',
+      to_status: 'draft',
+      version: 2,
+      actor_id: testUser.id,
+      reason: 'Started version 2'
+    });
+  });
+
+  it('should keep serving the published version to other viewers while the next one is revised', async () => {
+    await db.insert(datasetFilesTable)
+      .values({ dataset_id: testDataset.id, filename: 'data.csv', path: 'data.csv', size: 10, type: 'csv' })
+      .execute();
+    const submitted = await transitionDataset(testDataset.id, 'review');
+    await db.insert(curationReviewsTable)
+      .values({ dataset_id: testDataset.id, reviewer_id: testUser.id, round: submitted.review_round, status: 'approved', notes: null })
+      .execute();
+    await transitionDataset(testDataset.id, 'approved');
+    await transitionDataset(testDataset.id, 'published');
+
+    const owner = { ...testUser, role: 'contributor' as const };
+    const reader = { ...owner, id: testUser.id + 1000 };
+    await updateDataset({ id: testDataset.id, title: 'Changed' }, owner);
+
+    for (const viewer of [null, reader]) {
+      expect(await getDatasetById(testDataset.id, viewer)).toMatchObject({ status: 'published', version: 1, title: 'Original Dataset' });
+      const listed = await searchDatasets({ status: 'published', limit: 20, offset: 0 }, viewer);
+      expect(listed.map(dataset => dataset.title)).toEqual(['Original Dataset']);
+    }
+    expect(await getDatasetById(testDataset.id, owner)).toMatchObject({ status: 'draft', version: 2, title: 'Changed' });
+    expect((await getDashboardStats(null)).publishedDatasets).toBe(1);
+
+    // Publishing the revision makes it the version everyone sees
+    const resubmitted = await transitionDataset(testDataset.id, 'review');
+    await db.insert(curationReviewsTable)
+      .values({ dataset_id: testDataset.id, reviewer_id: testUser.id, round: resubmitted.review_round, status: 'approved', notes: null })
+      .execute();
+    await transitionDataset(testDataset.id, 'approved');
+    await transitionDataset(testDataset.id, 'published');
+    expect(await getDatasetById(testDataset.id, null)).toMatchObject({ status: 'published', version: 2, title: 'Changed', live_version: null });
+  });
+
   it('should update publication year', async () => {
     const input: UpdateDatasetInput = {
       id: testDataset.id,
@@ -165,8 +233,7 @@ describe('updateDataset', () => {
   it('should persist changes to database', async () => {
     const input: UpdateDatasetInput = {
       id: testDataset.id,
-      title: 'Persistent Title',
-      status: 'approved'
+      title: 'Persistent Title'
     };
 
     await updateDataset(input);
@@ -179,7 +246,6 @@ describe('updateDataset', () => {
 
     expect(datasets).toHaveLength(1);
     expect(datasets[0].title).toBe('Persistent Title');
-    expect(datasets[0].status).toBe('approved');
     expect(datasets[0].updated_at).toBeInstanceOf(Date);
   });
 
@@ -226,8 +292,7 @@ describe('updateDataset', () => {
 
   it('should update all possible enum values correctly', async () => {
     const testCases = [
-      { field: 'access_level', values: ['public', 'private', 'restricted'] },
-      { field: 'status', values: ['draft', 'review', 'approved', 'published'] }
+      { field: 'access_level', values: ['public', 'private', 'restricted'] }
     ];
 
     for (const testCase of testCases) {
@@ -28,12 +28,6 @@ const createTestUser = async () => {
   return result[0];
 };
 
-// Helper function to verify password
-const verifyPassword = (password: string, hashedPassword: string): boolean => {
-  const [salt, hash] = hashedPassword.split(':');
-  const testHash = createHash('sha256').update(password + salt).digest('hex');
-  return hash === testHash;
-};
 
 describe('updateUser', () => {
   beforeEach(createDB);
@@ -88,7 +82,8 @@ describe('updateUser', () => {
     expect(result.password).not.toEqual(testUser.password); // Should be different from old hash
 
     // Verify the password is properly hashed
-    const passwordMatch = verifyPassword('newpassword456', result.password);
+    expect(result.password).toMatch(/^\$2[aby]\$10\$/); // bcrypt hash pattern
+    const passwordMatch = await Bun.password.verify('newpassword456', result.password);
     expect(passwordMatch).toBe(true);
   });
 
@@ -225,4 +220,18 @@ describe('updateUser', () => {
     expect(result.password).toEqual(testUser.password); // Should remain unchanged
     expect(result.updated_at > testUser.updated_at).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should reject a new password that violates the password policy', async () => {
+    const testUser = await createTestUser();
+
+    const input: UpdateUserInput = {
+      id: testUser.id,
+      password: 'short1'
+    };
+
+    await expect(updateUser(input)).rejects.toMatchObject({ code: 'BAD_REQUEST', message: expect.stringMatching(/at least 8 characters/i) });
+
+    const [stored] = await db.select().from(usersTable).where(eq(usersTable.id, testUser.id)).execute();
+    expect(stored.password).toEqual(testUser.password);
+  });
+});
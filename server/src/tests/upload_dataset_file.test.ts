@@ -0,0 +1,302 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable, datasetFileMembersTable } from '../db/schema';
+import { type AuthUser } from '../schema';
+import { uploadDatasetFile } from '../handlers/upload_dataset_file';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { asc } from 'drizzle-orm';
+import archiver from 'archiver';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('uploadDatasetFile', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'upload-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createTestData = async () => {
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' },
+        { email: 'other@test.com', password: 'password123', role: 'contributor', name: 'Other' }
+      ])
+      .returning()
+      .execute();
+
+    const [owner, other] = users.map(({ password, ...user }): AuthUser => user);
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Upload Dataset',
+        description: 'Dataset for upload tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: owner.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    return { owner, other, dataset };
+  };
+
+  it('should store the bytes and record the real size, type and checksums', async () => {
+    const { owner, dataset } = await createTestData();
+    const content = 'name,age\nAlice,30\nBob,25\n';
+
+    const result = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'people.CSV',
+      body: Readable.from([Buffer.from(content)])
+    }, owner);
+
+    expect(result.dataset_id).toEqual(dataset.id);
+    expect(result.filename).toEqual('people.CSV');
+    expect(result.type).toEqual('csv');
+    expect(result.size).toEqual(Buffer.byteLength(content));
+    expect(result.path).toMatch(new RegExp(`^datasets/${dataset.id}/`));
+    expect(result.sha256).toEqual(createHash('sha256').update(content).digest('hex'));
+    expect(result.md5).toEqual(createHash('md5').update(content).digest('hex'));
+    expect(result.integrity_status).toEqual('unverified');
+    expect(result.validation_status).toEqual('pass');
+    expect(result.validated_at).toBeInstanceOf(Date);
+
+    const stored = await fs.readFile(storage.resolve(result.path), 'utf-8');
+    expect(stored).toEqual(content);
+
+    const rows = await db.select().from(datasetFilesTable).execute();
+    expect(rows).toHaveLength(1);
+  });
+
+  it('should strip directories from the client filename', async () => {
+    const { owner, dataset } = await createTestData();
+
+    const result = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: '../../etc/data.json',
+      body: Readable.from([Buffer.from('[]')])
+    }, owner);
+
+    expect(result.filename).toEqual('data.json');
+    expect(storage.resolve(result.path).startsWith(storageDir)).toBe(true);
+  });
+
+  it('should reject unsupported file types without storing anything', async () => {
+    const { owner, dataset } = await createTestData();
+
+    await expect(uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'notes.txt',
+      body: Readable.from([Buffer.from('hello')])
+    }, owner)).rejects.toThrow(/invalid file type/i);
+
+    const rows = await db.select().from(datasetFilesTable).execute();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should record the format detected from the content', async () => {
+    const { owner, dataset } = await createTestData();
+
+    const jsonLines = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'events.ndjson',
+      body: Readable.from([Buffer.from('{"id":1}\n{"id":2}\n')])
+    }, owner);
+    const tabSeparated = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'scores.csv',
+      body: Readable.from([Buffer.from('name\tscore\nAnn\t9\n')])
+    }, owner);
+
+    expect(jsonLines.type).toEqual('jsonl');
+    expect(tabSeparated.type).toEqual('tsv');
+  });
+
+  it('should keep CSV files whose first cell starts with a bracket', async () => {
+    const { owner, dataset } = await createTestData();
+    const upload = (filename: string, content: string) => uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename,
+      body: Readable.from([Buffer.from(content)])
+    }, owner);
+
+    const bracketed = await upload('ranges.csv', '[low],[high]\n1,2\n');
+    const braced = await upload('tags.tsv', '{tag}\tcount\na\t1\n');
+    const json = await upload('records.csv', '[{"id": 1}]');
+    const jsonLines = await upload('events.csv', '{"id": 1}\n{"id": 2}\n');
+
+    expect(bracketed).toMatchObject({ type: 'csv', validation_status: 'pass' });
+    expect(braced).toMatchObject({ type: 'tsv', validation_status: 'pass' });
+    expect(json.type).toEqual('json');
+    expect(jsonLines.type).toEqual('jsonl');
+  });
+
+  it('should keep files that fail validation along with their report', async () => {
+    const { owner, dataset } = await createTestData();
+
+    const result = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'ragged.csv',
+      body: Readable.from([Buffer.from('a,b\n1,2\n3\n')])
+    }, owner);
+
+    expect(result.validation_status).toEqual('fail');
+    expect(result.validation_report).toContainEqual({
+      check: 'column_count',
+      status: 'fail',
+      message: 'Rows without the 2 columns of the header: 1, first at line 3'
+    });
+    const [row] = await db.select().from(datasetFilesTable).execute();
+    expect(row.validation_status).toEqual('fail');
+  });
+
+  it('should record the compression of compressed files', async () => {
+    const { owner, dataset } = await createTestData();
+
+    const result = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'scores.csv.gz',
+      body: Readable.from([gzipSync('name,score\nAnn,9\n')])
+    }, owner);
+
+    expect(result.type).toEqual('csv');
+    expect(result.compression).toEqual('gzip');
+  });
+
+  it('should sniff compressed content that fills the sample exactly as complete', async () => {
+    const { owner, dataset } = await createTestData();
+    // A JSON array padded to the 64 KiB sample only parses when the sample is known to be complete
+    const jsonArray = (size: number) => gzipSync(`[${' '.repeat(size - 2)}]`);
+
+    const exact = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'exact.csv.gz',
+      body: Readable.from([jsonArray(64 * 1024)])
+    }, owner);
+    const longer = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'longer.csv.gz',
+      body: Readable.from([jsonArray(64 * 1024 + 1)])
+    }, owner);
+
+    expect(exact.type).toEqual('json');
+    expect(longer.type).toEqual('csv');
+  });
+
+  it('should store the member listing of archives', async () => {
+    const { owner, dataset } = await createTestData();
+    const zip = archiver('zip');
+    zip.append('x,y\n1,2\n', { name: 'data/train.csv' });
+    zip.append('# Notes\n', { name: 'notes.md' });
+    zip.finalize();
+
+    const result = await uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'bundle.zip',
+      body: zip
+    }, owner);
+
+    expect(result.type).toEqual('zip');
+    expect(result.compression).toBeNull();
+
+    const members = await db.select().from(datasetFileMembersTable).orderBy(asc(datasetFileMembersTable.id)).execute();
+    expect(members.map(({ file_id, path, size, format }) => ({ file_id, path, size, format }))).toEqual([
+      { file_id: result.id, path: 'data/train.csv', size: 8, format: 'csv' },
+      { file_id: result.id, path: 'notes.md', size: 8, format: null }
+    ]);
+  });
+
+  it('should reject archives whose content does not match the name', async () => {
+    const { owner, dataset } = await createTestData();
+
+    await expect(uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'bundle.zip',
+      body: Readable.from([Buffer.from('a,b\n1,2\n')])
+    }, owner)).rejects.toThrow(/not a valid zip file/i);
+  });
+
+  it('should reject content that is not in a supported format', async () => {
+    const { owner, dataset } = await createTestData();
+
+    await expect(uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'model.parquet',
+      body: Readable.from([Buffer.from('a,b\n1,2\n')])
+    }, owner)).rejects.toThrow(/not a valid parquet file/i);
+    await expect(uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'image.csv',
+      body: Readable.from([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x00])])
+    }, owner)).rejects.toThrow(/not a valid csv file/i);
+
+    const rows = await db.select().from(datasetFilesTable).execute();
+    expect(rows).toHaveLength(0);
+
+    const stored = await fs.readdir(path.join(storageDir, 'datasets', String(dataset.id))).catch(() => [] as string[]);
+    expect(stored.filter(name => name.includes('model.parquet') || name.includes('image.csv'))).toHaveLength(0);
+  });
+
+  it('should abort uploads that exceed the maximum size', async () => {
+    const { owner, dataset } = await createTestData();
+    const chunk = Buffer.alloc(1024 * 1024, 'a');
+
+    await expect(uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'huge.csv',
+      body: Readable.from((function* () {
+        for (let i = 0; i < 101; i++) {
+          yield chunk;
+        }
+      })())
+    }, owner)).rejects.toThrow(/exceeds maximum allowed size/i);
+
+    const rows = await db.select().from(datasetFilesTable).execute();
+    expect(rows).toHaveLength(0);
+
+    const stored = await fs.readdir(path.join(storageDir, 'datasets', String(dataset.id))).catch(() => [] as string[]);
+    expect(stored.filter(name => name.includes('huge.csv'))).toHaveLength(0);
+  });
+
+  it('should reject uploads to datasets the user does not own', async () => {
+    const { other, dataset } = await createTestData();
+
+    await expect(uploadDatasetFile({
+      dataset_id: dataset.id,
+      filename: 'data.csv',
+      body: Readable.from([Buffer.from('a,b\n1,2\n')])
+    }, other)).rejects.toThrow(/your own datasets/i);
+  });
+
+  it('should reject uploads to missing datasets', async () => {
+    const { owner } = await createTestData();
+
+    await expect(uploadDatasetFile({
+      dataset_id: 99999,
+      filename: 'data.csv',
+      body: Readable.from([Buffer.from('a,b\n1,2\n')])
+    }, owner)).rejects.toThrow(/not found/i);
+  });
+});
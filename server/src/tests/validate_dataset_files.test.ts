@@ -0,0 +1,185 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable } from '../db/schema';
+import { validateDatasetFiles } from '../jobs/validate_dataset_files';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { type ValidationCheckResult } from '../schema';
+import { asc } from 'drizzle-orm';
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('validateDatasetFiles', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'validation-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createFiles = async (files: Record<string, string | Buffer>) => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Validated Dataset',
+        description: 'Dataset for validation tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'draft',
+        contributor_id: user.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    for (const [filename, content] of Object.entries(files)) {
+      await storage.put(`datasets/${filename}`, Readable.from([Buffer.from(content)]));
+    }
+
+    return db.insert(datasetFilesTable)
+      .values(Object.entries(files).map(([filename, content]) => ({
+        dataset_id: dataset.id,
+        filename,
+        path: `datasets/${filename}`,
+        size: Buffer.byteLength(content),
+        type: filename.split('.')[1]
+      })))
+      .returning()
+      .execute();
+  };
+
+  const files = () => db.select().from(datasetFilesTable).orderBy(asc(datasetFilesTable.id)).execute();
+
+  const statuses = (report: ValidationCheckResult[] | null) =>
+    Object.fromEntries((report ?? []).map(check => [check.check, check.status]));
+
+  it('should pass well-formed files', async () => {
+    await createFiles({
+      'people.csv': 'id,name\n1,Ann\n2,Ben\n',
+      'records.json': JSON.stringify({ data: [{ id: 1, owner: { name: 'Ann' } }, { id: 2, owner: { name: 'Ben' } }] }),
+      'events.jsonl.gz': gzipSync('{"id": 1}\n{"id": 2}\n')
+    });
+
+    const summary = await validateDatasetFiles();
+
+    expect(summary).toEqual({ pass: 3, warn: 0, fail: 0 });
+    const [csv] = await files();
+    expect(csv.validation_status).toBe('pass');
+    expect(csv.validated_at).toBeInstanceOf(Date);
+    expect(csv.validation_report).toEqual([
+      { check: 'parse', status: 'pass', message: null },
+      { check: 'encoding', status: 'pass', message: null },
+      { check: 'header', status: 'pass', message: null },
+      { check: 'column_count', status: 'pass', message: null },
+      { check: 'duplicate_rows', status: 'pass', message: null },
+      { check: 'empty_columns', status: 'pass', message: null }
+    ]);
+  });
+
+  it('should warn about duplicate rows, empty columns, header problems and encoding', async () => {
+    await createFiles({
+      'repeats.csv': 'id,name,notes,name\n1,Ann,,x\n2,Ben,,y\n1,Ann,,x\n',
+      'latin.csv': Buffer.concat([Buffer.from('id,city\n1,Malm'), Buffer.from([0xf6]), Buffer.from('\n')]),
+      'numbers.csv': '1,2\n3,4\n'
+    });
+
+    expect(await validateDatasetFiles()).toEqual({ pass: 0, warn: 3, fail: 0 });
+
+    const [repeats, latin, numbers] = await files();
+    expect(repeats.validation_status).toBe('warn');
+    expect(repeats.validation_report).toContainEqual(
+      { check: 'duplicate_rows', status: 'warn', message: 'Duplicate rows: 1, first at line 4' }
+    );
+    expect(repeats.validation_report).toContainEqual(
+      { check: 'empty_columns', status: 'warn', message: 'Columns without values: notes' }
+    );
+    expect(repeats.validation_report).toContainEqual(
+      { check: 'header', status: 'warn', message: 'Column names used more than once: name' }
+    );
+    expect(latin.validation_report).toContainEqual(
+      { check: 'encoding', status: 'warn', message: 'Content is encoded as windows-1252, not UTF-8' }
+    );
+    expect(statuses(numbers.validation_report)).toMatchObject({ header: 'warn', column_count: 'pass' });
+  });
+
+  it('should fail unparsable files and rows with the wrong number of columns', async () => {
+    await createFiles({
+      'ragged.csv': 'a,b,c\n1,2,3\n4,5\n6,7,8\n9\n',
+      'broken.jsonl': '{"id": 1}\n{"id": \n',
+      'empty.csv': ''
+    });
+    await db.insert(datasetFilesTable)
+      .values({ dataset_id: 1, filename: 'gone.csv', path: 'datasets/gone.csv', size: 10, type: 'csv' })
+      .execute();
+
+    expect(await validateDatasetFiles()).toEqual({ pass: 0, warn: 0, fail: 4 });
+
+    const [ragged, broken, empty, gone] = await files();
+    expect(ragged.validation_report).toContainEqual({
+      check: 'column_count',
+      status: 'fail',
+      message: 'Rows without the 3 columns of the header: 2, first at line 3'
+    });
+    expect(broken.validation_report).toEqual([
+      { check: 'parse', status: 'fail', message: expect.stringContaining('Line 2') }
+    ]);
+    expect(statuses(empty.validation_report)).toMatchObject({ parse: 'pass', header: 'fail' });
+    expect(gone.validation_report).toEqual([
+      { check: 'parse', status: 'fail', message: 'Content is missing from storage' }
+    ]);
+
+    // Validated files are not picked up again
+    expect(await validateDatasetFiles()).toEqual({ pass: 0, warn: 0, fail: 0 });
+  });
+
+  it('should fail compressed files that expand beyond the limit', async () => {
+    await createFiles({ 'bomb.csv.gz': gzipSync(Buffer.alloc(64 * 1024, 'a')) });
+
+    process.env['MAX_DECOMPRESSED_SIZE'] = '1024';
+    try {
+      expect(await validateDatasetFiles()).toEqual({ pass: 0, warn: 0, fail: 1 });
+    } finally {
+      delete process.env['MAX_DECOMPRESSED_SIZE'];
+    }
+
+    const [bomb] = await files();
+    expect(bomb.validation_report).toEqual([
+      { check: 'parse', status: 'fail', message: 'Could not parse file: Decompressed content exceeds 1024 bytes' }
+    ]);
+  });
+
+  it('should only warn about JSON records with keys beyond those of the first records', async () => {
+    const records = Array.from({ length: 120 }, (_, i) => i === 110 ? { id: i, extra: true } : { id: i });
+    await createFiles({ 'drift.json': JSON.stringify(records) });
+
+    await validateDatasetFiles();
+
+    const [drift] = await files();
+    expect(drift.validation_status).toBe('warn');
+    expect(drift.validation_report).toContainEqual({
+      check: 'column_count',
+      status: 'warn',
+      message: 'Records with keys not found in the first 100 records: 1, first at record 111'
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, datasetsTable, datasetFilesTable } from '../db/schema';
+import { verifyFileIntegrity } from '../jobs/verify_file_integrity';
+import { setStorage } from '../lib/storage';
+import { LocalDiskStorage } from '../lib/storage/local';
+import { createHash } from 'crypto';
+import { asc, eq } from 'drizzle-orm';
+import { Readable } from 'stream';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+const content = 'x,y\n1,2\n';
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+const md5 = (value: string) => createHash('md5').update(value).digest('hex');
+
+describe('verifyFileIntegrity', () => {
+  let storageDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeAll(async () => {
+    storageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'integrity-test-'));
+    storage = new LocalDiskStorage(storageDir);
+    setStorage(storage);
+  });
+
+  afterAll(async () => {
+    setStorage(null);
+    await fs.rm(storageDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    await createDB();
+    await storage.put('datasets/good.csv', Readable.from([Buffer.from(content)]));
+    await storage.put('datasets/tampered.csv', Readable.from([Buffer.from('x,y\n1,3\n')]));
+    await storage.put('datasets/truncated.csv', Readable.from([Buffer.from('x,y\n')]));
+    await storage.put('datasets/legacy.csv', Readable.from([Buffer.from(content)]));
+  });
+
+  afterEach(resetDB);
+
+  const createFiles = async () => {
+    const [user] = await db.insert(usersTable)
+      .values({ email: 'owner@test.com', password: 'password123', role: 'contributor', name: 'Owner' })
+      .returning()
+      .execute();
+
+    const [dataset] = await db.insert(datasetsTable)
+      .values({
+        title: 'Integrity Dataset',
+        description: 'Dataset for integrity tests',
+        domain: 'Testing',
+        task: 'Classification',
+        license: 'MIT',
+        access_level: 'public',
+        status: 'published',
+        contributor_id: user.id,
+        publication_year: 2024
+      })
+      .returning()
+      .execute();
+
+    const checksums = { sha256: sha256(content), md5: md5(content) };
+    const base = { dataset_id: dataset.id, size: Buffer.byteLength(content), type: 'csv' };
+
+    return db.insert(datasetFilesTable)
+      .values([
+        { ...base, ...checksums, filename: 'good.csv', path: 'datasets/good.csv' },
+        { ...base, ...checksums, filename: 'tampered.csv', path: 'datasets/tampered.csv' },
+        { ...base, ...checksums, filename: 'truncated.csv', path: 'datasets/truncated.csv' },
+        { ...base, ...checksums, filename: 'missing.csv', path: 'datasets/missing.csv' },
+        { ...base, filename: 'legacy.csv', path: 'datasets/legacy.csv' }
+      ])
+      .returning()
+      .execute();
+  };
+
+  it('should flag files whose content, size or presence changed', async () => {
+    await createFiles();
+
+    const summary = await verifyFileIntegrity();
+
+    expect(summary).toEqual({ checked: 5, ok: 2, mismatch: 2, missing: 1 });
+
+    const files = await db.select().from(datasetFilesTable).orderBy(asc(datasetFilesTable.id)).execute();
+    expect(files.map(file => [file.filename, file.integrity_status])).toEqual([
+      ['good.csv', 'ok'],
+      ['tampered.csv', 'mismatch'],
+      ['truncated.csv', 'mismatch'],
+      ['missing.csv', 'missing'],
+      ['legacy.csv', 'ok']
+    ]);
+    expect(files.every(file => file.integrity_checked_at instanceof Date)).toBe(true);
+
+    // Recorded checksums are kept so the flag does not clear itself on the next run
+    expect(files[1].sha256).toEqual(sha256(content));
+  });
+
+  it('should backfill checksums of files registered without them', async () => {
+    const files = await createFiles();
+    const legacy = files[4];
+
+    await verifyFileIntegrity();
+
+    const [row] = await db.select().from(datasetFilesTable).where(eq(datasetFilesTable.id, legacy.id)).execute();
+    expect(row.sha256).toEqual(sha256(content));
+    expect(row.md5).toEqual(md5(content));
+  });
+
+  it('should check the least recently verified files first', async () => {
+    const files = await createFiles();
+
+    const first = await verifyFileIntegrity(2);
+    expect(first.checked).toEqual(2);
+
+    await verifyFileIntegrity(2);
+
+    const rows = await db.select().from(datasetFilesTable).orderBy(asc(datasetFilesTable.id)).execute();
+    expect(rows.filter(row => row.integrity_checked_at === null).map(row => row.id)).toEqual([files[4].id]);
+  });
+});
@@ -0,0 +1,54 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import type { ServerResponse } from 'http';
+import superjson from 'superjson';
+import { type AuthUser, type UserRole } from './schema';
+import { getSessionToken, resolveSession } from './lib/session';
+import { hasRole } from './lib/roles';
+
+export interface Context {
+  user: AuthUser | null;
+  sessionToken: string | null;
+  res?: ServerResponse;
+}
+
+/**
+ * Resolves the caller from the session cookie or bearer token on each request.
+ */
+export async function createContext({ req, res }: CreateHTTPContextOptions): Promise<Context> {
+  const token = getSessionToken(req);
+  const resolved = token ? await resolveSession(token) : null;
+
+  return {
+    user: resolved?.user ?? null,
+    sessionToken: resolved ? token : null,
+    res
+  };
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+export const publicProcedure = t.procedure;
+
+/**
+ * Rejects anonymous callers with UNAUTHORIZED and callers below the role with FORBIDDEN.
+ */
+const requireRole = (role: UserRole) => t.middleware(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'You must be signed in' });
+  }
+  if (!hasRole(ctx.user, role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `This action requires the ${role} role` });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+export const viewerProcedure = t.procedure.use(requireRole('viewer'));
+export const contributorProcedure = t.procedure.use(requireRole('contributor'));
+export const curatorProcedure = t.procedure.use(requireRole('curator'));
+export const adminProcedure = t.procedure.use(requireRole('admin'));